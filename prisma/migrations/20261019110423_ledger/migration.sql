@@ -0,0 +1,101 @@
+-- AlterTable
+-- Balances were held in Naira; convert them to kobo.
+ALTER TABLE "Wallet" ALTER COLUMN "balance" SET DEFAULT 0,
+ALTER COLUMN "balance" SET DATA TYPE BIGINT USING ROUND("balance" * 100)::BIGINT;
+
+-- CreateTable
+CREATE TABLE "LedgerAccount" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'NGN',
+    "walletId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LedgerAccount_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "JournalEntry" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "reference" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "JournalEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "JournalLine" (
+    "id" TEXT NOT NULL,
+    "entryId" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "direction" TEXT NOT NULL,
+    "amount" BIGINT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "JournalLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LedgerAccount_code_key" ON "LedgerAccount"("code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LedgerAccount_walletId_key" ON "LedgerAccount"("walletId");
+
+-- CreateIndex
+CREATE INDEX "LedgerAccount_code_idx" ON "LedgerAccount"("code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "JournalEntry_reference_key" ON "JournalEntry"("reference");
+
+-- CreateIndex
+CREATE INDEX "JournalEntry_reference_idx" ON "JournalEntry"("reference");
+
+-- CreateIndex
+CREATE INDEX "JournalEntry_createdAt_idx" ON "JournalEntry"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "JournalLine_entryId_idx" ON "JournalLine"("entryId");
+
+-- CreateIndex
+CREATE INDEX "JournalLine_accountId_idx" ON "JournalLine"("accountId");
+
+-- AddForeignKey
+ALTER TABLE "LedgerAccount" ADD CONSTRAINT "LedgerAccount_walletId_fkey" FOREIGN KEY ("walletId") REFERENCES "Wallet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "JournalLine" ADD CONSTRAINT "JournalLine_entryId_fkey" FOREIGN KEY ("entryId") REFERENCES "JournalEntry"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "JournalLine" ADD CONSTRAINT "JournalLine_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "LedgerAccount"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Post an opening entry for every existing balance against an opening
+-- balances account, so the ledger agrees with the wallets from the start.
+INSERT INTO "LedgerAccount" ("id", "code", "name", "type", "updatedAt")
+SELECT 'opening_balances', 'system:opening_balances', 'Opening balances', 'asset', CURRENT_TIMESTAMP
+WHERE EXISTS (SELECT 1 FROM "Wallet" WHERE "balance" <> 0);
+
+INSERT INTO "LedgerAccount" ("id", "code", "name", "type", "walletId", "updatedAt")
+SELECT 'wallet_' || "id", 'wallet:' || "id", 'Wallet ' || "id", 'liability', "id", CURRENT_TIMESTAMP
+FROM "Wallet"
+WHERE "balance" <> 0;
+
+INSERT INTO "JournalEntry" ("id", "type", "reference", "description")
+SELECT 'opening_' || "id", 'opening_balance', 'opening:' || "id", 'Balance before the ledger was introduced'
+FROM "Wallet"
+WHERE "balance" <> 0;
+
+INSERT INTO "JournalLine" ("id", "entryId", "accountId", "direction", "amount")
+SELECT 'opening_' || "id" || '_wallet', 'opening_' || "id", 'wallet_' || "id",
+       CASE WHEN "balance" > 0 THEN 'credit' ELSE 'debit' END, ABS("balance")
+FROM "Wallet"
+WHERE "balance" <> 0
+UNION ALL
+SELECT 'opening_' || "id" || '_system', 'opening_' || "id", 'opening_balances',
+       CASE WHEN "balance" > 0 THEN 'debit' ELSE 'credit' END, ABS("balance")
+FROM "Wallet"
+WHERE "balance" <> 0;
@@ -0,0 +1,91 @@
+-- DropIndex
+DROP INDEX "LedgerAccount_walletId_key";
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "convertedAmount" DOUBLE PRECISION,
+ADD COLUMN     "convertedCurrency" TEXT,
+ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'NGN',
+ADD COLUMN     "fxRate" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "Transfer" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'NGN',
+ADD COLUMN     "fxRate" DOUBLE PRECISION,
+ADD COLUMN     "recipientAmount" DOUBLE PRECISION,
+ADD COLUMN     "recipientCurrency" TEXT;
+
+-- CreateTable
+CREATE TABLE "WalletBalance" (
+    "id" TEXT NOT NULL,
+    "walletId" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "balance" BIGINT NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WalletBalance_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WalletBalance_walletId_idx" ON "WalletBalance"("walletId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WalletBalance_walletId_currency_key" ON "WalletBalance"("walletId", "currency");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LedgerAccount_walletId_currency_key" ON "LedgerAccount"("walletId", "currency");
+
+-- AddForeignKey
+ALTER TABLE "WalletBalance" ADD CONSTRAINT "WalletBalance_walletId_fkey" FOREIGN KEY ("walletId") REFERENCES "Wallet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Existing balances become NGN balances.
+INSERT INTO "WalletBalance" ("id", "walletId", "currency", "balance", "updatedAt")
+SELECT 'balance_' || "id" || '_NGN', "id", 'NGN', "balance", CURRENT_TIMESTAMP
+FROM "Wallet";
+
+-- Post an opening entry for any part of a balance the ledger does not
+-- account for, so reconcile agrees for every wallet.
+CREATE TEMP TABLE "_OpeningBalance" AS
+SELECT w."id" AS "walletId",
+       w."balance" - COALESCE(SUM(CASE WHEN l."direction" = 'credit' THEN l."amount" ELSE -l."amount" END), 0) AS "amount"
+FROM "Wallet" w
+LEFT JOIN "LedgerAccount" a ON a."walletId" = w."id"
+LEFT JOIN "JournalLine" l ON l."accountId" = a."id"
+GROUP BY w."id", w."balance";
+
+DELETE FROM "_OpeningBalance" WHERE "amount" = 0;
+
+INSERT INTO "LedgerAccount" ("id", "code", "name", "type", "updatedAt")
+SELECT 'opening_balances', 'system:opening_balances', 'Opening balances', 'asset', CURRENT_TIMESTAMP
+WHERE EXISTS (SELECT 1 FROM "_OpeningBalance")
+ON CONFLICT ("code") DO NOTHING;
+
+INSERT INTO "LedgerAccount" ("id", "code", "name", "type", "walletId", "updatedAt")
+SELECT 'wallet_' || "walletId", 'wallet:' || "walletId", 'Wallet ' || "walletId", 'liability', "walletId", CURRENT_TIMESTAMP
+FROM "_OpeningBalance"
+ON CONFLICT ("code") DO NOTHING;
+
+INSERT INTO "JournalEntry" ("id", "type", "reference", "description")
+SELECT 'opening_ngn_' || "walletId", 'opening_balance', 'opening:' || "walletId" || ':NGN', 'NGN balance not yet in the ledger'
+FROM "_OpeningBalance";
+
+INSERT INTO "JournalLine" ("id", "entryId", "accountId", "direction", "amount")
+SELECT 'opening_ngn_' || o."walletId" || '_wallet', 'opening_ngn_' || o."walletId", a."id",
+       CASE WHEN o."amount" > 0 THEN 'credit' ELSE 'debit' END, ABS(o."amount")
+FROM "_OpeningBalance" o
+JOIN "LedgerAccount" a ON a."walletId" = o."walletId"
+UNION ALL
+SELECT 'opening_ngn_' || o."walletId" || '_system', 'opening_ngn_' || o."walletId", a."id",
+       CASE WHEN o."amount" > 0 THEN 'debit' ELSE 'credit' END, ABS(o."amount")
+FROM "_OpeningBalance" o
+JOIN "LedgerAccount" a ON a."code" = 'system:opening_balances';
+
+DROP TABLE "_OpeningBalance";
+
+-- AlterTable
+ALTER TABLE "Wallet" DROP COLUMN "balance";
+
+-- Ledger account codes and names now carry their currency; every existing
+-- account is NGN.
+UPDATE "LedgerAccount"
+SET "code" = "code" || ':' || "currency",
+    "name" = "name" || ' (' || "currency" || ')';
@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "direction" TEXT;
+
+-- Transactions recorded before direction was added. Transfers were recorded
+-- on both wallets as "Transfer to ..." and "Received from ...".
+UPDATE "Transaction"
+SET "direction" = CASE
+  WHEN "type" = 'deposit' THEN 'in'
+  WHEN "type" = 'transfer' AND "description" LIKE 'Received from %' THEN 'in'
+  ELSE 'out'
+END;
+
+-- AlterTable
+ALTER TABLE "Transaction" ALTER COLUMN "direction" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Transaction_walletId_createdAt_id_idx" ON "Transaction"("walletId", "createdAt", "id");
@@ -0,0 +1,57 @@
+-- CreateTable
+CREATE TABLE "ScheduledTransfer" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "walletNumber" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'NGN',
+    "targetCurrency" TEXT,
+    "description" TEXT,
+    "frequency" TEXT NOT NULL,
+    "cronExpression" TEXT,
+    "startAt" TIMESTAMP(3) NOT NULL,
+    "endAt" TIMESTAMP(3),
+    "nextRunAt" TIMESTAMP(3),
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ScheduledTransfer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ScheduledTransferRun" (
+    "id" TEXT NOT NULL,
+    "scheduleId" TEXT NOT NULL,
+    "scheduledFor" TIMESTAMP(3) NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "nextAttemptAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "error" TEXT,
+    "transferReference" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ScheduledTransferRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ScheduledTransfer_userId_idx" ON "ScheduledTransfer"("userId");
+
+-- CreateIndex
+CREATE INDEX "ScheduledTransfer_status_nextRunAt_idx" ON "ScheduledTransfer"("status", "nextRunAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ScheduledTransferRun_transferReference_key" ON "ScheduledTransferRun"("transferReference");
+
+-- CreateIndex
+CREATE INDEX "ScheduledTransferRun_status_nextAttemptAt_idx" ON "ScheduledTransferRun"("status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ScheduledTransferRun_scheduleId_scheduledFor_key" ON "ScheduledTransferRun"("scheduleId", "scheduledFor");
+
+-- AddForeignKey
+ALTER TABLE "ScheduledTransfer" ADD CONSTRAINT "ScheduledTransfer_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScheduledTransferRun" ADD CONSTRAINT "ScheduledTransferRun_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "ScheduledTransfer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,43 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "reversalOfId" TEXT,
+ADD COLUMN     "transferId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Transfer" ADD COLUMN     "reversedAmount" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "Dispute" (
+    "id" TEXT NOT NULL,
+    "transferId" TEXT NOT NULL,
+    "openedById" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "requestedAmount" DOUBLE PRECISION NOT NULL,
+    "approvedAmount" DOUBLE PRECISION,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Dispute_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Dispute_transferId_idx" ON "Dispute"("transferId");
+
+-- CreateIndex
+CREATE INDEX "Dispute_openedById_idx" ON "Dispute"("openedById");
+
+-- CreateIndex
+CREATE INDEX "Dispute_status_idx" ON "Dispute"("status");
+
+-- CreateIndex
+CREATE INDEX "Transaction_transferId_idx" ON "Transaction"("transferId");
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_transferId_fkey" FOREIGN KEY ("transferId") REFERENCES "Transfer"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_reversalOfId_fkey" FOREIGN KEY ("reversalOfId") REFERENCES "Transaction"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Dispute" ADD CONSTRAINT "Dispute_transferId_fkey" FOREIGN KEY ("transferId") REFERENCES "Transfer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
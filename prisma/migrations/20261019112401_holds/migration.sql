@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "Hold" (
+    "id" TEXT NOT NULL,
+    "walletId" TEXT NOT NULL,
+    "amount" BIGINT NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'NGN',
+    "capturedAmount" BIGINT,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "description" TEXT,
+    "transferReference" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Hold_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Hold_transferReference_key" ON "Hold"("transferReference");
+
+-- CreateIndex
+CREATE INDEX "Hold_walletId_status_currency_idx" ON "Hold"("walletId", "status", "currency");
+
+-- CreateIndex
+CREATE INDEX "Hold_status_expiresAt_idx" ON "Hold"("status", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "Hold" ADD CONSTRAINT "Hold_walletId_fkey" FOREIGN KEY ("walletId") REFERENCES "Wallet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
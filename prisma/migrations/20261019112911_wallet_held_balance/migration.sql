@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "WalletBalance" ADD COLUMN     "heldBalance" BIGINT NOT NULL DEFAULT 0;
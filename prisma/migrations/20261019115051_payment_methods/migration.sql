@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "PaymentMethod" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "provider" TEXT NOT NULL DEFAULT 'paystack',
+    "authorizationCode" TEXT NOT NULL,
+    "signature" TEXT,
+    "brand" TEXT,
+    "bin" TEXT,
+    "last4" TEXT NOT NULL,
+    "expMonth" TEXT NOT NULL,
+    "expYear" TEXT NOT NULL,
+    "bank" TEXT,
+    "reusable" BOOLEAN NOT NULL DEFAULT true,
+    "lastUsedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PaymentMethod_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentMethod_authorizationCode_key" ON "PaymentMethod"("authorizationCode");
+
+-- CreateIndex
+CREATE INDEX "PaymentMethod_userId_idx" ON "PaymentMethod"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentMethod_userId_signature_key" ON "PaymentMethod"("userId", "signature");
+
+-- AddForeignKey
+ALTER TABLE "PaymentMethod" ADD CONSTRAINT "PaymentMethod_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
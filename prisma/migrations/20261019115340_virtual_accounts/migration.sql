@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "VirtualAccount" (
+    "id" TEXT NOT NULL,
+    "walletId" TEXT NOT NULL,
+    "provider" TEXT NOT NULL DEFAULT 'paystack',
+    "customerCode" TEXT NOT NULL,
+    "providerAccountId" TEXT,
+    "accountNumber" TEXT,
+    "accountName" TEXT,
+    "bankName" TEXT,
+    "bankSlug" TEXT,
+    "currency" TEXT NOT NULL DEFAULT 'NGN',
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "VirtualAccount_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VirtualAccount_walletId_key" ON "VirtualAccount"("walletId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VirtualAccount_providerAccountId_key" ON "VirtualAccount"("providerAccountId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VirtualAccount_accountNumber_key" ON "VirtualAccount"("accountNumber");
+
+-- CreateIndex
+CREATE INDEX "VirtualAccount_customerCode_idx" ON "VirtualAccount"("customerCode");
+
+-- AddForeignKey
+ALTER TABLE "VirtualAccount" ADD CONSTRAINT "VirtualAccount_walletId_fkey" FOREIGN KEY ("walletId") REFERENCES "Wallet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,49 @@
+-- CreateTable
+CREATE TABLE "Invoice" (
+    "id" TEXT NOT NULL,
+    "number" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "payeeId" TEXT NOT NULL,
+    "payerId" TEXT,
+    "customerEmail" TEXT,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'NGN',
+    "description" TEXT NOT NULL,
+    "lineItems" JSONB,
+    "status" TEXT NOT NULL DEFAULT 'draft',
+    "dueDate" TIMESTAMP(3) NOT NULL,
+    "paidVia" TEXT,
+    "paymentReference" TEXT,
+    "paidAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Invoice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_number_key" ON "Invoice"("number");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_token_key" ON "Invoice"("token");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_paymentReference_key" ON "Invoice"("paymentReference");
+
+-- CreateIndex
+CREATE INDEX "Invoice_payeeId_status_createdAt_idx" ON "Invoice"("payeeId", "status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Invoice_payerId_status_createdAt_idx" ON "Invoice"("payerId", "status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Invoice_customerEmail_status_idx" ON "Invoice"("customerEmail", "status");
+
+-- CreateIndex
+CREATE INDEX "Invoice_status_dueDate_idx" ON "Invoice"("status", "dueDate");
+
+-- AddForeignKey
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_payeeId_fkey" FOREIGN KEY ("payeeId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_payerId_fkey" FOREIGN KEY ("payerId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,47 @@
+-- CreateTable
+CREATE TABLE "TransferBatch" (
+    "id" TEXT NOT NULL,
+    "senderId" TEXT NOT NULL,
+    "mode" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'processing',
+    "currency" TEXT NOT NULL DEFAULT 'NGN',
+    "totalAmount" DOUBLE PRECISION NOT NULL,
+    "succeededAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "itemCount" INTEGER NOT NULL,
+    "succeededCount" INTEGER NOT NULL DEFAULT 0,
+    "failedCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "TransferBatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TransferBatchItem" (
+    "id" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "index" INTEGER NOT NULL,
+    "walletNumber" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "description" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "error" TEXT,
+    "transferReference" TEXT,
+
+    CONSTRAINT "TransferBatchItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TransferBatch_senderId_createdAt_idx" ON "TransferBatch"("senderId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TransferBatchItem_transferReference_key" ON "TransferBatchItem"("transferReference");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TransferBatchItem_batchId_index_key" ON "TransferBatchItem"("batchId", "index");
+
+-- AddForeignKey
+ALTER TABLE "TransferBatch" ADD CONSTRAINT "TransferBatch_senderId_fkey" FOREIGN KEY ("senderId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TransferBatchItem" ADD CONSTRAINT "TransferBatchItem_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "TransferBatch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "apiKeyId" TEXT;
+
+-- CreateTable
+CREATE TABLE "TransactionLimit" (
+    "id" TEXT NOT NULL,
+    "scope" TEXT NOT NULL,
+    "subjectId" TEXT NOT NULL DEFAULT '',
+    "operation" TEXT NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'NGN',
+    "perTransaction" DOUBLE PRECISION,
+    "daily" DOUBLE PRECISION,
+    "monthly" DOUBLE PRECISION,
+    "hourlyCount" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TransactionLimit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TransactionLimit_subjectId_idx" ON "TransactionLimit"("subjectId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TransactionLimit_scope_subjectId_operation_currency_key" ON "TransactionLimit"("scope", "subjectId", "operation", "currency");
+
+-- CreateIndex
+CREATE INDEX "Transaction_apiKeyId_createdAt_idx" ON "Transaction"("apiKeyId", "createdAt");
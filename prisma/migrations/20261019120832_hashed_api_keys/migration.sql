@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "ApiKey" ADD COLUMN     "keyHash" TEXT,
+ADD COLUMN     "keySalt" TEXT,
+ADD COLUMN     "prefix" TEXT,
+ALTER COLUMN "key" DROP NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "ApiKey_prefix_idx" ON "ApiKey"("prefix");
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "ApiKey" ADD COLUMN     "allowedIps" TEXT[],
+ADD COLUMN     "allowedMethods" TEXT[],
+ADD COLUMN     "allowedRecipients" TEXT[],
+ADD COLUMN     "allowedRoutes" TEXT[],
+ADD COLUMN     "capCurrency" TEXT NOT NULL DEFAULT 'NGN',
+ADD COLUMN     "maxAmountPerDay" DOUBLE PRECISION,
+ADD COLUMN     "maxAmountPerTransaction" DOUBLE PRECISION;
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "RateLimit" (
+    "id" TEXT NOT NULL,
+    "scope" TEXT NOT NULL,
+    "subjectId" TEXT NOT NULL DEFAULT '',
+    "group" TEXT NOT NULL,
+    "limit" INTEGER NOT NULL,
+    "windowSeconds" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RateLimit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RateLimitBucket" (
+    "key" TEXT NOT NULL,
+    "tokens" DOUBLE PRECISION NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "fullAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RateLimitBucket_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE INDEX "RateLimit_subjectId_idx" ON "RateLimit"("subjectId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RateLimit_scope_subjectId_group_key" ON "RateLimit"("scope", "subjectId", "group");
+
+-- CreateIndex
+CREATE INDEX "RateLimitBucket_fullAt_idx" ON "RateLimitBucket"("fullAt");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ScheduledTransfer" ADD COLUMN     "apiKeyId" TEXT;
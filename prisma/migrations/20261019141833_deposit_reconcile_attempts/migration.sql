@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "reconcileErrors" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "reconciledAt" TIMESTAMP(3);
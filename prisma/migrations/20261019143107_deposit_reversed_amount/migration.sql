@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "reversedAmount" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- Backfill refunds and chargebacks already taken back from deposits
+UPDATE "Transaction" AS d
+SET "reversedAmount" = r."total"
+FROM (
+  SELECT "reversalOfId", SUM("amount") AS "total"
+  FROM "Transaction"
+  WHERE "type" IN ('refund', 'chargeback') AND "status" IN ('pending', 'success')
+  GROUP BY "reversalOfId"
+) AS r
+WHERE d."id" = r."reversalOfId" AND d."type" = 'deposit';
@@ -1,11 +1,24 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { ScheduleModule } from '@nestjs/schedule';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { AuthModule } from './auth/auth.module';
 import { WalletModule } from './wallet/wallet.module';
 import { CommonModule } from './common/common.module';
 import { PaystackModule } from './paystack/paystack.module';
+import { ScheduledTransferModule } from './scheduled-transfers/scheduled-transfer.module';
+import { DisputeModule } from './disputes/dispute.module';
+import { HoldModule } from './holds/hold.module';
+import { WebhookModule } from './webhooks/webhook.module';
+import { DepositReconciliationModule } from './reconciliation/deposit-reconciliation.module';
+import { OutboundWebhookModule } from './outbound-webhooks/outbound-webhook.module';
+import { PaymentMethodModule } from './payment-methods/payment-method.module';
+import { VirtualAccountModule } from './virtual-accounts/virtual-account.module';
+import { InvoiceModule } from './invoices/invoice.module';
+import { TransferBatchModule } from './transfer-batches/transfer-batch.module';
+import { LimitModule } from './limits/limit.module';
+import { RateLimitModule } from './rate-limits/rate-limit.module';
 import { PrismaService } from './prisma/prisma.service';
 
 @Module({
@@ -14,10 +27,23 @@ import { PrismaService } from './prisma/prisma.service';
       isGlobal: true,
       envFilePath: '.env',
     }),
+    ScheduleModule.forRoot(),
     AuthModule,
     WalletModule,
     CommonModule,
     PaystackModule,
+    ScheduledTransferModule,
+    DisputeModule,
+    HoldModule,
+    WebhookModule,
+    DepositReconciliationModule,
+    OutboundWebhookModule,
+    PaymentMethodModule,
+    VirtualAccountModule,
+    InvoiceModule,
+    TransferBatchModule,
+    LimitModule,
+    RateLimitModule,
   ],
   controllers: [AppController],
   providers: [AppService, PrismaService],
@@ -30,8 +30,8 @@ export class AuthController {
           wallet: {
             id: 'wallet...id...',
             userId: 'user...id...',
-            balance: 0,
             walletNumber: 'wallet...number...',
+            balances: [],
           },
         },
         jwtToken:
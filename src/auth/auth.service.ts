@@ -2,6 +2,7 @@ import { Injectable } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { PrismaService } from '../prisma/prisma.service';
 import { LoggerService } from '../common/logger/logger.service';
+import { fromMinorUnits } from '../common/utils/money';
 
 @Injectable()
 export class AuthService {
@@ -21,13 +22,13 @@ export class AuthService {
         select: {
           id: true,
           userId: true,
-          balance: true,
           walletNumber: true,
+          balances: { select: { currency: true, balance: true } },
         },
       },
     };
     try {
-      let user: any = await this.prisma.user.findUnique({
+      let user = await this.prisma.user.findUnique({
         where: { googleId: profile.id },
         select,
       });
@@ -58,7 +59,16 @@ export class AuthService {
         }
       }
 
-      return user;
+      return {
+        ...user,
+        wallet: user.wallet && {
+          ...user.wallet,
+          balances: user.wallet.balances.map((b) => ({
+            currency: b.currency,
+            balance: fromMinorUnits(b.balance),
+          })),
+        },
+      };
     } catch (error) {
       this.logger.error('Error validating or creating user', error);
       throw error;
@@ -1,5 +1,8 @@
-import { Module } from '@nestjs/common';
+import { MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
 import { ApiKeyService } from './services/api-key.service';
+import { ApiKeyUsageService } from './services/api-key-usage.service';
+import { IdempotencyService } from './services/idempotency.service';
+import { ApiKeyUsageMiddleware } from './middleware/api-key-usage.middleware';
 import { ApiKeyController } from './controllers/api-key.controller';
 import { PrismaService } from '../prisma/prisma.service';
 import { LoggerService } from './logger/logger.service';
@@ -8,7 +11,17 @@ import { AuthModule } from 'src/auth/auth.module';
 @Module({
   imports: [AuthModule],
   controllers: [ApiKeyController],
-  providers: [ApiKeyService, PrismaService, LoggerService],
-  exports: [ApiKeyService, LoggerService, PrismaService],
+  providers: [
+    ApiKeyService,
+    ApiKeyUsageService,
+    IdempotencyService,
+    PrismaService,
+    LoggerService,
+  ],
+  exports: [ApiKeyService, IdempotencyService, LoggerService, PrismaService],
 })
-export class CommonModule {}
+export class CommonModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    consumer.apply(ApiKeyUsageMiddleware).forRoutes('{*splat}');
+  }
+}
@@ -6,32 +6,52 @@ import {
   Body,
   UseGuards,
   Param,
+  Query,
 } from '@nestjs/common';
 import { ApiKeyService } from '../services/api-key.service';
+import { ApiKeyUsageService } from '../services/api-key-usage.service';
 import { JwtAuthGuard } from '../guards/jwt-auth.guard';
-import { CurrentUser } from '../decorators/current-user.decorator';
+import {
+  type AuthenticatedUser,
+  CurrentUser,
+} from '../decorators/current-user.decorator';
 import { CreateApiKeyDto } from '../dto/create-api-key.dto';
 import { RolloverApiKeyDto } from '../dto/rollover-api-key.dto';
+import { ApiKeyUsageQueryDto } from '../dto/api-key-usage-query.dto';
 import {
   ApiTags,
   ApiBearerAuth,
   ApiOperation,
   ApiResponse,
   ApiBody,
+  ApiQuery,
 } from '@nestjs/swagger';
 
+const NO_CONSTRAINTS_EXAMPLE = {
+  max_amount_per_transaction: null,
+  max_amount_per_day: null,
+  currency: 'NGN',
+  allowed_recipients: [],
+  allowed_ips: [],
+  allowed_methods: [],
+  allowed_routes: [],
+};
+
 @ApiTags('API Keys')
 @ApiBearerAuth('access-token')
 @Controller('keys')
 @UseGuards(JwtAuthGuard)
 export class ApiKeyController {
-  constructor(private apiKeyService: ApiKeyService) {}
+  constructor(
+    private apiKeyService: ApiKeyService,
+    private apiKeyUsageService: ApiKeyUsageService,
+  ) {}
 
   @Post('create')
   @ApiOperation({
     summary: 'Create a new API key',
     description:
-      'Generate a new API key for service-to-service authentication. Maximum 5 active keys per user. Keys can have permissions: deposit, transfer, read.',
+      'Generate a new API key for service-to-service authentication. Maximum 5 active keys per user. Keys can have permissions: deposit, transfer, read. The key is only shown in this response; store it securely.',
   })
   @ApiBody({
     type: CreateApiKeyDto,
@@ -60,6 +80,22 @@ export class ApiKeyController {
           expiry: '1H',
         },
       },
+      example4: {
+        summary: 'Create a constrained payouts key (1 month expiry)',
+        value: {
+          name: 'payroll-service',
+          permissions: ['transfer', 'read'],
+          expiry: '1M',
+          constraints: {
+            max_amount_per_transaction: 200000,
+            max_amount_per_day: 1000000,
+            allowed_recipients: ['4566678954356', '4566678954357'],
+            allowed_ips: ['203.0.113.0/24'],
+            allowed_methods: ['GET', 'POST'],
+            allowed_routes: ['/wallet/balance', '/wallet/transfer/**'],
+          },
+        },
+      },
     },
   })
   @ApiResponse({
@@ -71,16 +107,17 @@ export class ApiKeyController {
         expires_at: '2025-01-01T12:00:00Z',
         name: 'wallet-service',
         permissions: ['deposit', 'transfer', 'read'],
+        constraints: NO_CONSTRAINTS_EXAMPLE,
       },
     },
   })
   @ApiResponse({
     status: 400,
     description:
-      'Invalid request - Max 5 active keys, invalid expiry or permissions',
+      'Invalid request - Max 5 active keys, invalid expiry, permissions or IP ranges',
   })
   async createApiKey(
-    @CurrentUser() user: any,
+    @CurrentUser() user: AuthenticatedUser,
     @Body() createApiKeyDto: CreateApiKeyDto,
   ) {
     return this.apiKeyService.createApiKey(user.id, createApiKeyDto);
@@ -89,7 +126,8 @@ export class ApiKeyController {
   @Get('list')
   @ApiOperation({
     summary: 'List all API keys for the user',
-    description: 'Retrieve all API keys created by the authenticated user',
+    description:
+      'Retrieve all API keys created by the authenticated user. Keys are masked to their prefix. `last_used_at` and `last_used_ip` are from the most recent request made with the key, and can lag by a few seconds.',
   })
   @ApiResponse({
     status: 200,
@@ -101,9 +139,12 @@ export class ApiKeyController {
           name: 'wallet-service',
           key: 'sk_live_anboena....',
           permissions: ['deposit', 'transfer', 'read'],
+          constraints: NO_CONSTRAINTS_EXAMPLE,
           expires_at: '2025-01-01T12:00:00Z',
           revoked_at: null,
           is_active: true,
+          last_used_at: '2024-12-31T16:42:10Z',
+          last_used_ip: '203.0.113.7',
           created_at: '2024-12-01T10:00:00Z',
         },
         {
@@ -111,9 +152,12 @@ export class ApiKeyController {
           name: 'reporting-service',
           key: 'sk_live_zibaib....',
           permissions: ['read'],
+          constraints: NO_CONSTRAINTS_EXAMPLE,
           expires_at: '2025-02-15T08:30:00Z',
           revoked_at: null,
           is_active: true,
+          last_used_at: null,
+          last_used_ip: null,
           created_at: '2024-11-15T14:22:00Z',
         },
         {
@@ -121,18 +165,78 @@ export class ApiKeyController {
           name: 'old-service',
           key: 'sk_live_inebo....',
           permissions: ['deposit', 'transfer'],
+          constraints: NO_CONSTRAINTS_EXAMPLE,
           expires_at: '2024-12-20T12:00:00Z',
           revoked_at: '2024-12-25T09:15:00Z',
           is_active: false,
+          last_used_at: '2024-12-24T08:01:55Z',
+          last_used_ip: '198.51.100.23',
           created_at: '2024-10-20T11:45:00Z',
         },
       ],
     },
   })
-  async listApiKeys(@CurrentUser() user: any) {
+  async listApiKeys(@CurrentUser() user: AuthenticatedUser) {
     return this.apiKeyService.listApiKeys(user.id);
   }
 
+  @Get(':keyId/usage')
+  @ApiOperation({
+    summary: 'Get usage for an API key',
+    description:
+      'Requests made with the key over the last `days` UTC days (default 30, max 90), per day and per route. Errors are responses with status 400 or above, including requests the key was not allowed to make. Usage can lag by a few seconds.',
+  })
+  @ApiQuery({ name: 'days', required: false, type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'API key usage',
+    schema: {
+      example: {
+        id: 'key_123abc',
+        name: 'wallet-service',
+        last_used_at: '2025-01-02T16:42:10.000Z',
+        last_used_ip: '203.0.113.7',
+        from: '2025-01-01T00:00:00.000Z',
+        to: '2025-01-02T17:00:00.000Z',
+        total_requests: 130,
+        error_requests: 4,
+        avg_latency_ms: 48,
+        daily: [
+          { date: '2025-01-01', requests: 0, errors: 0, avg_latency_ms: 0 },
+          { date: '2025-01-02', requests: 130, errors: 4, avg_latency_ms: 48 },
+        ],
+        routes: [
+          {
+            method: 'GET',
+            route: '/wallet/balance',
+            requests: 110,
+            errors: 0,
+            avg_latency_ms: 21,
+            p95_latency_ms: 40,
+            last_used_at: '2025-01-02T16:42:10.000Z',
+          },
+          {
+            method: 'POST',
+            route: '/wallet/transfer',
+            requests: 20,
+            errors: 4,
+            avg_latency_ms: 196,
+            p95_latency_ms: 420,
+            last_used_at: '2025-01-02T15:10:03.000Z',
+          },
+        ],
+      },
+    },
+  })
+  @ApiResponse({ status: 404, description: 'API key not found' })
+  async getApiKeyUsage(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('keyId') keyId: string,
+    @Query() query: ApiKeyUsageQueryDto,
+  ) {
+    return this.apiKeyUsageService.getUsage(user.id, keyId, query);
+  }
+
   @Delete(':keyId/revoke')
   @ApiOperation({
     summary: 'Revoke an API key',
@@ -154,7 +258,10 @@ export class ApiKeyController {
     status: 404,
     description: 'API key not found',
   })
-  async revokeApiKey(@CurrentUser() user: any, @Param('keyId') keyId: string) {
+  async revokeApiKey(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('keyId') keyId: string,
+  ) {
     return this.apiKeyService.revokeApiKey(user.id, keyId);
   }
 
@@ -162,7 +269,7 @@ export class ApiKeyController {
   @ApiOperation({
     summary: 'Rollover an expired API key with new expiry',
     description:
-      'Create a new API key using the same permissions as an expired key. Only expired keys can be rolled over. New key gets new expiration time.',
+      'Create a new API key using the same permissions and constraints as an expired key. Only expired keys can be rolled over. New key gets new expiration time. The new key is only shown in this response.',
   })
   @ApiBody({
     type: RolloverApiKeyDto,
@@ -192,6 +299,7 @@ export class ApiKeyController {
         expires_at: '2025-02-02T12:00:00Z',
         name: 'wallet-service (rolled over)',
         permissions: ['deposit', 'transfer', 'read'],
+        constraints: NO_CONSTRAINTS_EXAMPLE,
       },
     },
   })
@@ -200,7 +308,7 @@ export class ApiKeyController {
     description: 'Invalid request - Key is still active or not found',
   })
   async rolloverApiKey(
-    @CurrentUser() user: any,
+    @CurrentUser() user: AuthenticatedUser,
     @Body() rolloverDto: RolloverApiKeyDto,
   ) {
     return this.apiKeyService.rolloverApiKey(user.id, rolloverDto);
@@ -0,0 +1,12 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+
+/**
+ * ID of the API key the request was authenticated with; undefined for JWT
+ * requests.
+ */
+export const ApiKeyId = createParamDecorator(
+  (data: unknown, ctx: ExecutionContext) => {
+    const request = ctx.switchToHttp().getRequest<{ apiKeyId?: string }>();
+    return request.apiKeyId;
+  },
+);
@@ -1,5 +1,11 @@
 import { createParamDecorator, ExecutionContext } from '@nestjs/common';
 
+/** The caller, from either the JWT payload or the API key's user. */
+export interface AuthenticatedUser {
+  id: string;
+  email: string;
+}
+
 export const CurrentUser = createParamDecorator(
   (data: unknown, ctx: ExecutionContext) => {
     const request = ctx.switchToHttp().getRequest();
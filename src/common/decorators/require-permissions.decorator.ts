@@ -0,0 +1,44 @@
+import { applyDecorators, SetMetadata, UseGuards } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiExtension,
+  ApiResponse,
+  ApiSecurity,
+} from '@nestjs/swagger';
+import {
+  ApiKeyPermission,
+  PermissionsGuard,
+  PERMISSIONS_KEY,
+} from '../guards/permissions.guard';
+
+/**
+ * Describes the 403 for an API key without the given permissions. Routes that
+ * document a 403 of their own (such as a limit being exceeded) declare it
+ * above `@RequirePermissions` and append this to its description.
+ */
+export function missingPermissionsDescription(permissions: ApiKeyPermission[]) {
+  return `This api key does not have ${permissions.map((permission) => `\`${permission}\``).join(', ')} permission necessary to perform this action`;
+}
+
+/**
+ * Accepts a Bearer JWT or an x-api-key with all the given permissions, and
+ * adds the route's auth requirements to the Swagger docs.
+ */
+export function RequirePermissions(...permissions: ApiKeyPermission[]) {
+  return applyDecorators(
+    SetMetadata(PERMISSIONS_KEY, permissions),
+    UseGuards(PermissionsGuard),
+    ApiBearerAuth('access-token'),
+    ApiSecurity('x-api-key'),
+    ApiExtension('x-required-permissions', permissions),
+    ApiResponse({
+      status: 401,
+      description:
+        'Missing or invalid authentication: Bearer JWT or x-api-key header required',
+    }),
+    ApiResponse({
+      status: 403,
+      description: missingPermissionsDescription(permissions),
+    }),
+  );
+}
@@ -0,0 +1,57 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsIn,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Matches,
+} from 'class-validator';
+import { SUPPORTED_CURRENCIES } from '../utils/money';
+
+export const API_KEY_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+export class ApiKeyConstraintsDto {
+  // Caps on each transfer or withdrawal, and on their total per UTC day.
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  max_amount_per_transaction?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  max_amount_per_day?: number;
+
+  // Currency the caps are set in; other currencies are converted.
+  @IsOptional()
+  @IsIn(SUPPORTED_CURRENCIES)
+  currency?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(100)
+  @IsString({ each: true })
+  allowed_recipients?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  allowed_ips?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsIn(API_KEY_METHODS, { each: true })
+  allowed_methods?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @Matches(/^\/\S*$/, {
+    each: true,
+    message: 'each allowed route must be a path starting with /',
+  })
+  allowed_routes?: string[];
+}
@@ -1,11 +1,15 @@
+import { Type } from 'class-transformer';
 import {
   IsString,
   IsArray,
   IsEnum,
   IsIn,
+  IsOptional,
   Matches,
   MinLength,
+  ValidateNested,
 } from 'class-validator';
+import { ApiKeyConstraintsDto } from './api-key-constraints.dto';
 
 enum ExpiryUnit {
   HOUR = '1H',
@@ -21,10 +25,15 @@ export class CreateApiKeyDto {
 
   @IsArray()
   @IsString({ each: true })
-  @IsEnum(['deposit', 'transfer', 'read'], { each: true })
+  @IsEnum(['deposit', 'transfer', 'withdraw', 'read'], { each: true })
   permissions: string[];
 
   @IsString()
   @IsIn(['1H', '1D', '1M', '1Y'])
   expiry: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ApiKeyConstraintsDto)
+  constraints?: ApiKeyConstraintsDto;
 }
@@ -0,0 +1,23 @@
+import { ForbiddenException } from '@nestjs/common';
+
+export type ApiKeyConstraintCode =
+  | 'API_KEY_IP_NOT_ALLOWED'
+  | 'API_KEY_METHOD_NOT_ALLOWED'
+  | 'API_KEY_ROUTE_NOT_ALLOWED'
+  | 'API_KEY_RECIPIENT_NOT_ALLOWED'
+  | 'API_KEY_TRANSACTION_CAP_EXCEEDED'
+  | 'API_KEY_DAILY_CAP_EXCEEDED';
+
+/**
+ * Thrown when a request breaks one of its API key's constraints. The response
+ * carries a machine-readable `code` alongside the message.
+ */
+export class ApiKeyConstraintException extends ForbiddenException {
+  constructor(
+    readonly code: ApiKeyConstraintCode,
+    message: string,
+    details: Record<string, unknown> = {},
+  ) {
+    super({ statusCode: 403, error: 'Forbidden', code, message, ...details });
+  }
+}
@@ -0,0 +1,37 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import type { Request } from 'express';
+import * as crypto from 'crypto';
+
+/**
+ * Protects operator endpoints with the shared `ADMIN_API_KEY`, sent in the
+ * `x-admin-key` header.
+ */
+@Injectable()
+export class AdminGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const adminKey = process.env.ADMIN_API_KEY;
+
+    if (!adminKey) {
+      throw new ForbiddenException('Admin API is not configured');
+    }
+
+    const request = context.switchToHttp().getRequest<Request>();
+    const provided = request.headers['x-admin-key'];
+
+    if (
+      typeof provided !== 'string' ||
+      provided.length !== adminKey.length ||
+      !crypto.timingSafeEqual(Buffer.from(provided), Buffer.from(adminKey))
+    ) {
+      throw new UnauthorizedException('Invalid admin key');
+    }
+
+    return true;
+  }
+}
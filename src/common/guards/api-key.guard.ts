@@ -5,12 +5,85 @@ import {
   ForbiddenException,
   UnauthorizedException,
 } from '@nestjs/common';
+import { ApiKey } from '@prisma/client';
 import { PrismaService } from '../../prisma/prisma.service';
+import { apiKeyPrefix, matchesRoute, verifyApiKey } from '../utils/api-keys';
+import { isIpInRanges } from '../utils/ip-ranges';
+import { ApiKeyConstraintException } from '../exceptions/api-key-constraint.exception';
 
 @Injectable()
 export class ApiKeyGuard implements CanActivate {
   constructor(private prisma: PrismaService) {}
 
+  /**
+   * Finds the key's row by its public prefix, then checks the secret against
+   * each candidate's hash in constant time.
+   */
+  private async findKey(apiKey: string) {
+    const candidates = await this.prisma.apiKey.findMany({
+      where: { prefix: apiKeyPrefix(apiKey) },
+      include: { user: true },
+    });
+    const match = candidates.find(
+      (candidate) =>
+        candidate.keyHash &&
+        candidate.keySalt &&
+        verifyApiKey(apiKey, candidate.keySalt, candidate.keyHash),
+    );
+
+    if (match) {
+      return match;
+    }
+
+    // Keys created before hashing, until ApiKeyService migrates them.
+    return this.prisma.apiKey.findUnique({
+      where: { key: apiKey },
+      include: { user: true },
+    });
+  }
+
+  /**
+   * Enforces the key's source IP, method and route constraints. Amount caps
+   * and recipient allowlists are checked when money moves.
+   */
+  private assertRequestAllowed(
+    key: ApiKey,
+    request: { ip?: string; method: string; path: string },
+  ) {
+    if (key.allowedIps.length > 0) {
+      const ip = request.ip ?? '';
+      if (!isIpInRanges(ip, key.allowedIps)) {
+        throw new ApiKeyConstraintException(
+          'API_KEY_IP_NOT_ALLOWED',
+          `This API key cannot be used from ${ip || 'this address'}`,
+          { ip },
+        );
+      }
+    }
+
+    if (
+      key.allowedMethods.length > 0 &&
+      !key.allowedMethods.includes(request.method.toUpperCase())
+    ) {
+      throw new ApiKeyConstraintException(
+        'API_KEY_METHOD_NOT_ALLOWED',
+        `This API key cannot make ${request.method} requests`,
+        { method: request.method },
+      );
+    }
+
+    if (
+      key.allowedRoutes.length > 0 &&
+      !key.allowedRoutes.some((pattern) => matchesRoute(request.path, pattern))
+    ) {
+      throw new ApiKeyConstraintException(
+        'API_KEY_ROUTE_NOT_ALLOWED',
+        `This API key cannot access ${request.path}`,
+        { route: request.path },
+      );
+    }
+  }
+
   async canActivate(context: ExecutionContext): Promise<boolean> {
     const request = context.switchToHttp().getRequest();
 
@@ -27,10 +100,7 @@ export class ApiKeyGuard implements CanActivate {
     }
 
     try {
-      const key = await this.prisma.apiKey.findUnique({
-        where: { key: apiKey as string },
-        include: { user: true },
-      });
+      const key = await this.findKey(apiKey as string);
 
       if (!key) {
         throw new ForbiddenException('Invalid API key');
@@ -44,9 +114,14 @@ export class ApiKeyGuard implements CanActivate {
         throw new ForbiddenException('API key has expired');
       }
 
+      // Set first so requests refused by the key's constraints are still
+      // recorded as its usage.
+      request.apiKeyId = key.id;
+
+      this.assertRequestAllowed(key, request);
+
       request.user = key.user;
       request.apiKeyPermissions = key.permissions;
-      request.apiKeyId = key.id;
 
       return true;
     } catch (error) {
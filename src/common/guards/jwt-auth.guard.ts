@@ -6,6 +6,9 @@ import {
 } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 
+// Account settings that API keys cannot manage.
+const JWT_ONLY_PATHS = ['/keys', '/webhooks/'];
+
 @Injectable()
 export class JwtAuthGuard implements CanActivate {
   constructor(private jwtService: JwtService) {}
@@ -14,7 +17,9 @@ export class JwtAuthGuard implements CanActivate {
     const request = context.switchToHttp().getRequest();
     const authHeader = request.headers.authorization;
 
-    const authOnlyEndpoint = request.url.startsWith('/keys');
+    const authOnlyEndpoint = JWT_ONLY_PATHS.some((path) =>
+      request.url.startsWith(path),
+    );
 
     if (!authHeader && request.headers['x-api-key'] && !authOnlyEndpoint) {
       return true;
@@ -36,7 +41,7 @@ export class JwtAuthGuard implements CanActivate {
     try {
       const payload = this.jwtService.verify(token);
       request.user = { id: payload.sub, ...payload };
-      request.apiKeyPermissions = ['deposit', 'transfer', 'read'];
+      request.apiKeyPermissions = ['deposit', 'transfer', 'withdraw', 'read'];
       return true;
     } catch (error) {
       throw new UnauthorizedException(
@@ -0,0 +1,70 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { JwtService } from '@nestjs/jwt';
+import { PrismaService } from '../../prisma/prisma.service';
+import { JwtAuthGuard } from './jwt-auth.guard';
+import { ApiKeyGuard } from './api-key.guard';
+
+export const API_KEY_PERMISSIONS = [
+  'deposit',
+  'transfer',
+  'withdraw',
+  'read',
+] as const;
+
+export type ApiKeyPermission = (typeof API_KEY_PERMISSIONS)[number];
+
+export const PERMISSIONS_KEY = 'permissions';
+
+/**
+ * Authenticates with a Bearer JWT or, failing that, an x-api-key, then checks
+ * the permissions set by `@RequirePermissions()`. JWT sessions hold every
+ * permission, so only API keys can be refused here. Unauthenticated requests
+ * get a 401; an authenticated caller missing a permission gets a 403.
+ */
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+  private jwtAuthGuard: JwtAuthGuard;
+  private apiKeyGuard: ApiKeyGuard;
+
+  constructor(
+    private reflector: Reflector,
+    jwtService: JwtService,
+    prisma: PrismaService,
+  ) {
+    this.jwtAuthGuard = new JwtAuthGuard(jwtService);
+    this.apiKeyGuard = new ApiKeyGuard(prisma);
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    this.jwtAuthGuard.canActivate(context);
+    await this.apiKeyGuard.canActivate(context);
+
+    const required =
+      this.reflector.getAllAndOverride<ApiKeyPermission[]>(PERMISSIONS_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]) ?? [];
+
+    const request = context
+      .switchToHttp()
+      .getRequest<{ apiKeyPermissions?: string[] }>();
+    const granted = request.apiKeyPermissions ?? [];
+    const missing = required.filter(
+      (permission) => !granted.includes(permission),
+    );
+
+    if (missing.length > 0) {
+      throw new ForbiddenException(
+        `This api key does not have ${missing.map((permission) => `\`${permission}\``).join(', ')} permission necessary to perform this action`,
+      );
+    }
+
+    return true;
+  }
+}
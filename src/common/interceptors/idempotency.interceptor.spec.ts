@@ -0,0 +1,81 @@
+import { CallHandler, ExecutionContext } from '@nestjs/common';
+import { lastValueFrom, of, throwError } from 'rxjs';
+import { PrismaService } from '../../prisma/prisma.service';
+import { LoggerService } from '../logger/logger.service';
+import { IdempotencyService } from '../services/idempotency.service';
+import { IdempotencyInterceptor } from './idempotency.interceptor';
+
+describe('IdempotencyInterceptor', () => {
+  let prisma: {
+    idempotencyKey: {
+      create: jest.Mock;
+      update: jest.Mock;
+      deleteMany: jest.Mock;
+    };
+  };
+  let interceptor: IdempotencyInterceptor;
+
+  const context = {
+    switchToHttp: () => ({
+      getRequest: () => ({
+        headers: { 'idempotency-key': 'key_1' },
+        user: { id: 'user_1' },
+        method: 'POST',
+        originalUrl: '/wallet/transfer',
+        body: { amount: 100 },
+      }),
+      getResponse: () => ({ statusCode: 201 }),
+    }),
+  } as unknown as ExecutionContext;
+
+  const handle = (handler: CallHandler) =>
+    lastValueFrom(interceptor.intercept(context, handler));
+
+  beforeEach(() => {
+    prisma = {
+      idempotencyKey: {
+        create: jest.fn().mockResolvedValue({ id: 'idem_1' }),
+        update: jest.fn().mockResolvedValue({}),
+        deleteMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+    };
+    interceptor = new IdempotencyInterceptor(
+      new IdempotencyService(
+        prisma as unknown as PrismaService,
+        { log: jest.fn(), error: jest.fn() } as unknown as LoggerService,
+      ),
+    );
+  });
+
+  it('saves the response of a successful request', async () => {
+    await expect(handle({ handle: () => of({ ok: true }) })).resolves.toEqual({
+      ok: true,
+    });
+    expect(prisma.idempotencyKey.update).toHaveBeenCalledWith({
+      where: { id: 'idem_1' },
+      data: {
+        status: 'completed',
+        responseStatus: 201,
+        responseBody: { ok: true },
+      },
+    });
+  });
+
+  it('frees the key when the request fails', async () => {
+    await expect(
+      handle({ handle: () => throwError(() => new Error('declined')) }),
+    ).rejects.toThrow('declined');
+    expect(prisma.idempotencyKey.deleteMany).toHaveBeenCalledWith({
+      where: { id: 'idem_1' },
+    });
+  });
+
+  it('keeps the key when only saving the response fails', async () => {
+    prisma.idempotencyKey.update.mockRejectedValue(new Error('timeout'));
+
+    await expect(handle({ handle: () => of({ ok: true }) })).resolves.toEqual({
+      ok: true,
+    });
+    expect(prisma.idempotencyKey.deleteMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,79 @@
+import {
+  Injectable,
+  NestInterceptor,
+  ExecutionContext,
+  CallHandler,
+  BadRequestException,
+} from '@nestjs/common';
+import type { Request, Response } from 'express';
+import { Observable, from, of, throwError } from 'rxjs';
+import { catchError, mergeMap } from 'rxjs/operators';
+import { IdempotencyService } from '../services/idempotency.service';
+
+export const IDEMPOTENCY_HEADER = 'idempotency-key';
+
+type AuthenticatedRequest = Request & {
+  user: { id: string };
+  apiKeyId?: string;
+};
+
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  constructor(private idempotencyService: IdempotencyService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const response = context.switchToHttp().getResponse<Response>();
+    const key = request.headers[IDEMPOTENCY_HEADER];
+
+    if (!key) {
+      return next.handle();
+    }
+
+    if (typeof key !== 'string' || key.length > 255) {
+      throw new BadRequestException(
+        'Idempotency-Key must be a string of at most 255 characters',
+      );
+    }
+
+    const scope = request.apiKeyId
+      ? `api_key:${request.apiKeyId}`
+      : `user:${request.user.id}`;
+
+    return from(
+      this.idempotencyService.begin({
+        scope,
+        key,
+        method: request.method,
+        path: request.originalUrl.split('?')[0],
+        body: request.body,
+      }),
+    ).pipe(
+      mergeMap((result) => {
+        if (result.replay) {
+          response.status(result.status);
+          response.setHeader('Idempotent-Replayed', 'true');
+          return of(result.body);
+        }
+
+        // Only a failed handler frees the key; once it has succeeded the
+        // request must not run again, even if its response cannot be saved.
+        return next.handle().pipe(
+          catchError((error: unknown) =>
+            from(this.idempotencyService.release(result.recordId)).pipe(
+              mergeMap(() => throwError(() => error)),
+            ),
+          ),
+          mergeMap(async (body: unknown) => {
+            await this.idempotencyService.complete(
+              result.recordId,
+              response.statusCode,
+              body,
+            );
+            return body;
+          }),
+        );
+      }),
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import type { NextFunction, Request, Response } from 'express';
+import { ApiKeyUsageService } from '../services/api-key-usage.service';
+
+type ApiKeyRequest = Request & { apiKeyId?: string };
+
+/**
+ * Times every request and, once the response is sent, hands it to
+ * ApiKeyUsageService if `ApiKeyGuard` authenticated it with a key. Requests
+ * the key's constraints or permissions refused are recorded too.
+ */
+@Injectable()
+export class ApiKeyUsageMiddleware implements NestMiddleware {
+  constructor(private apiKeyUsageService: ApiKeyUsageService) {}
+
+  use(request: ApiKeyRequest, response: Response, next: NextFunction) {
+    const receivedAt = new Date();
+    const start = process.hrtime.bigint();
+
+    response.on('finish', () => {
+      if (!request.apiKeyId) {
+        return;
+      }
+
+      const route = request.route as { path: string } | undefined;
+      this.apiKeyUsageService.record({
+        apiKeyId: request.apiKeyId,
+        method: request.method,
+        // The matched pattern keeps ids out of the per-route aggregates.
+        route: route
+          ? `${request.baseUrl}${route.path}`
+          : request.originalUrl.split('?')[0],
+        statusCode: response.statusCode,
+        latencyMs: Number((process.hrtime.bigint() - start) / 1_000_000n),
+        ip: request.ip,
+        createdAt: receivedAt,
+      });
+    });
+
+    next();
+  }
+}
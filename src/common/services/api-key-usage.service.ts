@@ -0,0 +1,226 @@
+import { Injectable, NotFoundException, OnModuleDestroy } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '../../prisma/prisma.service';
+import { LoggerService } from '../logger/logger.service';
+import { ApiKeyUsageQueryDto } from '../dto/api-key-usage-query.dto';
+
+export interface ApiKeyUsageRecord {
+  apiKeyId: string;
+  method: string;
+  route: string;
+  statusCode: number;
+  latencyMs: number;
+  ip?: string;
+  createdAt: Date;
+}
+
+type DailyUsageRow = {
+  date: string;
+  requests: number;
+  errors: number;
+  avg_latency_ms: number;
+};
+
+type RouteUsageRow = {
+  method: string;
+  route: string;
+  requests: number;
+  errors: number;
+  avg_latency_ms: number;
+  p95_latency_ms: number;
+  last_used_at: Date;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Records requests made with API keys and reports on them. Records are
+ * buffered in memory and written in batches, so a request never waits on the
+ * write; a crash can lose the last few seconds of usage.
+ */
+@Injectable()
+export class ApiKeyUsageService implements OnModuleDestroy {
+  private readonly FLUSH_SIZE = 500;
+  private readonly MAX_BUFFERED = 10000;
+  private readonly RETENTION_DAYS = Number(
+    process.env.API_KEY_USAGE_RETENTION_DAYS || 90,
+  );
+  private buffer: ApiKeyUsageRecord[] = [];
+  private flushing = false;
+
+  constructor(
+    private prisma: PrismaService,
+    private logger: LoggerService,
+  ) {}
+
+  record(entry: ApiKeyUsageRecord) {
+    // Only reached if flushes cannot keep up; drop rather than grow unbounded.
+    if (this.buffer.length >= this.MAX_BUFFERED) {
+      return;
+    }
+
+    this.buffer.push(entry);
+
+    if (this.buffer.length >= this.FLUSH_SIZE) {
+      void this.flush();
+    }
+  }
+
+  /**
+   * Writes buffered records and moves each key's `lastUsedAt`/`lastUsedIp`
+   * forward. Usage is best-effort: a batch that fails to write is dropped.
+   */
+  @Cron(CronExpression.EVERY_5_SECONDS)
+  async flush() {
+    if (this.flushing || this.buffer.length === 0) {
+      return;
+    }
+
+    this.flushing = true;
+    const records = this.buffer.splice(0, this.buffer.length);
+
+    try {
+      await this.prisma.apiKeyUsage.createMany({ data: records });
+    } catch (error) {
+      this.logger.error(
+        `Error writing API key usage; ${records.length} records dropped`,
+        error,
+      );
+      this.flushing = false;
+      return;
+    }
+
+    try {
+      const lastUse = new Map<string, ApiKeyUsageRecord>();
+      for (const record of records) {
+        const previous = lastUse.get(record.apiKeyId);
+        if (!previous || previous.createdAt < record.createdAt) {
+          lastUse.set(record.apiKeyId, record);
+        }
+      }
+
+      for (const record of lastUse.values()) {
+        await this.prisma.apiKey.updateMany({
+          where: {
+            id: record.apiKeyId,
+            OR: [
+              { lastUsedAt: null },
+              { lastUsedAt: { lt: record.createdAt } },
+            ],
+          },
+          data: { lastUsedAt: record.createdAt, lastUsedIp: record.ip },
+        });
+      }
+    } catch (error) {
+      this.logger.error('Error updating API key last use', error);
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  async onModuleDestroy() {
+    await this.flush();
+  }
+
+  /**
+   * Deletes usage records older than `API_KEY_USAGE_RETENTION_DAYS`
+   * (default 90).
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async pruneUsage() {
+    try {
+      const { count } = await this.prisma.apiKeyUsage.deleteMany({
+        where: {
+          createdAt: {
+            lt: new Date(Date.now() - this.RETENTION_DAYS * DAY_MS),
+          },
+        },
+      });
+
+      if (count > 0) {
+        this.logger.log(`Pruned ${count} API key usage records`);
+      }
+    } catch (error) {
+      this.logger.error('Error pruning API key usage', error);
+    }
+  }
+
+  /**
+   * Per-day and per-route request counts, error counts (status 400 and up)
+   * and latencies for one of the caller's keys over the last `days` UTC days,
+   * today included.
+   */
+  async getUsage(userId: string, keyId: string, query: ApiKeyUsageQueryDto) {
+    const key = await this.prisma.apiKey.findFirst({
+      where: { id: keyId, userId },
+    });
+
+    if (!key) {
+      throw new NotFoundException('API key not found');
+    }
+
+    const days = query.days ?? 30;
+    const now = new Date();
+    const today = Date.UTC(
+      now.getUTCFullYear(),
+      now.getUTCMonth(),
+      now.getUTCDate(),
+    );
+    const since = new Date(today - (days - 1) * DAY_MS);
+
+    const [totals, daily, routes] = await Promise.all([
+      this.prisma.apiKeyUsage.aggregate({
+        where: { apiKeyId: keyId, createdAt: { gte: since } },
+        _count: true,
+        _avg: { latencyMs: true },
+      }),
+      this.prisma.$queryRaw<DailyUsageRow[]>`
+        SELECT to_char(date_trunc('day', "createdAt"), 'YYYY-MM-DD') AS "date",
+               COUNT(*)::int AS "requests",
+               (COUNT(*) FILTER (WHERE "statusCode" >= 400))::int AS "errors",
+               ROUND(AVG("latencyMs"))::int AS "avg_latency_ms"
+        FROM "ApiKeyUsage"
+        WHERE "apiKeyId" = ${keyId} AND "createdAt" >= ${since}
+        GROUP BY 1`,
+      this.prisma.$queryRaw<RouteUsageRow[]>`
+        SELECT "method", "route",
+               COUNT(*)::int AS "requests",
+               (COUNT(*) FILTER (WHERE "statusCode" >= 400))::int AS "errors",
+               ROUND(AVG("latencyMs"))::int AS "avg_latency_ms",
+               ROUND(percentile_cont(0.95) WITHIN GROUP (ORDER BY "latencyMs"))::int AS "p95_latency_ms",
+               MAX("createdAt") AS "last_used_at"
+        FROM "ApiKeyUsage"
+        WHERE "apiKeyId" = ${keyId} AND "createdAt" >= ${since}
+        GROUP BY "method", "route"
+        ORDER BY "requests" DESC`,
+    ]);
+
+    // Days without requests are reported as zeros.
+    const byDate = new Map(daily.map((row) => [row.date, row]));
+    const perDay = Array.from({ length: days }, (_, index) => {
+      const date = new Date(since.getTime() + index * DAY_MS)
+        .toISOString()
+        .slice(0, 10);
+      return (
+        byDate.get(date) ?? { date, requests: 0, errors: 0, avg_latency_ms: 0 }
+      );
+    });
+
+    return {
+      id: key.id,
+      name: key.name,
+      last_used_at: key.lastUsedAt?.toISOString() || null,
+      last_used_ip: key.lastUsedIp,
+      from: since.toISOString(),
+      to: now.toISOString(),
+      total_requests: totals._count,
+      error_requests: perDay.reduce((sum, day) => sum + day.errors, 0),
+      avg_latency_ms: Math.round(totals._avg.latencyMs ?? 0),
+      daily: perDay,
+      routes: routes.map((row) => ({
+        ...row,
+        last_used_at: row.last_used_at.toISOString(),
+      })),
+    };
+  }
+}
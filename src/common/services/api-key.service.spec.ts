@@ -0,0 +1,97 @@
+import { PrismaService } from '../../prisma/prisma.service';
+import { LoggerService } from '../logger/logger.service';
+import { ApiKeyService } from './api-key.service';
+
+describe('ApiKeyService', () => {
+  const tx = {
+    apiKey: { create: jest.fn(), update: jest.fn() },
+    transactionLimit: { findMany: jest.fn(), createMany: jest.fn() },
+  };
+  const prisma = {
+    apiKey: { findUnique: jest.fn() },
+    $transaction: jest.fn((fn: (client: typeof tx) => Promise<unknown>) =>
+      fn(tx),
+    ),
+  };
+  let service: ApiKeyService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    prisma.apiKey.findUnique.mockResolvedValue({
+      id: 'key_old',
+      userId: 'user_1',
+      name: 'Payouts',
+      permissions: ['transfer'],
+      expiresAt: new Date(Date.now() - 1000),
+      revokedAt: null,
+      allowedRecipients: [],
+      allowedIps: [],
+      allowedMethods: [],
+      allowedRoutes: [],
+    });
+    tx.apiKey.create.mockResolvedValue({
+      id: 'key_new',
+      name: 'Payouts (rolled over)',
+      permissions: ['transfer'],
+      allowedRecipients: [],
+      allowedIps: [],
+      allowedMethods: [],
+      allowedRoutes: [],
+    });
+    service = new ApiKeyService(
+      prisma as unknown as PrismaService,
+      { log: jest.fn(), error: jest.fn() } as unknown as LoggerService,
+    );
+  });
+
+  it('copies the old key transaction limits to the rolled over key', async () => {
+    tx.transactionLimit.findMany.mockResolvedValue([
+      {
+        id: 'limit_1',
+        scope: 'api_key',
+        subjectId: 'key_old',
+        operation: 'transfer',
+        currency: 'NGN',
+        perTransaction: 5000,
+        daily: 20000,
+        monthly: null,
+        hourlyCount: 10,
+      },
+    ]);
+
+    await service.rolloverApiKey('user_1', {
+      expired_key_id: 'key_old',
+      expiry: '1M',
+    });
+
+    expect(tx.transactionLimit.findMany).toHaveBeenCalledWith({
+      where: { scope: 'api_key', subjectId: 'key_old' },
+    });
+    expect(tx.transactionLimit.createMany).toHaveBeenCalledWith({
+      data: [
+        {
+          scope: 'api_key',
+          subjectId: 'key_new',
+          operation: 'transfer',
+          currency: 'NGN',
+          perTransaction: 5000,
+          daily: 20000,
+          monthly: null,
+          hourlyCount: 10,
+        },
+      ],
+    });
+    expect(tx.apiKey.update).toHaveBeenCalledTimes(1);
+  });
+
+  it('rolls over a key without limits', async () => {
+    tx.transactionLimit.findMany.mockResolvedValue([]);
+
+    await service.rolloverApiKey('user_1', {
+      expired_key_id: 'key_old',
+      expiry: '1M',
+    });
+
+    expect(tx.transactionLimit.createMany).not.toHaveBeenCalled();
+  });
+});
@@ -3,15 +3,25 @@ import {
   BadRequestException,
   NotFoundException,
   ForbiddenException,
+  OnApplicationBootstrap,
 } from '@nestjs/common';
+import { ApiKey } from '@prisma/client';
 import { PrismaService } from '../../prisma/prisma.service';
 import { LoggerService } from '../logger/logger.service';
 import { CreateApiKeyDto } from '../dto/create-api-key.dto';
 import { RolloverApiKeyDto } from '../dto/rollover-api-key.dto';
+import { ApiKeyConstraintsDto } from '../dto/api-key-constraints.dto';
+import { parseCidr } from '../utils/ip-ranges';
+import { DEFAULT_CURRENCY } from '../utils/money';
+import {
+  apiKeyPrefix,
+  hashedApiKeyFields,
+  maskApiKey,
+} from '../utils/api-keys';
 import * as crypto from 'crypto';
 
 @Injectable()
-export class ApiKeyService {
+export class ApiKeyService implements OnApplicationBootstrap {
   private readonly MAX_ACTIVE_KEYS = 5;
 
   constructor(
@@ -19,6 +29,37 @@ export class ApiKeyService {
     private logger: LoggerService,
   ) {}
 
+  async onApplicationBootstrap() {
+    await this.hashLegacyKeys();
+  }
+
+  /**
+   * Migrates keys created before keys were hashed: stores each one's prefix
+   * and hash and clears the plaintext. Runs at startup and is safe to repeat;
+   * until it has run, `ApiKeyGuard` still accepts these keys by plaintext.
+   */
+  async hashLegacyKeys() {
+    try {
+      const legacyKeys = await this.prisma.apiKey.findMany({
+        where: { key: { not: null } },
+        select: { id: true, key: true },
+      });
+
+      for (const legacyKey of legacyKeys) {
+        await this.prisma.apiKey.updateMany({
+          where: { id: legacyKey.id, key: legacyKey.key },
+          data: { ...hashedApiKeyFields(legacyKey.key!), key: null },
+        });
+      }
+
+      if (legacyKeys.length > 0) {
+        this.logger.log(`Hashed ${legacyKeys.length} plaintext API keys`);
+      }
+    } catch (error) {
+      this.logger.error('Error hashing plaintext API keys', error);
+    }
+  }
+
   private calculateExpireTime(expiry: string): Date {
     const now = new Date();
 
@@ -50,6 +91,40 @@ export class ApiKeyService {
     }
   }
 
+  private constraintFields(constraints: ApiKeyConstraintsDto = {}) {
+    const invalidRanges = (constraints.allowed_ips ?? []).filter(
+      (range) => !parseCidr(range),
+    );
+
+    if (invalidRanges.length > 0) {
+      throw new BadRequestException(
+        `Invalid IP ranges: ${invalidRanges.join(', ')}`,
+      );
+    }
+
+    return {
+      maxAmountPerTransaction: constraints.max_amount_per_transaction ?? null,
+      maxAmountPerDay: constraints.max_amount_per_day ?? null,
+      capCurrency: constraints.currency ?? DEFAULT_CURRENCY,
+      allowedRecipients: constraints.allowed_recipients ?? [],
+      allowedIps: constraints.allowed_ips ?? [],
+      allowedMethods: constraints.allowed_methods ?? [],
+      allowedRoutes: constraints.allowed_routes ?? [],
+    };
+  }
+
+  private toConstraints(key: ApiKey) {
+    return {
+      max_amount_per_transaction: key.maxAmountPerTransaction,
+      max_amount_per_day: key.maxAmountPerDay,
+      currency: key.capCurrency,
+      allowed_recipients: key.allowedRecipients,
+      allowed_ips: key.allowedIps,
+      allowed_methods: key.allowedMethods,
+      allowed_routes: key.allowedRoutes,
+    };
+  }
+
   private generateApiKey(): string {
     const random = crypto.randomBytes(32).toString('hex');
     return `sk_live_${random}`;
@@ -75,13 +150,15 @@ export class ApiKeyService {
 
       const apiKey = this.generateApiKey();
       const expiresAt = this.calculateExpireTime(createApiKeyDto.expiry);
+      const constraints = this.constraintFields(createApiKeyDto.constraints);
 
       const createdKey = await this.prisma.apiKey.create({
         data: {
           userId,
           name: createApiKeyDto.name,
-          key: apiKey,
+          ...hashedApiKeyFields(apiKey),
           permissions: createApiKeyDto.permissions,
+          ...constraints,
           expiresAt,
         },
       });
@@ -93,6 +170,7 @@ export class ApiKeyService {
         expires_at: expiresAt.toISOString(),
         name: createdKey.name,
         permissions: createdKey.permissions,
+        constraints: this.toConstraints(createdKey),
       };
     } catch (error) {
       this.logger.error('Error creating API key', error);
@@ -107,26 +185,20 @@ export class ApiKeyService {
     try {
       const keys = await this.prisma.apiKey.findMany({
         where: { userId },
-        select: {
-          id: true,
-          name: true,
-          key: true,
-          permissions: true,
-          expiresAt: true,
-          revokedAt: true,
-          createdAt: true,
-        },
         orderBy: { createdAt: 'desc' },
       });
 
       return keys.map((key) => ({
         id: key.id,
         name: key.name,
-        key: key.key,
+        key: maskApiKey(key.prefix ?? apiKeyPrefix(key.key ?? '')),
         permissions: key.permissions,
+        constraints: this.toConstraints(key),
         expires_at: key.expiresAt.toISOString(),
         revoked_at: key.revokedAt?.toISOString() || null,
         is_active: !key.revokedAt && new Date() < key.expiresAt,
+        last_used_at: key.lastUsedAt?.toISOString() || null,
+        last_used_ip: key.lastUsedIp,
         created_at: key.createdAt.toISOString(),
       }));
     } catch (error) {
@@ -198,20 +270,52 @@ export class ApiKeyService {
       const newApiKey = this.generateApiKey();
       const newExpiresAt = this.calculateExpireTime(rolloverDto.expiry);
 
-      const newKey = await this.prisma.apiKey.create({
-        data: {
-          userId,
-          name: `${oldKey.name} (rolled over)`,
-          key: newApiKey,
-          permissions: oldKey.permissions || {},
-          expiresAt: newExpiresAt,
-          rolledOverFrom: oldKey.id,
-        },
-      });
+      // The new key keeps the old key's transaction limits, copied in the
+      // same transaction so it is never usable without them.
+      const newKey = await this.prisma.$transaction(async (tx) => {
+        const key = await tx.apiKey.create({
+          data: {
+            userId,
+            name: `${oldKey.name} (rolled over)`,
+            ...hashedApiKeyFields(newApiKey),
+            permissions: oldKey.permissions || {},
+            maxAmountPerTransaction: oldKey.maxAmountPerTransaction,
+            maxAmountPerDay: oldKey.maxAmountPerDay,
+            capCurrency: oldKey.capCurrency,
+            allowedRecipients: oldKey.allowedRecipients,
+            allowedIps: oldKey.allowedIps,
+            allowedMethods: oldKey.allowedMethods,
+            allowedRoutes: oldKey.allowedRoutes,
+            expiresAt: newExpiresAt,
+            rolledOverFrom: oldKey.id,
+          },
+        });
+
+        const limits = await tx.transactionLimit.findMany({
+          where: { scope: 'api_key', subjectId: oldKey.id },
+        });
+
+        if (limits.length) {
+          await tx.transactionLimit.createMany({
+            data: limits.map((limit) => ({
+              scope: 'api_key',
+              subjectId: key.id,
+              operation: limit.operation,
+              currency: limit.currency,
+              perTransaction: limit.perTransaction,
+              daily: limit.daily,
+              monthly: limit.monthly,
+              hourlyCount: limit.hourlyCount,
+            })),
+          });
+        }
+
+        await tx.apiKey.update({
+          where: { id: oldKey.id },
+          data: { rolledOverAt: new Date() },
+        });
 
-      await this.prisma.apiKey.update({
-        where: { id: oldKey.id },
-        data: { rolledOverAt: new Date() },
+        return key;
       });
 
       this.logger.log(`API key rolled over from ${oldKey.id} to ${newKey.id}`);
@@ -221,6 +325,7 @@ export class ApiKeyService {
         expires_at: newExpiresAt.toISOString(),
         name: newKey.name,
         permissions: newKey.permissions,
+        constraints: this.toConstraints(newKey),
       };
     } catch (error) {
       this.logger.error('Error rolling over API key', error);
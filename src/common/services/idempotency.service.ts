@@ -0,0 +1,150 @@
+import { Injectable, ConflictException } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { LoggerService } from '../logger/logger.service';
+import { hashRequest } from '../utils/request-hash';
+
+export interface IdempotentRequest {
+  scope: string;
+  key: string;
+  method: string;
+  path: string;
+  body: unknown;
+}
+
+export type IdempotencyResult =
+  | { replay: false; recordId: string }
+  | { replay: true; status: number; body: unknown };
+
+@Injectable()
+export class IdempotencyService {
+  private readonly RETENTION_HOURS = Number(
+    process.env.IDEMPOTENCY_KEY_RETENTION_HOURS || 24,
+  );
+
+  constructor(
+    private prisma: PrismaService,
+    private logger: LoggerService,
+  ) {}
+
+  /**
+   * Claims an idempotency key for a request. Returns the saved response when
+   * the same request was already completed under this key.
+   */
+  async begin(request: IdempotentRequest): Promise<IdempotencyResult> {
+    const requestHash = hashRequest(request.method, request.path, request.body);
+    const now = new Date();
+
+    try {
+      const record = await this.prisma.idempotencyKey.create({
+        data: {
+          scope: request.scope,
+          key: request.key,
+          method: request.method,
+          path: request.path,
+          requestHash,
+          expiresAt: new Date(
+            now.getTime() + this.RETENTION_HOURS * 60 * 60 * 1000,
+          ),
+        },
+      });
+
+      return { replay: false, recordId: record.id };
+    } catch (error) {
+      if (
+        !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+        error.code !== 'P2002'
+      ) {
+        throw error;
+      }
+    }
+
+    const existing = await this.prisma.idempotencyKey.findUnique({
+      where: { scope_key: { scope: request.scope, key: request.key } },
+    });
+
+    if (!existing) {
+      throw new ConflictException(
+        'Idempotency-Key is being reused concurrently. Please retry',
+      );
+    }
+
+    // Expired keys are pruned hourly; one reused before then is freed here.
+    if (existing.expiresAt < now) {
+      await this.prisma.idempotencyKey.deleteMany({
+        where: { id: existing.id, expiresAt: { lt: now } },
+      });
+      return this.begin(request);
+    }
+
+    if (existing.requestHash !== requestHash) {
+      throw new ConflictException(
+        'Idempotency-Key has already been used with a different request',
+      );
+    }
+
+    if (existing.status !== 'completed') {
+      throw new ConflictException(
+        'A request with this Idempotency-Key is still being processed',
+      );
+    }
+
+    this.logger.log(
+      `Replaying idempotent response for ${request.scope}, key ${request.key}`,
+    );
+
+    return {
+      replay: true,
+      status: existing.responseStatus ?? 200,
+      body: existing.responseBody,
+    };
+  }
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async pruneExpiredKeys() {
+    try {
+      const { count } = await this.prisma.idempotencyKey.deleteMany({
+        where: { expiresAt: { lt: new Date() } },
+      });
+
+      if (count > 0) {
+        this.logger.log(`Pruned ${count} expired idempotency keys`);
+      }
+    } catch (error) {
+      this.logger.error('Error pruning idempotency keys', error);
+    }
+  }
+
+  /**
+   * Saves the response to replay for the key. The request has already run,
+   * so if the response cannot be saved the key is left processing: retries
+   * get a 409 until it expires instead of running the request again.
+   */
+  async complete(recordId: string, status: number, body: unknown) {
+    try {
+      await this.prisma.idempotencyKey.update({
+        where: { id: recordId },
+        data: {
+          status: 'completed',
+          responseStatus: status,
+          responseBody: (body ?? Prisma.JsonNull) as Prisma.InputJsonValue,
+        },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Error saving idempotent response for key ${recordId}; key left processing`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Frees a key whose request failed so the client can retry with it.
+   */
+  async release(recordId: string) {
+    await this.prisma.idempotencyKey.deleteMany({
+      where: { id: recordId },
+    });
+  }
+}
@@ -0,0 +1,41 @@
+import { hashedApiKeyFields, matchesRoute, verifyApiKey } from './api-keys';
+
+describe('matchesRoute', () => {
+  it('matches exact paths, ignoring stray slashes', () => {
+    expect(matchesRoute('/wallet/balance', '/wallet/balance')).toBe(true);
+    expect(matchesRoute('/wallet/balance/', 'wallet/balance')).toBe(true);
+    expect(matchesRoute('/wallet/balance', '/wallet/transfer')).toBe(false);
+  });
+
+  it('matches one segment with *', () => {
+    expect(matchesRoute('/wallet/holds/abc', '/wallet/holds/*')).toBe(true);
+    expect(matchesRoute('/wallet/holds', '/wallet/holds/*')).toBe(false);
+    expect(matchesRoute('/wallet/holds/abc/capture', '/wallet/holds/*')).toBe(
+      false,
+    );
+    expect(
+      matchesRoute('/wallet/holds/abc/capture', '/wallet/holds/*/capture'),
+    ).toBe(true);
+  });
+
+  it('matches everything below a trailing **', () => {
+    expect(matchesRoute('/wallet', '/wallet/**')).toBe(true);
+    expect(matchesRoute('/wallet/holds/abc/void', '/wallet/**')).toBe(true);
+    expect(matchesRoute('/keys', '/wallet/**')).toBe(false);
+  });
+
+  it('treats ** anywhere else as a literal segment', () => {
+    expect(matchesRoute('/wallet/holds/abc', '/wallet/**/abc')).toBe(false);
+  });
+});
+
+describe('verifyApiKey', () => {
+  it('accepts the key a hash was made from and nothing else', () => {
+    const key = 'sk_live_abcdefgh12345678';
+    const { prefix, keyHash, keySalt } = hashedApiKeyFields(key);
+
+    expect(prefix).toBe('sk_live_abcdefgh');
+    expect(verifyApiKey(key, keySalt, keyHash)).toBe(true);
+    expect(verifyApiKey(`${key}x`, keySalt, keyHash)).toBe(false);
+  });
+});
@@ -0,0 +1,70 @@
+import * as crypto from 'crypto';
+
+/**
+ * API keys are stored as a salted HMAC-SHA256 of the secret. Only the prefix,
+ * `sk_live_` plus the first 8 characters, is kept in clear: it finds the key's
+ * row and identifies the key in listings.
+ */
+export const API_KEY_PREFIX_LENGTH = 16;
+
+export function apiKeyPrefix(apiKey: string): string {
+  return apiKey.slice(0, API_KEY_PREFIX_LENGTH);
+}
+
+export function hashApiKey(apiKey: string, salt: string): string {
+  return crypto.createHmac('sha256', salt).update(apiKey).digest('hex');
+}
+
+/**
+ * The columns stored for a new key in place of its plaintext.
+ */
+export function hashedApiKeyFields(apiKey: string) {
+  const keySalt = crypto.randomBytes(16).toString('hex');
+  return {
+    prefix: apiKeyPrefix(apiKey),
+    keyHash: hashApiKey(apiKey, keySalt),
+    keySalt,
+  };
+}
+
+export function verifyApiKey(
+  apiKey: string,
+  salt: string,
+  hash: string,
+): boolean {
+  const expected = Buffer.from(hash, 'hex');
+  const actual = Buffer.from(hashApiKey(apiKey, salt), 'hex');
+  return (
+    expected.length === actual.length &&
+    crypto.timingSafeEqual(expected, actual)
+  );
+}
+
+export function maskApiKey(prefix: string): string {
+  return `${prefix}....`;
+}
+
+/**
+ * Matches a request path against an allowed-route pattern. `*` matches one
+ * path segment and a trailing `**` matches everything below, so
+ * `/wallet/holds/*` allows `/wallet/holds/abc` and `/wallet/**` allows every
+ * wallet route.
+ */
+export function matchesRoute(path: string, pattern: string): boolean {
+  const pathSegments = path.split('/').filter(Boolean);
+  const patternSegments = pattern.split('/').filter(Boolean);
+
+  for (let i = 0; i < patternSegments.length; i++) {
+    if (patternSegments[i] === '**' && i === patternSegments.length - 1) {
+      return true;
+    }
+    if (
+      i >= pathSegments.length ||
+      (patternSegments[i] !== '*' && patternSegments[i] !== pathSegments[i])
+    ) {
+      return false;
+    }
+  }
+
+  return pathSegments.length === patternSegments.length;
+}
@@ -0,0 +1,17 @@
+import { backoffDelayMs } from './backoff';
+
+describe('backoffDelayMs', () => {
+  it('waits the base delay after the first attempt', () => {
+    expect(backoffDelayMs(60_000, 1)).toBe(60_000);
+  });
+
+  it('doubles the delay with each further attempt', () => {
+    expect(
+      [2, 3, 4, 5].map((attempts) => backoffDelayMs(1000, attempts)),
+    ).toEqual([2000, 4000, 8000, 16000]);
+  });
+
+  it('never waits less than the base delay', () => {
+    expect(backoffDelayMs(1000, 0)).toBe(1000);
+  });
+});
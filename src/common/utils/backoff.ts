@@ -0,0 +1,7 @@
+/**
+ * Delay before the next attempt after `attempts` failed ones: `baseMs` after
+ * the first, doubling with each attempt after that.
+ */
+export function backoffDelayMs(baseMs: number, attempts: number): number {
+  return baseMs * 2 ** Math.max(0, attempts - 1);
+}
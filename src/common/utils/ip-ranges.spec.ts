@@ -0,0 +1,94 @@
+import { isIpInRanges, isPublicIp, parseCidr } from './ip-ranges';
+
+describe('parseCidr', () => {
+  it('parses IPv4 and IPv6 ranges', () => {
+    expect(parseCidr('10.0.0.0/8')).toEqual({
+      address: '10.0.0.0',
+      prefix: 8,
+      type: 'ipv4',
+    });
+    expect(parseCidr('2001:db8::/32')).toEqual({
+      address: '2001:db8::',
+      prefix: 32,
+      type: 'ipv6',
+    });
+  });
+
+  it('treats a bare address as a single host', () => {
+    expect(parseCidr('203.0.113.7')?.prefix).toBe(32);
+    expect(parseCidr('::1')?.prefix).toBe(128);
+  });
+
+  it('rejects invalid ranges', () => {
+    for (const range of [
+      '10.0.0.0/33',
+      '10.0.0.0/',
+      '10.0.0.0/8/8',
+      '10.0.0.0/x',
+      '10.0.0.256',
+      'example.com/24',
+    ]) {
+      expect(parseCidr(range)).toBeNull();
+    }
+  });
+});
+
+describe('isIpInRanges', () => {
+  const ranges = ['10.0.0.0/8', '203.0.113.7', '2001:db8::/32'];
+
+  it('matches addresses inside any range', () => {
+    expect(isIpInRanges('10.20.30.40', ranges)).toBe(true);
+    expect(isIpInRanges('203.0.113.7', ranges)).toBe(true);
+    expect(isIpInRanges('2001:db8::1', ranges)).toBe(true);
+  });
+
+  it('refuses addresses outside every range', () => {
+    expect(isIpInRanges('11.0.0.1', ranges)).toBe(false);
+    expect(isIpInRanges('203.0.113.8', ranges)).toBe(false);
+    expect(isIpInRanges('2001:db9::1', ranges)).toBe(false);
+  });
+
+  it('matches IPv4 clients of a dual-stack server', () => {
+    expect(isIpInRanges('::ffff:10.1.1.1', ranges)).toBe(true);
+  });
+
+  it('ignores invalid ranges and addresses', () => {
+    expect(isIpInRanges('10.1.1.1', ['bogus'])).toBe(false);
+    expect(isIpInRanges('not-an-ip', ranges)).toBe(false);
+  });
+});
+
+describe('isPublicIp', () => {
+  it('accepts public addresses', () => {
+    expect(isPublicIp('8.8.8.8')).toBe(true);
+    expect(isPublicIp('2606:4700:4700::1111')).toBe(true);
+  });
+
+  it('refuses loopback, private and link-local addresses', () => {
+    for (const ip of [
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.16.0.1',
+      '192.168.1.1',
+      '100.64.0.1',
+      '169.254.169.254',
+      '0.0.0.0',
+      '::1',
+      '::',
+      'fd00:ec2::254',
+      'fe80::1',
+    ]) {
+      expect(isPublicIp(ip)).toBe(false);
+    }
+  });
+
+  it('checks IPv4-mapped IPv6 addresses as IPv4', () => {
+    expect(isPublicIp('::ffff:8.8.8.8')).toBe(true);
+    expect(isPublicIp('::ffff:127.0.0.1')).toBe(false);
+    expect(isPublicIp('::ffff:7f00:1')).toBe(false);
+  });
+
+  it('refuses anything that is not an address', () => {
+    expect(isPublicIp('example.com')).toBe(false);
+  });
+});
@@ -0,0 +1,73 @@
+import * as net from 'net';
+
+/**
+ * Parses a CIDR range such as `10.0.0.0/8` or `2001:db8::/32`; a bare
+ * address is a single-host range. Returns null if the range is invalid.
+ */
+export function parseCidr(range: string) {
+  const [address, bits, ...rest] = range.split('/');
+  const family = net.isIP(address);
+
+  if (!family || rest.length > 0 || bits === '') {
+    return null;
+  }
+
+  const maxPrefix = family === 4 ? 32 : 128;
+  const prefix = bits === undefined ? maxPrefix : Number(bits);
+
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > maxPrefix) {
+    return null;
+  }
+
+  return {
+    address,
+    prefix,
+    type: family === 4 ? ('ipv4' as const) : ('ipv6' as const),
+  };
+}
+
+export function isIpInRanges(ip: string, ranges: string[]): boolean {
+  const list = new net.BlockList();
+  for (const range of ranges) {
+    const cidr = parseCidr(range);
+    if (cidr) {
+      list.addSubnet(cidr.address, cidr.prefix, cidr.type);
+    }
+  }
+
+  // IPv4 clients of a dual-stack server show up as ::ffff:a.b.c.d.
+  const address =
+    ip.startsWith('::ffff:') && net.isIPv4(ip.slice(7)) ? ip.slice(7) : ip;
+  const family = net.isIP(address);
+
+  return family !== 0 && list.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// Loopback, private, link-local (including cloud metadata at
+// 169.254.169.254), CGNAT, multicast and other reserved ranges.
+const NON_PUBLIC_RANGES = [
+  '0.0.0.0/8',
+  '10.0.0.0/8',
+  '100.64.0.0/10',
+  '127.0.0.0/8',
+  '169.254.0.0/16',
+  '172.16.0.0/12',
+  '192.0.0.0/24',
+  '192.168.0.0/16',
+  '198.18.0.0/15',
+  '224.0.0.0/3',
+  '::/128',
+  '::1/128',
+  '64:ff9b::/96',
+  'fc00::/7',
+  'fe80::/10',
+  'ff00::/8',
+];
+
+/**
+ * Whether an address is reachable on the public internet, for requests the
+ * server makes to user-supplied hosts.
+ */
+export function isPublicIp(ip: string): boolean {
+  return net.isIP(ip) !== 0 && !isIpInRanges(ip, NON_PUBLIC_RANGES);
+}
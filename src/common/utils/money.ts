@@ -0,0 +1,17 @@
+/**
+ * Converts a major-unit amount (e.g. Naira) to integer minor units (kobo).
+ */
+export function toMinorUnits(amount: number): bigint {
+  return BigInt(Math.round(amount * 100));
+}
+
+/**
+ * Converts integer minor units back to a major-unit amount for API responses.
+ */
+export function fromMinorUnits(amount: bigint): number {
+  return Number(amount) / 100;
+}
+
+export const SUPPORTED_CURRENCIES = ['NGN', 'USD', 'GHS'];
+
+export const DEFAULT_CURRENCY = 'NGN';
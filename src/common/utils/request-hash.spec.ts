@@ -0,0 +1,61 @@
+import { hashRequest, stableStringify } from './request-hash';
+
+describe('stableStringify', () => {
+  it('sorts object keys at every level', () => {
+    expect(
+      stableStringify({ b: 1, a: { d: [2, { f: 3, e: 4 }], c: 'x' } }),
+    ).toBe('{"a":{"c":"x","d":[2,{"e":4,"f":3}]},"b":1}');
+  });
+
+  it('keeps array order', () => {
+    expect(stableStringify([3, 1, 2])).toBe('[3,1,2]');
+  });
+
+  it('serializes missing values as null', () => {
+    expect(stableStringify(undefined)).toBe('null');
+    expect(stableStringify(null)).toBe('null');
+    expect(stableStringify({ a: undefined })).toBe('{"a":null}');
+  });
+
+  it('serializes scalars as JSON', () => {
+    expect(stableStringify('a"b')).toBe('"a\\"b"');
+    expect(stableStringify(1.5)).toBe('1.5');
+    expect(stableStringify(false)).toBe('false');
+  });
+});
+
+describe('hashRequest', () => {
+  it('ignores key order in the body', () => {
+    expect(
+      hashRequest('POST', '/wallet/transfer', {
+        wallet_number: '123',
+        amount: 500,
+      }),
+    ).toBe(
+      hashRequest('POST', '/wallet/transfer', {
+        amount: 500,
+        wallet_number: '123',
+      }),
+    );
+  });
+
+  it('changes with the method, path or body', () => {
+    const hash = hashRequest('POST', '/wallet/deposit', { amount: 500 });
+
+    expect(hashRequest('PUT', '/wallet/deposit', { amount: 500 })).not.toBe(
+      hash,
+    );
+    expect(hashRequest('POST', '/wallet/transfer', { amount: 500 })).not.toBe(
+      hash,
+    );
+    expect(hashRequest('POST', '/wallet/deposit', { amount: 501 })).not.toBe(
+      hash,
+    );
+  });
+
+  it('returns a hex SHA-256 digest', () => {
+    expect(hashRequest('POST', '/wallet/deposit', {})).toMatch(
+      /^[0-9a-f]{64}$/,
+    );
+  });
+});
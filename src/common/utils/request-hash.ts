@@ -0,0 +1,36 @@
+import * as crypto from 'crypto';
+
+/**
+ * JSON with object keys sorted at every level, so bodies that differ only in
+ * key order serialize the same way.
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`,
+      );
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * SHA-256 fingerprint of a request's method, path and body, used to tell a
+ * retry from a different request sent under the same idempotency key.
+ */
+export function hashRequest(
+  method: string,
+  path: string,
+  body: unknown,
+): string {
+  return crypto
+    .createHash('sha256')
+    .update(`${method}\n${path}\n${stableStringify(body)}`)
+    .digest('hex');
+}
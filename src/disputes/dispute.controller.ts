@@ -0,0 +1,176 @@
+import { Controller, Post, Get, Body, Param } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBody } from '@nestjs/swagger';
+import { DisputeService } from './dispute.service';
+import {
+  type AuthenticatedUser,
+  CurrentUser,
+} from '../common/decorators/current-user.decorator';
+import {
+  missingPermissionsDescription,
+  RequirePermissions,
+} from '../common/decorators/require-permissions.decorator';
+import { OpenDisputeDto } from './dto/open-dispute.dto';
+import { ApproveReversalDto } from './dto/approve-reversal.dto';
+
+const DISPUTE_EXAMPLE = {
+  id: 'dsp_123abc',
+  transfer_reference: 'transfer_user1_user2_1704067200000_a1b2c3d4',
+  reason: 'Sent to the wrong wallet',
+  requested_amount: 5000,
+  approved_amount: null,
+  currency: 'NGN',
+  status: 'open',
+  transfer_status: 'success',
+  created_at: '2025-01-15T10:00:00.000Z',
+  resolved_at: null,
+};
+
+@ApiTags('Disputes')
+@Controller('wallet/disputes')
+export class DisputeController {
+  constructor(private disputeService: DisputeService) {}
+
+  @Post()
+  @RequirePermissions('transfer')
+  @ApiOperation({
+    summary: 'Dispute a transfer',
+    description:
+      'The sender opens a dispute asking the recipient to reverse all or part of a transfer. Omit `amount` to dispute everything not yet reversed.',
+  })
+  @ApiBody({
+    type: OpenDisputeDto,
+    examples: {
+      full: {
+        summary: 'Full reversal',
+        value: {
+          transfer_reference: 'transfer_user1_user2_1704067200000_a1b2c3d4',
+          reason: 'Sent to the wrong wallet',
+        },
+      },
+      partial: {
+        summary: 'Partial reversal',
+        value: {
+          transfer_reference: 'transfer_user1_user2_1704067200000_a1b2c3d4',
+          reason: 'Overpaid by 2000',
+          amount: 2000,
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Dispute opened',
+    schema: { example: DISPUTE_EXAMPLE },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Transfer cannot be disputed or invalid amount',
+  })
+  @ApiResponse({ status: 404, description: 'Transfer not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'This transfer already has an open dispute',
+  })
+  async openDispute(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() dto: OpenDisputeDto,
+  ) {
+    return this.disputeService.openDispute(user.id, dto);
+  }
+
+  @Get()
+  @RequirePermissions('read')
+  @ApiOperation({
+    summary: 'List disputes',
+    description: 'Disputes on transfers the user sent or received.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Disputes retrieved',
+    schema: { example: [DISPUTE_EXAMPLE] },
+  })
+  async listDisputes(@CurrentUser() user: AuthenticatedUser) {
+    return this.disputeService.listDisputes(user.id);
+  }
+
+  @Get(':id')
+  @RequirePermissions('read')
+  @ApiOperation({ summary: 'Get a dispute' })
+  @ApiResponse({
+    status: 200,
+    description: 'Dispute retrieved',
+    schema: { example: DISPUTE_EXAMPLE },
+  })
+  @ApiResponse({ status: 404, description: 'Dispute not found' })
+  async getDispute(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ) {
+    return this.disputeService.getDispute(user.id, id);
+  }
+
+  @Post(':id/approve')
+  @ApiResponse({
+    status: 403,
+    description: `Only the recipient of the transfer can approve a reversal; or: ${missingPermissionsDescription(['transfer'])}`,
+  })
+  @RequirePermissions('transfer')
+  @ApiOperation({
+    summary: 'Approve a reversal',
+    description:
+      'The recipient returns the disputed amount, or a smaller `amount` for a partial reversal. The recipient must hold enough balance to cover it.',
+  })
+  @ApiBody({
+    type: ApproveReversalDto,
+    examples: {
+      full: { summary: 'Approve the disputed amount', value: {} },
+      partial: { summary: 'Approve part of it', value: { amount: 1000 } },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Reversal completed',
+    schema: {
+      example: {
+        ...DISPUTE_EXAMPLE,
+        approved_amount: 5000,
+        status: 'resolved',
+        transfer_status: 'reversed',
+        resolved_at: '2025-01-16T08:30:00.000Z',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Insufficient balance, invalid amount or dispute closed',
+  })
+  @ApiResponse({ status: 404, description: 'Dispute not found' })
+  async approveReversal(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+    @Body() dto: ApproveReversalDto,
+  ) {
+    return this.disputeService.approveReversal(user.id, id, dto);
+  }
+
+  @Post(':id/escalate')
+  @RequirePermissions('transfer')
+  @ApiOperation({
+    summary: 'Escalate a dispute',
+    description:
+      'Either party sends an open dispute for manual review. The recipient uses this to decline a reversal.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Dispute escalated',
+    schema: { example: { ...DISPUTE_EXAMPLE, status: 'escalated' } },
+  })
+  @ApiResponse({ status: 400, description: 'Dispute is not open' })
+  @ApiResponse({ status: 404, description: 'Dispute not found' })
+  async escalateDispute(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ) {
+    return this.disputeService.escalateDispute(user.id, id);
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { DisputeService } from './dispute.service';
+import { DisputeController } from './dispute.controller';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/logger/logger.service';
+import { AuthModule } from '../auth/auth.module';
+import { LedgerModule } from '../ledger/ledger.module';
+import { WalletModule } from '../wallet/wallet.module';
+
+@Module({
+  imports: [AuthModule, LedgerModule, WalletModule],
+  controllers: [DisputeController],
+  providers: [DisputeService, PrismaService, LoggerService],
+})
+export class DisputeModule {}
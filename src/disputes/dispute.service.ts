@@ -0,0 +1,410 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Dispute, Transfer } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/logger/logger.service';
+import {
+  LedgerLineInput,
+  LedgerService,
+  SYSTEM_ACCOUNTS,
+} from '../ledger/ledger.service';
+import { WalletService } from '../wallet/wallet.service';
+import { fromMinorUnits, toMinorUnits } from '../common/utils/money';
+import { OpenDisputeDto } from './dto/open-dispute.dto';
+import { ApproveReversalDto } from './dto/approve-reversal.dto';
+
+const ACTIVE_DISPUTE_STATUSES = ['open', 'escalated'];
+const REVERSIBLE_TRANSFER_STATUSES = ['success', 'partially_reversed'];
+
+@Injectable()
+export class DisputeService {
+  constructor(
+    private prisma: PrismaService,
+    private logger: LoggerService,
+    private ledgerService: LedgerService,
+    private walletService: WalletService,
+  ) {}
+
+  private toResponse(dispute: Dispute & { transfer: Transfer }) {
+    return {
+      id: dispute.id,
+      transfer_reference: dispute.transfer.reference,
+      reason: dispute.reason,
+      requested_amount: dispute.requestedAmount,
+      approved_amount: dispute.approvedAmount,
+      currency: dispute.transfer.currency,
+      status: dispute.status,
+      transfer_status: dispute.transfer.status,
+      created_at: dispute.createdAt.toISOString(),
+      resolved_at: dispute.resolvedAt?.toISOString() || null,
+    };
+  }
+
+  /**
+   * Disputes are visible to both parties of the transfer.
+   */
+  private async findForParty(userId: string, disputeId: string) {
+    const dispute = await this.prisma.dispute.findFirst({
+      where: {
+        id: disputeId,
+        transfer: { OR: [{ senderId: userId }, { recipientId: userId }] },
+      },
+      include: { transfer: true },
+    });
+
+    if (!dispute) {
+      throw new NotFoundException('Dispute not found');
+    }
+
+    return dispute;
+  }
+
+  private remainingAmount(transfer: Transfer): bigint {
+    return (
+      toMinorUnits(transfer.amount) - toMinorUnits(transfer.reversedAmount)
+    );
+  }
+
+  /**
+   * Portion of the recipient's credit that corresponds to `reversedBefore` ..
+   * `reversedAfter` of the sender's amount. Computed as a difference of
+   * cumulative shares so partial reversals always add up to the full credit.
+   */
+  private recipientShare(
+    transfer: Transfer,
+    reversedBefore: bigint,
+    reversedAfter: bigint,
+  ): bigint {
+    const sent = toMinorUnits(transfer.amount);
+    const received = toMinorUnits(transfer.recipientAmount ?? transfer.amount);
+    return (
+      (received * reversedAfter) / sent - (received * reversedBefore) / sent
+    );
+  }
+
+  async openDispute(userId: string, dto: OpenDisputeDto) {
+    try {
+      const transfer = await this.prisma.transfer.findUnique({
+        where: { reference: dto.transfer_reference },
+      });
+
+      if (!transfer || transfer.senderId !== userId) {
+        throw new NotFoundException('Transfer not found');
+      }
+
+      if (!REVERSIBLE_TRANSFER_STATUSES.includes(transfer.status)) {
+        throw new BadRequestException(
+          `Transfer cannot be disputed (current status: ${transfer.status})`,
+        );
+      }
+
+      const remaining = this.remainingAmount(transfer);
+      const requested =
+        dto.amount !== undefined ? toMinorUnits(dto.amount) : remaining;
+
+      if (requested <= 0n || requested > remaining) {
+        throw new BadRequestException(
+          `Disputed amount must be between 0 and ${fromMinorUnits(remaining)} ${transfer.currency}`,
+        );
+      }
+
+      const active = await this.prisma.dispute.findFirst({
+        where: {
+          transferId: transfer.id,
+          status: { in: ACTIVE_DISPUTE_STATUSES },
+        },
+      });
+
+      if (active) {
+        throw new ConflictException(
+          'This transfer already has an open dispute',
+        );
+      }
+
+      const dispute = await this.prisma.dispute.create({
+        data: {
+          transferId: transfer.id,
+          openedById: userId,
+          reason: dto.reason,
+          requestedAmount: fromMinorUnits(requested),
+        },
+        include: { transfer: true },
+      });
+
+      this.logger.log(
+        `Dispute opened by ${userId} on transfer ${transfer.reference}: ${dispute.id}`,
+      );
+
+      return this.toResponse(dispute);
+    } catch (error) {
+      this.logger.error('Error opening dispute', error);
+      throw error;
+    }
+  }
+
+  async listDisputes(userId: string) {
+    const disputes = await this.prisma.dispute.findMany({
+      where: {
+        transfer: { OR: [{ senderId: userId }, { recipientId: userId }] },
+      },
+      include: { transfer: true },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return disputes.map((dispute) => this.toResponse(dispute));
+  }
+
+  async getDispute(userId: string, disputeId: string) {
+    const dispute = await this.findForParty(userId, disputeId);
+    return this.toResponse(dispute);
+  }
+
+  /**
+   * The recipient approves a full or partial reversal. Funds move back through
+   * the ledger and compensating transactions are linked to the originals.
+   */
+  async approveReversal(
+    userId: string,
+    disputeId: string,
+    dto: ApproveReversalDto,
+  ) {
+    try {
+      const dispute = await this.findForParty(userId, disputeId);
+      const { transfer } = dispute;
+
+      if (transfer.recipientId !== userId) {
+        throw new ForbiddenException(
+          'Only the recipient of the transfer can approve a reversal',
+        );
+      }
+
+      if (!ACTIVE_DISPUTE_STATUSES.includes(dispute.status)) {
+        throw new BadRequestException(`Dispute is already ${dispute.status}`);
+      }
+
+      const amount =
+        dto.amount !== undefined
+          ? toMinorUnits(dto.amount)
+          : toMinorUnits(dispute.requestedAmount);
+
+      if (amount > toMinorUnits(dispute.requestedAmount)) {
+        throw new BadRequestException(
+          'Reversal cannot exceed the disputed amount',
+        );
+      }
+
+      if (amount > this.remainingAmount(transfer)) {
+        throw new BadRequestException(
+          'Reversal exceeds the amount left on the transfer',
+        );
+      }
+
+      const currency = transfer.currency;
+      const recipientCurrency = transfer.recipientCurrency ?? currency;
+      const isCrossCurrency = currency !== recipientCurrency;
+      const reversedBefore = toMinorUnits(transfer.reversedAmount);
+      const reversedAfter = reversedBefore + amount;
+      const recipientAmount = this.recipientShare(
+        transfer,
+        reversedBefore,
+        reversedAfter,
+      );
+
+      if (recipientAmount <= 0n) {
+        throw new BadRequestException('Reversal amount is too small');
+      }
+
+      const [senderWallet, recipientWallet] = await Promise.all([
+        this.prisma.wallet.findUnique({
+          where: { userId: transfer.senderId },
+          include: { user: { select: { name: true } } },
+        }),
+        this.prisma.wallet.findUnique({
+          where: { userId: transfer.recipientId },
+          include: { user: { select: { name: true } } },
+        }),
+      ]);
+
+      if (!senderWallet || !recipientWallet) {
+        throw new NotFoundException('Wallet not found');
+      }
+
+      // Funds the recipient has reserved with holds cannot be reversed.
+      const recipientAvailable = await this.walletService.getAvailableBalance(
+        recipientWallet.id,
+        recipientCurrency,
+      );
+
+      if (recipientAvailable < recipientAmount) {
+        throw new BadRequestException(
+          'Recipient has insufficient balance for this reversal',
+        );
+      }
+
+      const transferStatus =
+        reversedAfter === toMinorUnits(transfer.amount)
+          ? 'reversed'
+          : 'partially_reversed';
+      const reference = `reversal_${dispute.id}`;
+
+      const resolved = await this.prisma.$transaction(async (tx) => {
+        // Guard against a concurrent reversal of the same transfer.
+        const updated = await tx.transfer.updateMany({
+          where: { id: transfer.id, reversedAmount: transfer.reversedAmount },
+          data: {
+            reversedAmount: fromMinorUnits(reversedAfter),
+            status: transferStatus,
+          },
+        });
+
+        if (updated.count === 0) {
+          throw new ConflictException(
+            'Transfer was modified by another reversal, please retry',
+          );
+        }
+
+        const recipientAccount = await this.ledgerService.getWalletAccount(
+          tx,
+          recipientWallet.id,
+          recipientCurrency,
+        );
+        const senderAccount = await this.ledgerService.getWalletAccount(
+          tx,
+          senderWallet.id,
+          currency,
+        );
+
+        const lines: LedgerLineInput[] = [
+          {
+            accountId: recipientAccount.id,
+            direction: 'debit',
+            amount: recipientAmount,
+          },
+        ];
+
+        if (isCrossCurrency) {
+          const recipientFxAccount = await this.ledgerService.getSystemAccount(
+            tx,
+            SYSTEM_ACCOUNTS.FX_POSITION,
+            recipientCurrency,
+          );
+          const senderFxAccount = await this.ledgerService.getSystemAccount(
+            tx,
+            SYSTEM_ACCOUNTS.FX_POSITION,
+            currency,
+          );
+          lines.push(
+            {
+              accountId: recipientFxAccount.id,
+              direction: 'credit',
+              amount: recipientAmount,
+            },
+            { accountId: senderFxAccount.id, direction: 'debit', amount },
+          );
+        }
+
+        lines.push({
+          accountId: senderAccount.id,
+          direction: 'credit',
+          amount,
+        });
+
+        await this.ledgerService.postEntry(tx, {
+          type: 'reversal',
+          reference,
+          description: `Reversal of transfer ${transfer.reference}`,
+          lines,
+        });
+
+        const originals = await tx.transaction.findMany({
+          where: { transferId: transfer.id, type: 'transfer' },
+        });
+        const originalOut = originals.find((t) => t.direction === 'out');
+        const originalIn = originals.find((t) => t.direction === 'in');
+
+        await tx.transaction.create({
+          data: {
+            walletId: senderWallet.id,
+            transferId: transfer.id,
+            reversalOfId: originalOut?.id,
+            type: 'reversal',
+            direction: 'in',
+            amount: fromMinorUnits(amount),
+            currency,
+            status: 'success',
+            reference: `${reference}_in`,
+            description: `Reversal from ${recipientWallet.user.name}`,
+          },
+        });
+
+        await tx.transaction.create({
+          data: {
+            walletId: recipientWallet.id,
+            transferId: transfer.id,
+            reversalOfId: originalIn?.id,
+            type: 'reversal',
+            direction: 'out',
+            amount: fromMinorUnits(recipientAmount),
+            currency: recipientCurrency,
+            status: 'success',
+            reference: `${reference}_out`,
+            description: `Reversal to ${senderWallet.user.name}`,
+          },
+        });
+
+        return tx.dispute.update({
+          where: { id: dispute.id },
+          data: {
+            status: 'resolved',
+            approvedAmount: fromMinorUnits(amount),
+            resolvedAt: new Date(),
+          },
+          include: { transfer: true },
+        });
+      });
+
+      this.logger.log(
+        `Reversal approved on dispute ${dispute.id}: ${fromMinorUnits(amount)} ${currency} returned to ${transfer.senderId}`,
+      );
+
+      return this.toResponse(resolved);
+    } catch (error) {
+      this.logger.error('Error approving reversal', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Either party can escalate an open dispute for manual review; for the
+   * recipient this is how a reversal is declined.
+   */
+  async escalateDispute(userId: string, disputeId: string) {
+    try {
+      const dispute = await this.findForParty(userId, disputeId);
+
+      if (dispute.status !== 'open') {
+        throw new BadRequestException(
+          `Only open disputes can be escalated (current status: ${dispute.status})`,
+        );
+      }
+
+      const escalated = await this.prisma.dispute.update({
+        where: { id: dispute.id },
+        data: { status: 'escalated' },
+        include: { transfer: true },
+      });
+
+      this.logger.warn(`Dispute escalated by ${userId}: ${dispute.id}`);
+
+      return this.toResponse(escalated);
+    } catch (error) {
+      this.logger.error('Error escalating dispute', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,8 @@
+import { IsNumber, IsOptional, IsPositive } from 'class-validator';
+
+export class ApproveReversalDto {
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  amount?: number;
+}
@@ -0,0 +1,21 @@
+import {
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+export class OpenDisputeDto {
+  @IsString()
+  transfer_reference: string;
+
+  @IsString()
+  @MaxLength(500)
+  reason: string;
+
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  amount?: number;
+}
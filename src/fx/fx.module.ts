@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { FxService } from './fx.service';
+import { LoggerService } from '../common/logger/logger.service';
+
+@Module({
+  providers: [FxService, LoggerService],
+  exports: [FxService],
+})
+export class FxModule {}
@@ -0,0 +1,68 @@
+import { BadRequestException } from '@nestjs/common';
+import { LoggerService } from '../common/logger/logger.service';
+import { FxService } from './fx.service';
+
+describe('FxService', () => {
+  const logger = { error: jest.fn() } as unknown as LoggerService;
+  const originalRates = process.env.FX_RATES;
+
+  afterEach(() => {
+    if (originalRates === undefined) {
+      delete process.env.FX_RATES;
+    } else {
+      process.env.FX_RATES = originalRates;
+    }
+  });
+
+  describe('quote', () => {
+    let fx: FxService;
+
+    beforeEach(() => {
+      delete process.env.FX_RATES;
+      fx = new FxService(logger);
+    });
+
+    it('leaves amounts in the same currency unchanged', () => {
+      expect(fx.quote('NGN', 'NGN', 12_345n)).toEqual({
+        rate: 1,
+        convertedAmount: 12_345n,
+      });
+    });
+
+    it('converts minor units through the base currency', () => {
+      // 10.00 USD at 1,500 NGN/USD is 15,000.00 NGN.
+      expect(fx.quote('USD', 'NGN', 1_000n)).toEqual({
+        rate: 1500,
+        convertedAmount: 1_500_000n,
+      });
+      // 150.00 GHS at 100 NGN/GHS and 1,500 NGN/USD is 10.00 USD.
+      expect(fx.quote('GHS', 'USD', 15_000n).convertedAmount).toBe(1_000n);
+    });
+
+    it('rounds to the nearest minor unit', () => {
+      // 1.00 NGN is 0.0667 US cents.
+      expect(fx.quote('NGN', 'USD', 100n).convertedAmount).toBe(0n);
+      // 10.00 NGN is 0.667 US cents.
+      expect(fx.quote('NGN', 'USD', 1_000n).convertedAmount).toBe(1n);
+    });
+
+    it('refuses currencies without a rate', () => {
+      expect(() => fx.quote('EUR', 'NGN', 100n)).toThrow(BadRequestException);
+    });
+  });
+
+  it('applies configured rates over the defaults', () => {
+    process.env.FX_RATES = '{"usd":1600}';
+    const fx = new FxService(logger);
+
+    expect(fx.quote('USD', 'NGN', 100n).convertedAmount).toBe(160_000n);
+  });
+
+  it('rejects invalid configured rates', () => {
+    process.env.FX_RATES = '{"USD":-1}';
+
+    expect(() => new FxService(logger)).toThrow(
+      'FX_RATES must be a JSON object of positive numbers',
+    );
+  });
+});
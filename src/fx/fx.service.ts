@@ -0,0 +1,90 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { LoggerService } from '../common/logger/logger.service';
+import { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES } from '../common/utils/money';
+
+const DEFAULT_RATES: Record<string, number> = {
+  NGN: 1,
+  USD: 1500,
+  GHS: 100,
+};
+
+@Injectable()
+export class FxService {
+  private readonly baseCurrency =
+    process.env.FX_BASE_CURRENCY || DEFAULT_CURRENCY;
+  private readonly rates: Record<string, number>;
+
+  constructor(private logger: LoggerService) {
+    this.rates = this.loadRates();
+  }
+
+  /**
+   * Rates are expressed as units of the base currency per one unit of each
+   * currency, e.g. FX_RATES='{"USD":1500,"GHS":100}' with an NGN base.
+   */
+  private loadRates(): Record<string, number> {
+    const rates = { ...DEFAULT_RATES };
+
+    if (process.env.FX_RATES) {
+      try {
+        const configured = JSON.parse(process.env.FX_RATES) as Record<
+          string,
+          unknown
+        >;
+        for (const [currency, rate] of Object.entries(configured)) {
+          if (typeof rate !== 'number' || rate <= 0) {
+            throw new Error(`Invalid rate for ${currency}`);
+          }
+          rates[currency.toUpperCase()] = rate;
+        }
+      } catch (error) {
+        this.logger.error('Invalid FX_RATES configuration', error);
+        throw new Error('FX_RATES must be a JSON object of positive numbers');
+      }
+    }
+
+    rates[this.baseCurrency] = 1;
+    return rates;
+  }
+
+  getRate(from: string, to: string): number {
+    if (from === to) {
+      return 1;
+    }
+
+    const fromRate = this.rates[from];
+    const toRate = this.rates[to];
+
+    if (!fromRate || !toRate) {
+      throw new BadRequestException(
+        `No exchange rate configured for ${from} to ${to}`,
+      );
+    }
+
+    return Number((fromRate / toRate).toFixed(8));
+  }
+
+  /**
+   * Converts a minor-unit amount between currencies at the current rate.
+   */
+  quote(from: string, to: string, amount: bigint) {
+    const rate = this.getRate(from, to);
+    return {
+      rate,
+      convertedAmount: BigInt(Math.round(Number(amount) * rate)),
+    };
+  }
+
+  getRateTable() {
+    return {
+      base: this.baseCurrency,
+      rates: SUPPORTED_CURRENCIES.reduce(
+        (table, currency) => ({
+          ...table,
+          [currency]: this.rates[currency] ?? null,
+        }),
+        {} as Record<string, number | null>,
+      ),
+    };
+  }
+}
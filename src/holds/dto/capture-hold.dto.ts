@@ -0,0 +1,26 @@
+import {
+  IsIn,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+} from 'class-validator';
+import { SUPPORTED_CURRENCIES } from '../../common/utils/money';
+
+export class CaptureHoldDto {
+  @IsString()
+  wallet_number: string;
+
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  amount?: number;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsOptional()
+  @IsIn(SUPPORTED_CURRENCIES)
+  target_currency?: string;
+}
@@ -0,0 +1,166 @@
+import { Controller, Post, Get, Body, Param } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBody } from '@nestjs/swagger';
+import { HoldService } from './hold.service';
+import {
+  type AuthenticatedUser,
+  CurrentUser,
+} from '../common/decorators/current-user.decorator';
+import { RequirePermissions } from '../common/decorators/require-permissions.decorator';
+import { RateLimit } from '../rate-limits/rate-limit.decorator';
+import { ApiKeyId } from '../common/decorators/api-key-id.decorator';
+import { AuthorizeHoldDto } from './dto/authorize-hold.dto';
+import { CaptureHoldDto } from './dto/capture-hold.dto';
+
+const HOLD_EXAMPLE = {
+  id: 'hld_123abc',
+  amount: 3000,
+  currency: 'NGN',
+  captured_amount: null,
+  status: 'active',
+  description: 'Order #1042',
+  transfer_reference: null,
+  expires_at: '2025-01-22T10:00:00.000Z',
+  created_at: '2025-01-15T10:00:00.000Z',
+};
+
+@ApiTags('Holds')
+@Controller('wallet/holds')
+export class HoldController {
+  constructor(private holdService: HoldService) {}
+
+  @Post()
+  @RequirePermissions('transfer')
+  @ApiOperation({
+    summary: 'Authorize a hold',
+    description:
+      'Reserves an amount of the available balance without moving it. Uncaptured holds expire after `expires_in_minutes` (default 7 days).',
+  })
+  @ApiBody({
+    type: AuthorizeHoldDto,
+    examples: {
+      example1: {
+        summary: 'Hold funds for an order',
+        value: {
+          amount: 3000,
+          description: 'Order #1042',
+          expires_in_minutes: 1440,
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Hold authorized',
+    schema: { example: HOLD_EXAMPLE },
+  })
+  @ApiResponse({ status: 400, description: 'Insufficient balance' })
+  async authorizeHold(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() dto: AuthorizeHoldDto,
+  ) {
+    return this.holdService.authorizeHold(user.id, dto);
+  }
+
+  @Get()
+  @RequirePermissions('read')
+  @ApiOperation({ summary: 'List holds' })
+  @ApiResponse({
+    status: 200,
+    description: 'Holds retrieved',
+    schema: { example: [HOLD_EXAMPLE] },
+  })
+  async listHolds(@CurrentUser() user: AuthenticatedUser) {
+    return this.holdService.listHolds(user.id);
+  }
+
+  @Get(':id')
+  @RequirePermissions('read')
+  @ApiOperation({ summary: 'Get a hold' })
+  @ApiResponse({
+    status: 200,
+    description: 'Hold retrieved',
+    schema: { example: HOLD_EXAMPLE },
+  })
+  @ApiResponse({ status: 404, description: 'Hold not found' })
+  async getHold(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ) {
+    return this.holdService.getHold(user.id, id);
+  }
+
+  @Post(':id/capture')
+  @RequirePermissions('transfer')
+  @RateLimit('transfers')
+  @ApiOperation({
+    summary: 'Capture a hold',
+    description:
+      'Transfers all of the held amount, or a smaller `amount`, to another wallet. A hold can be captured once; the rest is released.',
+  })
+  @ApiBody({
+    type: CaptureHoldDto,
+    examples: {
+      full: {
+        summary: 'Capture the full amount',
+        value: { wallet_number: '4566678954356' },
+      },
+      partial: {
+        summary: 'Capture part of it',
+        value: { wallet_number: '4566678954356', amount: 2500 },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Hold captured',
+    schema: {
+      example: {
+        ...HOLD_EXAMPLE,
+        captured_amount: 2500,
+        status: 'captured',
+        transfer_reference: 'capture_hld_123abc',
+        transfer: {
+          status: 'success',
+          message: 'Transfer completed',
+          reference: 'capture_hld_123abc',
+          amount: 2500,
+          currency: 'NGN',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Hold expired or closed, or amount exceeds the hold',
+  })
+  @ApiResponse({ status: 404, description: 'Hold or recipient not found' })
+  @ApiResponse({ status: 409, description: 'Hold is no longer active' })
+  async captureHold(
+    @CurrentUser() user: AuthenticatedUser,
+    @ApiKeyId() apiKeyId: string | undefined,
+    @Param('id') id: string,
+    @Body() dto: CaptureHoldDto,
+  ) {
+    return this.holdService.captureHold(user.id, id, dto, apiKeyId);
+  }
+
+  @Post(':id/void')
+  @RequirePermissions('transfer')
+  @ApiOperation({
+    summary: 'Void a hold',
+    description: 'Releases the held amount back to the available balance.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Hold voided',
+    schema: { example: { ...HOLD_EXAMPLE, status: 'voided' } },
+  })
+  @ApiResponse({ status: 400, description: 'Hold expired or closed' })
+  @ApiResponse({ status: 404, description: 'Hold not found' })
+  async voidHold(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ) {
+    return this.holdService.voidHold(user.id, id);
+  }
+}
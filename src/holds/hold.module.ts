@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { HoldService } from './hold.service';
+import { HoldController } from './hold.controller';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/logger/logger.service';
+import { AuthModule } from '../auth/auth.module';
+import { WalletModule } from '../wallet/wallet.module';
+import { LedgerModule } from '../ledger/ledger.module';
+
+@Module({
+  imports: [AuthModule, WalletModule, LedgerModule],
+  controllers: [HoldController],
+  providers: [HoldService, PrismaService, LoggerService],
+})
+export class HoldModule {}
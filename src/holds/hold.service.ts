@@ -0,0 +1,249 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Hold } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/logger/logger.service';
+import { WalletService } from '../wallet/wallet.service';
+import { LedgerService } from '../ledger/ledger.service';
+import {
+  DEFAULT_CURRENCY,
+  fromMinorUnits,
+  toMinorUnits,
+} from '../common/utils/money';
+import { AuthorizeHoldDto } from './dto/authorize-hold.dto';
+import { CaptureHoldDto } from './dto/capture-hold.dto';
+
+@Injectable()
+export class HoldService {
+  private readonly DEFAULT_EXPIRY_MINUTES = Number(
+    process.env.HOLD_DEFAULT_EXPIRY_MINUTES || 7 * 24 * 60,
+  );
+
+  constructor(
+    private prisma: PrismaService,
+    private logger: LoggerService,
+    private walletService: WalletService,
+    private ledgerService: LedgerService,
+  ) {}
+
+  private toResponse(hold: Hold) {
+    // Report expiry straight away; the sweep releases the funds within a
+    // minute.
+    const status =
+      hold.status === 'active' && hold.expiresAt <= new Date()
+        ? 'expired'
+        : hold.status;
+
+    return {
+      id: hold.id,
+      amount: fromMinorUnits(hold.amount),
+      currency: hold.currency,
+      captured_amount:
+        hold.capturedAmount !== null
+          ? fromMinorUnits(hold.capturedAmount)
+          : null,
+      status,
+      description: hold.description,
+      transfer_reference: hold.transferReference,
+      expires_at: hold.expiresAt.toISOString(),
+      created_at: hold.createdAt.toISOString(),
+    };
+  }
+
+  private async findOwned(userId: string, holdId: string) {
+    const hold = await this.prisma.hold.findFirst({
+      where: { id: holdId, wallet: { userId } },
+    });
+
+    if (!hold) {
+      throw new NotFoundException('Hold not found');
+    }
+
+    return hold;
+  }
+
+  private assertActive(hold: Hold) {
+    if (hold.status !== 'active') {
+      throw new BadRequestException(`Hold is already ${hold.status}`);
+    }
+
+    if (hold.expiresAt <= new Date()) {
+      throw new BadRequestException('Hold has expired');
+    }
+  }
+
+  async authorizeHold(userId: string, dto: AuthorizeHoldDto) {
+    try {
+      const wallet = await this.prisma.wallet.findUnique({
+        where: { userId },
+      });
+
+      if (!wallet) {
+        throw new NotFoundException('Wallet not found');
+      }
+
+      const currency = dto.currency ?? DEFAULT_CURRENCY;
+      const amount = toMinorUnits(dto.amount);
+
+      const expiresAt = new Date(
+        Date.now() +
+          (dto.expires_in_minutes ?? this.DEFAULT_EXPIRY_MINUTES) * 60 * 1000,
+      );
+
+      const hold = await this.prisma.$transaction(async (tx) => {
+        await this.ledgerService.reserveFunds(tx, wallet.id, currency, amount);
+
+        return tx.hold.create({
+          data: {
+            walletId: wallet.id,
+            amount,
+            currency,
+            description: dto.description,
+            expiresAt,
+          },
+        });
+      });
+
+      this.logger.log(
+        `Hold authorized for user ${userId}: ${hold.id}, amount: ${dto.amount} ${currency}`,
+      );
+
+      return this.toResponse(hold);
+    } catch (error) {
+      this.logger.error('Error authorizing hold', error);
+      throw error;
+    }
+  }
+
+  async listHolds(userId: string) {
+    const holds = await this.prisma.hold.findMany({
+      where: { wallet: { userId } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return holds.map((hold) => this.toResponse(hold));
+  }
+
+  async getHold(userId: string, holdId: string) {
+    const hold = await this.findOwned(userId, holdId);
+    return this.toResponse(hold);
+  }
+
+  /**
+   * Captures all or part of a hold into a transfer. A hold is captured once;
+   * any amount not captured is released.
+   */
+  async captureHold(
+    userId: string,
+    holdId: string,
+    dto: CaptureHoldDto,
+    apiKeyId?: string,
+  ) {
+    try {
+      const hold = await this.findOwned(userId, holdId);
+      this.assertActive(hold);
+
+      const amount =
+        dto.amount !== undefined ? toMinorUnits(dto.amount) : hold.amount;
+
+      if (amount > hold.amount) {
+        throw new BadRequestException(
+          'Capture amount cannot exceed the held amount',
+        );
+      }
+
+      const transfer = await this.walletService.transferFunds(
+        userId,
+        {
+          wallet_number: dto.wallet_number,
+          amount: fromMinorUnits(amount),
+          description: dto.description ?? hold.description ?? undefined,
+          currency: hold.currency,
+          target_currency: dto.target_currency,
+        },
+        { reference: `capture_${hold.id}`, holdId: hold.id, apiKeyId },
+      );
+
+      this.logger.log(
+        `Hold captured for user ${userId}: ${hold.id}, amount: ${fromMinorUnits(amount)} ${hold.currency}`,
+      );
+
+      const captured = await this.prisma.hold.findUniqueOrThrow({
+        where: { id: hold.id },
+      });
+
+      return { ...this.toResponse(captured), transfer };
+    } catch (error) {
+      this.logger.error('Error capturing hold', error);
+      throw error;
+    }
+  }
+
+  async voidHold(userId: string, holdId: string) {
+    try {
+      const hold = await this.findOwned(userId, holdId);
+      this.assertActive(hold);
+
+      const voided = await this.releaseHold(hold, 'voided');
+
+      if (!voided) {
+        throw new BadRequestException('Hold is no longer active');
+      }
+
+      this.logger.log(`Hold voided for user ${userId}: ${hold.id}`);
+
+      return this.toResponse({ ...hold, status: 'voided' });
+    } catch (error) {
+      this.logger.error('Error voiding hold', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Closes an active hold and returns its funds to the available balance.
+   * Returns false if the hold was captured or released concurrently.
+   */
+  private async releaseHold(hold: Hold, status: 'voided' | 'expired') {
+    return this.prisma.$transaction(async (tx) => {
+      const released = await tx.hold.updateMany({
+        where: { id: hold.id, status: 'active' },
+        data: { status },
+      });
+
+      if (released.count === 0) return false;
+
+      await this.ledgerService.releaseFunds(
+        tx,
+        hold.walletId,
+        hold.currency,
+        hold.amount,
+      );
+      return true;
+    });
+  }
+
+  @Cron(CronExpression.EVERY_MINUTE)
+  async expireHolds() {
+    try {
+      const expired = await this.prisma.hold.findMany({
+        where: { status: 'active', expiresAt: { lte: new Date() } },
+        take: 500,
+      });
+
+      let count = 0;
+      for (const hold of expired) {
+        if (await this.releaseHold(hold, 'expired')) count++;
+      }
+
+      if (count > 0) {
+        this.logger.log(`Expired ${count} uncaptured holds`);
+      }
+    } catch (error) {
+      this.logger.error('Error expiring holds', error);
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsDateString,
+  IsEmail,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { SUPPORTED_CURRENCIES } from '../../common/utils/money';
+
+export class InvoiceLineItemDto {
+  @IsString()
+  @MaxLength(200)
+  description: string;
+
+  @IsInt()
+  @Min(1)
+  quantity: number;
+
+  @IsNumber()
+  @IsPositive()
+  unit_amount: number;
+}
+
+export class CreateInvoiceDto {
+  @IsNumber()
+  @IsPositive()
+  @Min(1)
+  amount: number;
+
+  @IsOptional()
+  @IsIn(SUPPORTED_CURRENCIES)
+  currency?: string;
+
+  @IsString()
+  @MaxLength(500)
+  description: string;
+
+  @IsDateString()
+  due_date: string;
+
+  @IsOptional()
+  @IsEmail()
+  customer_email?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @ValidateNested({ each: true })
+  @Type(() => InvoiceLineItemDto)
+  line_items?: InvoiceLineItemDto[];
+}
@@ -0,0 +1,31 @@
+import { Type } from 'class-transformer';
+import { IsIn, IsInt, IsOptional, Max, Min } from 'class-validator';
+
+export const INVOICE_STATUSES = [
+  'draft',
+  'open',
+  'paid',
+  'expired',
+  'cancelled',
+];
+
+// "issued": invoices the user sent; "received": invoices addressed to or
+// paid by the user.
+export const INVOICE_ROLES = ['issued', 'received'];
+
+export class ListInvoicesQueryDto {
+  @IsOptional()
+  @IsIn(INVOICE_ROLES)
+  role?: string;
+
+  @IsOptional()
+  @IsIn(INVOICE_STATUSES)
+  status?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
@@ -0,0 +1,49 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsDateString,
+  IsEmail,
+  IsIn,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { SUPPORTED_CURRENCIES } from '../../common/utils/money';
+import { InvoiceLineItemDto } from './create-invoice.dto';
+
+export class UpdateInvoiceDto {
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  @Min(1)
+  amount?: number;
+
+  @IsOptional()
+  @IsIn(SUPPORTED_CURRENCIES)
+  currency?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @IsOptional()
+  @IsDateString()
+  due_date?: string;
+
+  @IsOptional()
+  @IsEmail()
+  customer_email?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @ValidateNested({ each: true })
+  @Type(() => InvoiceLineItemDto)
+  line_items?: InvoiceLineItemDto[];
+}
@@ -0,0 +1,209 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Patch,
+  Body,
+  Param,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { InvoiceService } from './invoice.service';
+import {
+  type AuthenticatedUser,
+  CurrentUser,
+} from '../common/decorators/current-user.decorator';
+import { RequirePermissions } from '../common/decorators/require-permissions.decorator';
+import { CreateInvoiceDto } from './dto/create-invoice.dto';
+import { UpdateInvoiceDto } from './dto/update-invoice.dto';
+import {
+  INVOICE_ROLES,
+  INVOICE_STATUSES,
+  ListInvoicesQueryDto,
+} from './dto/list-invoices-query.dto';
+
+export const INVOICE_EXAMPLE = {
+  id: 'inv_123abc',
+  number: 'INV-20250115-8F3A2C',
+  status: 'open',
+  amount: 45000,
+  currency: 'NGN',
+  description: 'Website design, January',
+  line_items: [
+    { description: 'Design', quantity: 1, unit_amount: 30000 },
+    { description: 'Revisions', quantity: 3, unit_amount: 5000 },
+  ],
+  customer_email: 'client@example.com',
+  due_date: '2025-01-31T23:59:59.000Z',
+  payment_link: 'http://localhost:3000/invoices/public/q2XbW0v1pY8rKc3m',
+  paid_via: null,
+  payment_reference: null,
+  paid_at: null,
+  created_at: '2025-01-15T10:00:00.000Z',
+};
+
+@ApiTags('Invoices')
+@Controller('invoices')
+export class InvoiceController {
+  constructor(private invoiceService: InvoiceService) {}
+
+  @Post()
+  @RequirePermissions('deposit')
+  @ApiOperation({
+    summary: 'Create an invoice',
+    description:
+      'Creates a draft payment request. Line items are optional but must add up to `amount`. Open the invoice to activate its payment link.',
+  })
+  @ApiBody({
+    type: CreateInvoiceDto,
+    examples: {
+      simple: {
+        summary: 'Amount only',
+        value: {
+          amount: 45000,
+          description: 'Website design, January',
+          due_date: '2025-01-31T23:59:59.000Z',
+        },
+      },
+      itemized: {
+        summary: 'With line items',
+        value: {
+          amount: 45000,
+          description: 'Website design, January',
+          due_date: '2025-01-31T23:59:59.000Z',
+          customer_email: 'client@example.com',
+          line_items: [
+            { description: 'Design', quantity: 1, unit_amount: 30000 },
+            { description: 'Revisions', quantity: 3, unit_amount: 5000 },
+          ],
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Invoice created',
+    schema: {
+      example: { ...INVOICE_EXAMPLE, status: 'draft', payment_link: null },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Due date in the past, or line items do not match the amount',
+  })
+  async createInvoice(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() dto: CreateInvoiceDto,
+  ) {
+    return this.invoiceService.createInvoice(user.id, dto);
+  }
+
+  @Get()
+  @RequirePermissions('read')
+  @ApiOperation({
+    summary: 'List invoices',
+    description:
+      '`role=issued` (default) lists invoices you sent; `role=received` lists sent invoices addressed to your email or paid by you.',
+  })
+  @ApiQuery({ name: 'role', required: false, enum: INVOICE_ROLES })
+  @ApiQuery({ name: 'status', required: false, enum: INVOICE_STATUSES })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Invoices retrieved',
+    schema: { example: [INVOICE_EXAMPLE] },
+  })
+  async listInvoices(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query() query: ListInvoicesQueryDto,
+  ) {
+    return this.invoiceService.listInvoices(user.id, query);
+  }
+
+  @Get(':id')
+  @RequirePermissions('read')
+  @ApiOperation({ summary: 'Get an invoice' })
+  @ApiResponse({
+    status: 200,
+    description: 'Invoice retrieved',
+    schema: { example: INVOICE_EXAMPLE },
+  })
+  @ApiResponse({ status: 404, description: 'Invoice not found' })
+  async getInvoice(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ) {
+    return this.invoiceService.getInvoice(user.id, id);
+  }
+
+  @Patch(':id')
+  @RequirePermissions('deposit')
+  @ApiOperation({
+    summary: 'Edit a draft invoice',
+    description: 'Only drafts can be edited.',
+  })
+  @ApiBody({ type: UpdateInvoiceDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Invoice updated',
+    schema: {
+      example: { ...INVOICE_EXAMPLE, status: 'draft', payment_link: null },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Invoice is not a draft' })
+  @ApiResponse({ status: 404, description: 'Invoice not found' })
+  async updateInvoice(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+    @Body() dto: UpdateInvoiceDto,
+  ) {
+    return this.invoiceService.updateInvoice(user.id, id, dto);
+  }
+
+  @Post(':id/open')
+  @RequirePermissions('deposit')
+  @ApiOperation({
+    summary: 'Open an invoice',
+    description:
+      'Sends a draft: its `payment_link` can now be shared and paid until the due date.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Invoice opened',
+    schema: { example: INVOICE_EXAMPLE },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invoice is not a draft, or its due date has passed',
+  })
+  @ApiResponse({ status: 404, description: 'Invoice not found' })
+  async openInvoice(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ) {
+    return this.invoiceService.openInvoice(user.id, id);
+  }
+
+  @Post(':id/cancel')
+  @RequirePermissions('deposit')
+  @ApiOperation({ summary: 'Cancel an invoice' })
+  @ApiResponse({
+    status: 201,
+    description: 'Invoice cancelled',
+    schema: { example: { ...INVOICE_EXAMPLE, status: 'cancelled' } },
+  })
+  @ApiResponse({ status: 400, description: 'Invoice is paid or closed' })
+  @ApiResponse({ status: 404, description: 'Invoice not found' })
+  async cancelInvoice(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ) {
+    return this.invoiceService.cancelInvoice(user.id, id);
+  }
+}
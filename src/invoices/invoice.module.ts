@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { InvoiceService } from './invoice.service';
+import { InvoiceController } from './invoice.controller';
+import { PublicInvoiceController } from './public-invoice.controller';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/logger/logger.service';
+import { AuthModule } from '../auth/auth.module';
+import { WalletModule } from '../wallet/wallet.module';
+import { PaymentsModule } from '../payments/payments.module';
+
+@Module({
+  imports: [AuthModule, WalletModule, PaymentsModule],
+  controllers: [InvoiceController, PublicInvoiceController],
+  providers: [InvoiceService, PrismaService, LoggerService],
+})
+export class InvoiceModule {}
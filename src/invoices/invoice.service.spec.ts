@@ -0,0 +1,177 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Invoice } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/logger/logger.service';
+import { PaymentProviderRegistry } from '../payments/payment-provider.registry';
+import { WalletService } from '../wallet/wallet.service';
+import { InvoiceService } from './invoice.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function invoice(values: Partial<Invoice> = {}): Invoice {
+  return {
+    id: 'inv_1',
+    number: 'INV-0001',
+    token: 'token_1',
+    payeeId: 'user_1',
+    status: 'draft',
+    amount: 5000,
+    currency: 'NGN',
+    description: null,
+    lineItems: null,
+    customerEmail: null,
+    dueDate: new Date(Date.now() + DAY_MS),
+    paidVia: null,
+    paymentReference: null,
+    paidAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...values,
+  } as Invoice;
+}
+
+describe('InvoiceService state transitions', () => {
+  let prisma: {
+    invoice: {
+      findFirst: jest.Mock;
+      findUnique: jest.Mock;
+      updateMany: jest.Mock;
+    };
+  };
+  let walletService: { transferFunds: jest.Mock };
+  let service: InvoiceService;
+
+  // The conditional update succeeds only if the row is in one of the states
+  // its where clause allows, as it would in the database.
+  const stored = (current: Invoice) => {
+    prisma.invoice.findFirst.mockResolvedValue(current);
+    prisma.invoice.findUnique.mockResolvedValue({
+      ...current,
+      payee: { name: 'Jane Doe' },
+    });
+    prisma.invoice.updateMany.mockImplementation(
+      ({ where }: { where: { status: string | { in: string[] } } }) => {
+        const allowed =
+          typeof where.status === 'string' ? [where.status] : where.status.in;
+        return Promise.resolve({
+          count: allowed.includes(current.status) ? 1 : 0,
+        });
+      },
+    );
+  };
+
+  beforeEach(() => {
+    prisma = {
+      invoice: {
+        findFirst: jest.fn(),
+        findUnique: jest.fn(),
+        updateMany: jest.fn(),
+      },
+    };
+    walletService = { transferFunds: jest.fn() };
+    service = new InvoiceService(
+      prisma as unknown as PrismaService,
+      { log: jest.fn(), error: jest.fn() } as unknown as LoggerService,
+      {} as PaymentProviderRegistry,
+      walletService as unknown as WalletService,
+    );
+  });
+
+  it('opens a draft', async () => {
+    stored(invoice());
+
+    await expect(service.openInvoice('user_1', 'inv_1')).resolves.toMatchObject(
+      { status: 'open' },
+    );
+  });
+
+  it('opens a draft only once', async () => {
+    stored(invoice({ status: 'open' }));
+
+    await expect(service.openInvoice('user_1', 'inv_1')).rejects.toThrow(
+      'Invoice is already open',
+    );
+  });
+
+  it('does not open a draft that is already past due', async () => {
+    stored(invoice({ dueDate: new Date(Date.now() - DAY_MS) }));
+
+    await expect(service.openInvoice('user_1', 'inv_1')).rejects.toThrow(
+      BadRequestException,
+    );
+    expect(prisma.invoice.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('edits drafts only', async () => {
+    stored(invoice({ status: 'open' }));
+
+    await expect(
+      service.updateInvoice('user_1', 'inv_1', { amount: 6000 }),
+    ).rejects.toThrow('Only draft invoices can be edited');
+  });
+
+  it.each(['draft', 'open'])('cancels a %s invoice', async (status) => {
+    stored(invoice({ status }));
+
+    await expect(
+      service.cancelInvoice('user_1', 'inv_1'),
+    ).resolves.toMatchObject({ status: 'cancelled' });
+  });
+
+  it.each(['paid', 'expired', 'cancelled'])(
+    'does not cancel a %s invoice',
+    async (status) => {
+      stored(invoice({ status }));
+
+      await expect(service.cancelInvoice('user_1', 'inv_1')).rejects.toThrow(
+        `Invoice cannot be cancelled (current status: ${status})`,
+      );
+    },
+  );
+
+  it('reports an open invoice past its due date as expired', async () => {
+    stored(invoice({ status: 'open', dueDate: new Date(Date.now() - 1000) }));
+
+    await expect(service.getPublicInvoice('token_1')).resolves.toMatchObject({
+      status: 'expired',
+    });
+  });
+
+  it('hides drafts from the public link', async () => {
+    stored(invoice());
+
+    await expect(service.getPublicInvoice('token_1')).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it.each([
+    ['paid', invoice({ status: 'paid' })],
+    ['expired', invoice({ status: 'open', dueDate: new Date(Date.now() - 1) })],
+    ['cancelled', invoice({ status: 'cancelled' })],
+  ])('does not take payment for a %s invoice', async (status, current) => {
+    stored(current);
+
+    await expect(service.payWithWallet('user_2', 'token_1')).rejects.toThrow(
+      `Invoice is ${status}`,
+    );
+    expect(walletService.transferFunds).not.toHaveBeenCalled();
+  });
+
+  it('expires open invoices once they are due', async () => {
+    const now = new Date('2026-10-19T12:00:00Z');
+    jest.useFakeTimers({ now });
+    prisma.invoice.updateMany.mockResolvedValue({ count: 2 });
+
+    try {
+      await service.expireInvoices();
+    } finally {
+      jest.useRealTimers();
+    }
+
+    expect(prisma.invoice.updateMany).toHaveBeenCalledWith({
+      where: { status: 'open', dueDate: { lte: now } },
+      data: { status: 'expired' },
+    });
+  });
+});
@@ -0,0 +1,470 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Invoice, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/logger/logger.service';
+import { PaymentProviderRegistry } from '../payments/payment-provider.registry';
+import { WalletService } from '../wallet/wallet.service';
+import {
+  DEFAULT_CURRENCY,
+  fromMinorUnits,
+  toMinorUnits,
+} from '../common/utils/money';
+import { CreateInvoiceDto, InvoiceLineItemDto } from './dto/create-invoice.dto';
+import { UpdateInvoiceDto } from './dto/update-invoice.dto';
+import { ListInvoicesQueryDto } from './dto/list-invoices-query.dto';
+import { InvoiceCheckoutDto } from './dto/invoice-checkout.dto';
+import * as crypto from 'crypto';
+
+/**
+ * Payment requests with a public link. An invoice is paid once, either from
+ * another user's wallet (a transfer) or by card through the default payment
+ * provider (a deposit into the payee's wallet).
+ */
+@Injectable()
+export class InvoiceService {
+  constructor(
+    private prisma: PrismaService,
+    private logger: LoggerService,
+    private paymentProviders: PaymentProviderRegistry,
+    private walletService: WalletService,
+  ) {}
+
+  private paymentLink(invoice: Invoice) {
+    const appUrl = process.env.APP_URL || 'http://localhost:3000';
+    return `${appUrl}/invoices/public/${invoice.token}`;
+  }
+
+  // Report expiry straight away; the sweep updates the row within minutes.
+  private effectiveStatus(invoice: Invoice) {
+    return invoice.status === 'open' && invoice.dueDate <= new Date()
+      ? 'expired'
+      : invoice.status;
+  }
+
+  private toResponse(invoice: Invoice) {
+    return {
+      id: invoice.id,
+      number: invoice.number,
+      status: this.effectiveStatus(invoice),
+      amount: invoice.amount,
+      currency: invoice.currency,
+      description: invoice.description,
+      line_items: invoice.lineItems ?? [],
+      customer_email: invoice.customerEmail,
+      due_date: invoice.dueDate.toISOString(),
+      payment_link:
+        invoice.status === 'draft' ? null : this.paymentLink(invoice),
+      paid_via: invoice.paidVia,
+      payment_reference: invoice.paymentReference,
+      paid_at: invoice.paidAt?.toISOString() || null,
+      created_at: invoice.createdAt.toISOString(),
+    };
+  }
+
+  private toPublicResponse(
+    invoice: Invoice & { payee: { name: string | null } },
+  ) {
+    return {
+      number: invoice.number,
+      payee_name: invoice.payee.name,
+      status: this.effectiveStatus(invoice),
+      amount: invoice.amount,
+      currency: invoice.currency,
+      description: invoice.description,
+      line_items: invoice.lineItems ?? [],
+      due_date: invoice.dueDate.toISOString(),
+    };
+  }
+
+  private assertDueDate(dueDate: Date) {
+    if (dueDate <= new Date()) {
+      throw new BadRequestException('Due date must be in the future');
+    }
+  }
+
+  /**
+   * Line items are optional, but when given they must add up to the amount.
+   */
+  private assertLineItems(amount: number, lineItems?: InvoiceLineItemDto[]) {
+    if (!lineItems || lineItems.length === 0) return;
+
+    const total = lineItems.reduce(
+      (sum, item) =>
+        sum + toMinorUnits(item.unit_amount) * BigInt(item.quantity),
+      0n,
+    );
+
+    if (total !== toMinorUnits(amount)) {
+      throw new BadRequestException(
+        `Line items add up to ${fromMinorUnits(total)}, not ${amount}`,
+      );
+    }
+  }
+
+  private toLineItems(lineItems?: InvoiceLineItemDto[]) {
+    return lineItems?.map((item) => ({
+      description: item.description,
+      quantity: item.quantity,
+      unit_amount: item.unit_amount,
+    }));
+  }
+
+  private async findIssued(userId: string, id: string) {
+    const invoice = await this.prisma.invoice.findFirst({
+      where: { id, payeeId: userId },
+    });
+
+    if (!invoice) {
+      throw new NotFoundException('Invoice not found');
+    }
+
+    return invoice;
+  }
+
+  private async findPublic(token: string) {
+    const invoice = await this.prisma.invoice.findUnique({
+      where: { token },
+      include: { payee: { select: { name: true } } },
+    });
+
+    if (!invoice || invoice.status === 'draft') {
+      throw new NotFoundException('Invoice not found');
+    }
+
+    return invoice;
+  }
+
+  private assertPayable(invoice: Invoice) {
+    const status = this.effectiveStatus(invoice);
+
+    if (status !== 'open') {
+      throw new BadRequestException(`Invoice is ${status}`);
+    }
+  }
+
+  async createInvoice(userId: string, dto: CreateInvoiceDto) {
+    try {
+      const dueDate = new Date(dto.due_date);
+      this.assertDueDate(dueDate);
+      this.assertLineItems(dto.amount, dto.line_items);
+
+      const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+      const invoice = await this.prisma.invoice.create({
+        data: {
+          number: `INV-${date}-${crypto.randomBytes(3).toString('hex').toUpperCase()}`,
+          token: crypto.randomBytes(16).toString('base64url'),
+          payeeId: userId,
+          customerEmail: dto.customer_email,
+          amount: dto.amount,
+          currency: dto.currency ?? DEFAULT_CURRENCY,
+          description: dto.description,
+          lineItems: this.toLineItems(dto.line_items),
+          dueDate,
+        },
+      });
+
+      this.logger.log(
+        `Invoice created by ${userId}: ${invoice.number}, amount: ${invoice.amount} ${invoice.currency}`,
+      );
+
+      return this.toResponse(invoice);
+    } catch (error) {
+      this.logger.error('Error creating invoice', error);
+      throw error;
+    }
+  }
+
+  async listInvoices(userId: string, query: ListInvoicesQueryDto) {
+    const now = new Date();
+    const statusFilter: Prisma.InvoiceWhereInput =
+      query.status === 'open'
+        ? { status: 'open', dueDate: { gt: now } }
+        : query.status === 'expired'
+          ? {
+              OR: [
+                { status: 'expired' },
+                { status: 'open', dueDate: { lte: now } },
+              ],
+            }
+          : query.status
+            ? { status: query.status }
+            : {};
+
+    let roleFilter: Prisma.InvoiceWhereInput = { payeeId: userId };
+    if (query.role === 'received') {
+      const user = await this.prisma.user.findUniqueOrThrow({
+        where: { id: userId },
+      });
+      roleFilter = {
+        status: { not: 'draft' },
+        OR: [{ payerId: userId }, { customerEmail: user.email }],
+      };
+    }
+
+    const invoices = await this.prisma.invoice.findMany({
+      where: { AND: [roleFilter, statusFilter] },
+      orderBy: { createdAt: 'desc' },
+      take: query.limit ?? 50,
+    });
+
+    return invoices.map((invoice) => this.toResponse(invoice));
+  }
+
+  /**
+   * Visible to the payee, and once sent, to the user it is addressed to or
+   * who paid it.
+   */
+  async getInvoice(userId: string, id: string) {
+    const user = await this.prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+    });
+    const invoice = await this.prisma.invoice.findFirst({
+      where: {
+        id,
+        OR: [
+          { payeeId: userId },
+          {
+            status: { not: 'draft' },
+            OR: [{ payerId: userId }, { customerEmail: user.email }],
+          },
+        ],
+      },
+    });
+
+    if (!invoice) {
+      throw new NotFoundException('Invoice not found');
+    }
+
+    return this.toResponse(invoice);
+  }
+
+  async updateInvoice(userId: string, id: string, dto: UpdateInvoiceDto) {
+    try {
+      const invoice = await this.findIssued(userId, id);
+
+      if (invoice.status !== 'draft') {
+        throw new BadRequestException('Only draft invoices can be edited');
+      }
+
+      const amount = dto.amount ?? invoice.amount;
+      const dueDate = dto.due_date ? new Date(dto.due_date) : undefined;
+      if (dueDate) this.assertDueDate(dueDate);
+      this.assertLineItems(
+        amount,
+        dto.line_items ??
+          (invoice.lineItems as unknown as InvoiceLineItemDto[] | null) ??
+          undefined,
+      );
+
+      const updated = await this.prisma.invoice.updateMany({
+        where: { id: invoice.id, status: 'draft' },
+        data: {
+          amount,
+          currency: dto.currency,
+          description: dto.description,
+          customerEmail: dto.customer_email,
+          lineItems: this.toLineItems(dto.line_items),
+          dueDate,
+        },
+      });
+
+      if (updated.count === 0) {
+        throw new BadRequestException('Only draft invoices can be edited');
+      }
+
+      this.logger.log(`Invoice updated by ${userId}: ${invoice.number}`);
+
+      return this.toResponse(
+        await this.prisma.invoice.findUniqueOrThrow({
+          where: { id: invoice.id },
+        }),
+      );
+    } catch (error) {
+      this.logger.error('Error updating invoice', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Sends a draft: the payment link starts working.
+   */
+  async openInvoice(userId: string, id: string) {
+    try {
+      const invoice = await this.findIssued(userId, id);
+      this.assertDueDate(invoice.dueDate);
+
+      const opened = await this.prisma.invoice.updateMany({
+        where: { id: invoice.id, status: 'draft' },
+        data: { status: 'open' },
+      });
+
+      if (opened.count === 0) {
+        throw new BadRequestException(`Invoice is already ${invoice.status}`);
+      }
+
+      this.logger.log(`Invoice opened by ${userId}: ${invoice.number}`);
+
+      return this.toResponse({ ...invoice, status: 'open' });
+    } catch (error) {
+      this.logger.error('Error opening invoice', error);
+      throw error;
+    }
+  }
+
+  async cancelInvoice(userId: string, id: string) {
+    try {
+      const invoice = await this.findIssued(userId, id);
+
+      const cancelled = await this.prisma.invoice.updateMany({
+        where: { id: invoice.id, status: { in: ['draft', 'open'] } },
+        data: { status: 'cancelled' },
+      });
+
+      if (cancelled.count === 0) {
+        throw new BadRequestException(
+          `Invoice cannot be cancelled (current status: ${invoice.status})`,
+        );
+      }
+
+      this.logger.log(`Invoice cancelled by ${userId}: ${invoice.number}`);
+
+      return this.toResponse({ ...invoice, status: 'cancelled' });
+    } catch (error) {
+      this.logger.error('Error cancelling invoice', error);
+      throw error;
+    }
+  }
+
+  async getPublicInvoice(token: string) {
+    const invoice = await this.findPublic(token);
+    return this.toPublicResponse(invoice);
+  }
+
+  async payWithWallet(userId: string, token: string, apiKeyId?: string) {
+    try {
+      const invoice = await this.findPublic(token);
+      this.assertPayable(invoice);
+
+      const payeeWallet = await this.prisma.wallet.findUnique({
+        where: { userId: invoice.payeeId },
+      });
+
+      if (!payeeWallet) {
+        throw new NotFoundException('Wallet not found');
+      }
+
+      // The transfer claims the invoice in the same database transaction.
+      const transfer = await this.walletService.transferFunds(
+        userId,
+        {
+          wallet_number: payeeWallet.walletNumber,
+          amount: invoice.amount,
+          currency: invoice.currency,
+          description: `Invoice ${invoice.number}`,
+        },
+        {
+          reference: `invoice_${invoice.id}`,
+          invoiceId: invoice.id,
+          apiKeyId,
+        },
+      );
+
+      this.logger.log(
+        `Invoice ${invoice.number} paid from the wallet of ${userId}`,
+      );
+
+      const paid = await this.prisma.invoice.findUniqueOrThrow({
+        where: { id: invoice.id },
+        include: { payee: { select: { name: true } } },
+      });
+
+      return { ...this.toPublicResponse(paid), transfer };
+    } catch (error) {
+      this.logger.error('Error paying invoice from wallet', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Starts a card checkout for an outside payer. The deposit is opened on the
+   * payee's wallet and the invoice is marked paid when it is credited.
+   */
+  async createCardCheckout(token: string, dto: InvoiceCheckoutDto) {
+    try {
+      const invoice = await this.findPublic(token);
+      this.assertPayable(invoice);
+
+      const payeeWallet = await this.prisma.wallet.findUnique({
+        where: { userId: invoice.payeeId },
+      });
+
+      if (!payeeWallet) {
+        throw new NotFoundException('Wallet not found');
+      }
+
+      const provider = this.paymentProviders.get();
+      const reference = `invoice_${invoice.id}_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`;
+      const payment = await provider.initializePayment({
+        email: dto.email,
+        amount: Number(toMinorUnits(invoice.amount)),
+        currency: invoice.currency,
+        reference,
+        metadata: { invoiceId: invoice.id, walletId: payeeWallet.id },
+      });
+
+      await this.prisma.transaction.create({
+        data: {
+          walletId: payeeWallet.id,
+          type: 'deposit',
+          direction: 'in',
+          amount: invoice.amount,
+          currency: invoice.currency,
+          reference,
+          provider: provider.name,
+          providerRef: payment.reference,
+          status: 'pending',
+          description: `Invoice ${invoice.number} paid by ${dto.email}`,
+          metadata: {
+            invoiceId: invoice.id,
+            payerEmail: dto.email,
+            authorizationUrl: payment.authorization_url,
+          },
+        },
+      });
+
+      this.logger.log(
+        `Card checkout started for invoice ${invoice.number}, reference: ${reference}`,
+      );
+
+      return {
+        reference,
+        authorization_url: payment.authorization_url,
+        provider: provider.name,
+      };
+    } catch (error) {
+      this.logger.error('Error starting invoice checkout', error);
+      throw error;
+    }
+  }
+
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async expireInvoices() {
+    try {
+      const expired = await this.prisma.invoice.updateMany({
+        where: { status: 'open', dueDate: { lte: new Date() } },
+        data: { status: 'expired' },
+      });
+
+      if (expired.count > 0) {
+        this.logger.log(`Expired ${expired.count} unpaid invoices`);
+      }
+    } catch (error) {
+      this.logger.error('Error expiring invoices', error);
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import { Controller, Post, Get, Body, Param } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBody } from '@nestjs/swagger';
+import { InvoiceService } from './invoice.service';
+import {
+  type AuthenticatedUser,
+  CurrentUser,
+} from '../common/decorators/current-user.decorator';
+import { RequirePermissions } from '../common/decorators/require-permissions.decorator';
+import { RateLimit } from '../rate-limits/rate-limit.decorator';
+import { ApiKeyId } from '../common/decorators/api-key-id.decorator';
+import { InvoiceCheckoutDto } from './dto/invoice-checkout.dto';
+
+const PUBLIC_INVOICE_EXAMPLE = {
+  number: 'INV-20250115-8F3A2C',
+  payee_name: 'Jane Doe',
+  status: 'open',
+  amount: 45000,
+  currency: 'NGN',
+  description: 'Website design, January',
+  line_items: [
+    { description: 'Design', quantity: 1, unit_amount: 30000 },
+    { description: 'Revisions', quantity: 3, unit_amount: 5000 },
+  ],
+  due_date: '2025-01-31T23:59:59.000Z',
+};
+
+/**
+ * The payment link. Anyone with it can view and pay the invoice; paying from
+ * a wallet requires signing in.
+ */
+@ApiTags('Invoices')
+@Controller('invoices/public')
+export class PublicInvoiceController {
+  constructor(private invoiceService: InvoiceService) {}
+
+  @Get(':token')
+  @ApiOperation({ summary: 'View an invoice from its payment link' })
+  @ApiResponse({
+    status: 200,
+    description: 'Invoice retrieved',
+    schema: { example: PUBLIC_INVOICE_EXAMPLE },
+  })
+  @ApiResponse({ status: 404, description: 'Invoice not found' })
+  async getPublicInvoice(@Param('token') token: string) {
+    return this.invoiceService.getPublicInvoice(token);
+  }
+
+  @Post(':token/checkout')
+  @RateLimit('deposits')
+  @ApiOperation({
+    summary: 'Pay an invoice by card',
+    description:
+      "Starts a checkout with the default payment provider and returns its payment link. The payee's wallet is credited, and the invoice marked paid, when the payment succeeds.",
+  })
+  @ApiBody({
+    type: InvoiceCheckoutDto,
+    examples: {
+      example1: {
+        summary: "Payer's email",
+        value: { email: 'client@example.com' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Checkout started',
+    schema: {
+      example: {
+        reference: 'invoice_inv_123abc_1704099600000_a1b2c3d4',
+        authorization_url: 'https://checkout.paystack.com/...',
+        provider: 'paystack',
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Invoice is not open' })
+  @ApiResponse({ status: 404, description: 'Invoice not found' })
+  async createCardCheckout(
+    @Param('token') token: string,
+    @Body() dto: InvoiceCheckoutDto,
+  ) {
+    return this.invoiceService.createCardCheckout(token, dto);
+  }
+
+  @Post(':token/pay')
+  @RequirePermissions('transfer')
+  @RateLimit('transfers')
+  @ApiOperation({
+    summary: 'Pay an invoice from your wallet',
+    description:
+      "Transfers the invoice amount from your wallet to the payee's. An invoice can only be paid once.",
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Invoice paid',
+    schema: {
+      example: {
+        ...PUBLIC_INVOICE_EXAMPLE,
+        status: 'paid',
+        transfer: {
+          status: 'success',
+          message: 'Transfer completed',
+          reference: 'invoice_inv_123abc',
+          amount: 45000,
+          currency: 'NGN',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invoice is not open, or insufficient balance',
+  })
+  @ApiResponse({ status: 404, description: 'Invoice not found' })
+  @ApiResponse({ status: 409, description: 'Invoice is no longer open' })
+  async payWithWallet(
+    @CurrentUser() user: AuthenticatedUser,
+    @ApiKeyId() apiKeyId: string | undefined,
+    @Param('token') token: string,
+  ) {
+    return this.invoiceService.payWithWallet(user.id, token, apiKeyId);
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { LedgerService } from './ledger.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/logger/logger.service';
+
+@Module({
+  providers: [LedgerService, PrismaService, LoggerService],
+  exports: [LedgerService],
+})
+export class LedgerModule {}
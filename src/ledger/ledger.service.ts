@@ -0,0 +1,361 @@
+import {
+  Injectable,
+  BadRequestException,
+  InternalServerErrorException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/logger/logger.service';
+import { DEFAULT_CURRENCY, fromMinorUnits } from '../common/utils/money';
+
+export type LedgerDirection = 'debit' | 'credit';
+
+export interface LedgerLineInput {
+  accountId: string;
+  direction: LedgerDirection;
+  amount: bigint;
+}
+
+export interface JournalEntryInput {
+  type: string;
+  reference: string;
+  description?: string;
+  lines: LedgerLineInput[];
+}
+
+export const SYSTEM_ACCOUNTS = {
+  PAYSTACK_CLEARING: {
+    code: 'system:paystack_clearing',
+    name: 'Paystack clearing',
+    type: 'asset',
+  },
+  WITHDRAWALS_IN_TRANSIT: {
+    code: 'system:withdrawals_in_transit',
+    name: 'Withdrawals in transit',
+    type: 'liability',
+  },
+  REFUNDS_IN_TRANSIT: {
+    code: 'system:refunds_in_transit',
+    name: 'Refunds in transit',
+    type: 'liability',
+  },
+  CHARGEBACKS_PENDING: {
+    code: 'system:chargebacks_pending',
+    name: 'Chargebacks pending',
+    type: 'liability',
+  },
+  FX_POSITION: {
+    code: 'system:fx_position',
+    name: 'FX position',
+    type: 'asset',
+  },
+  // Counterpart of balances that predate the ledger; posted by migrations.
+  OPENING_BALANCES: {
+    code: 'system:opening_balances',
+    name: 'Opening balances',
+    type: 'asset',
+  },
+} as const;
+
+export type SystemAccount =
+  (typeof SYSTEM_ACCOUNTS)[keyof typeof SYSTEM_ACCOUNTS];
+
+@Injectable()
+export class LedgerService {
+  constructor(
+    private prisma: PrismaService,
+    private logger: LoggerService,
+  ) {}
+
+  /**
+   * Looks the account up before inserting, and inserts with ON CONFLICT DO
+   * NOTHING, so existing rows are never locked. An upsert would lock them and
+   * let two transfers in opposite directions deadlock on each other's
+   * accounts.
+   */
+  private async findOrCreateAccount(
+    tx: Prisma.TransactionClient,
+    data: Prisma.LedgerAccountCreateManyInput,
+  ) {
+    const existing = await tx.ledgerAccount.findUnique({
+      where: { code: data.code },
+    });
+    if (existing) return existing;
+
+    await tx.ledgerAccount.createMany({ data: [data], skipDuplicates: true });
+    return tx.ledgerAccount.findUniqueOrThrow({ where: { code: data.code } });
+  }
+
+  /**
+   * Returns the wallet's ledger account for a currency, creating the account
+   * and its balance row the first time the wallet holds that currency.
+   */
+  async getWalletAccount(
+    tx: Prisma.TransactionClient,
+    walletId: string,
+    currency: string = DEFAULT_CURRENCY,
+  ) {
+    await tx.walletBalance.createMany({
+      data: [{ walletId, currency }],
+      skipDuplicates: true,
+    });
+
+    return this.findOrCreateAccount(tx, {
+      code: `wallet:${walletId}:${currency}`,
+      name: `Wallet ${walletId} (${currency})`,
+      type: 'liability',
+      currency,
+      walletId,
+    });
+  }
+
+  async getSystemAccount(
+    tx: Prisma.TransactionClient,
+    account: SystemAccount,
+    currency: string = DEFAULT_CURRENCY,
+  ) {
+    return this.findOrCreateAccount(tx, {
+      code: `${account.code}:${currency}`,
+      name: `${account.name} (${currency})`,
+      type: account.type,
+      currency,
+    });
+  }
+
+  /**
+   * Reserves funds on a wallet balance for a hold. The check and the update
+   * are a single conditional statement, so concurrent holds and debits cannot
+   * reserve more than the available balance.
+   */
+  async reserveFunds(
+    tx: Prisma.TransactionClient,
+    walletId: string,
+    currency: string,
+    amount: bigint,
+  ) {
+    await tx.walletBalance.createMany({
+      data: [{ walletId, currency }],
+      skipDuplicates: true,
+    });
+
+    const reserved = await tx.$executeRaw`
+      UPDATE "WalletBalance"
+      SET "heldBalance" = "heldBalance" + ${amount}, "updatedAt" = NOW()
+      WHERE "walletId" = ${walletId} AND "currency" = ${currency}
+        AND "balance" - "heldBalance" >= ${amount}`;
+
+    if (reserved === 0) {
+      throw new BadRequestException('Insufficient balance');
+    }
+  }
+
+  async releaseFunds(
+    tx: Prisma.TransactionClient,
+    walletId: string,
+    currency: string,
+    amount: bigint,
+  ) {
+    await tx.walletBalance.update({
+      where: { walletId_currency: { walletId, currency } },
+      data: { heldBalance: { decrement: amount } },
+    });
+  }
+
+  /**
+   * Posts a balanced journal entry and applies the resulting movement to any
+   * wallet balances it touches. Must be called inside a `$transaction` so the
+   * entry and the balance updates commit together.
+   *
+   * Debits are applied with a conditional update that fails with
+   * "Insufficient balance" instead of taking the wallet below its available
+   * balance (balance minus held funds). Balances are updated in a fixed order
+   * so concurrent entries lock rows in the same sequence.
+   */
+  async postEntry(tx: Prisma.TransactionClient, input: JournalEntryInput) {
+    const accounts = await tx.ledgerAccount.findMany({
+      where: { id: { in: input.lines.map((line) => line.accountId) } },
+    });
+
+    this.assertBalanced(input, accounts);
+
+    const entry = await tx.journalEntry.create({
+      data: {
+        type: input.type,
+        reference: input.reference,
+        description: input.description,
+        lines: {
+          create: input.lines.map((line) => ({
+            accountId: line.accountId,
+            direction: line.direction,
+            amount: line.amount,
+          })),
+        },
+      },
+    });
+
+    const walletAccounts = accounts
+      .filter((account) => account.walletId)
+      .sort((a, b) => a.code.localeCompare(b.code));
+
+    for (const account of walletAccounts) {
+      const walletId = account.walletId!;
+
+      const delta = input.lines
+        .filter((line) => line.accountId === account.id)
+        .reduce(
+          (sum, line) =>
+            line.direction === 'credit' ? sum + line.amount : sum - line.amount,
+          0n,
+        );
+
+      if (delta === 0n) continue;
+
+      if (delta > 0n) {
+        await tx.walletBalance.update({
+          where: {
+            walletId_currency: { walletId, currency: account.currency },
+          },
+          data: { balance: { increment: delta } },
+        });
+        continue;
+      }
+
+      const debited = await tx.$executeRaw`
+        UPDATE "WalletBalance"
+        SET "balance" = "balance" + ${delta}, "updatedAt" = NOW()
+        WHERE "walletId" = ${walletId} AND "currency" = ${account.currency}
+          AND "balance" - "heldBalance" + ${delta} >= 0`;
+
+      if (debited === 0) {
+        throw new BadRequestException('Insufficient balance');
+      }
+    }
+
+    this.logger.log(
+      `Journal entry posted: ${input.type} ${input.reference} (${input.lines.length} lines)`,
+    );
+
+    return entry;
+  }
+
+  async getWalletLedgerBalance(
+    walletId: string,
+    currency: string = DEFAULT_CURRENCY,
+  ): Promise<bigint> {
+    const account = await this.prisma.ledgerAccount.findUnique({
+      where: { walletId_currency: { walletId, currency } },
+    });
+
+    if (!account) {
+      return 0n;
+    }
+
+    const totals = await this.prisma.journalLine.groupBy({
+      by: ['direction'],
+      where: { accountId: account.id },
+      _sum: { amount: true },
+    });
+
+    return totals.reduce((sum, total) => {
+      const amount = total._sum.amount ?? 0n;
+      return total.direction === 'credit' ? sum + amount : sum - amount;
+    }, 0n);
+  }
+
+  async reconcileWallet(walletId: string) {
+    try {
+      const wallet = await this.prisma.wallet.findUnique({
+        where: { id: walletId },
+        include: { balances: { orderBy: { currency: 'asc' } } },
+      });
+
+      if (!wallet) {
+        throw new NotFoundException('Wallet not found');
+      }
+
+      const balances: {
+        currency: string;
+        balance: number;
+        ledger_balance: number;
+        difference: number;
+        consistent: boolean;
+      }[] = [];
+
+      for (const walletBalance of wallet.balances) {
+        const ledgerBalance = await this.getWalletLedgerBalance(
+          wallet.id,
+          walletBalance.currency,
+        );
+        const difference = walletBalance.balance - ledgerBalance;
+
+        if (difference !== 0n) {
+          this.logger.warn(
+            `Ledger mismatch for wallet ${wallet.id} (${walletBalance.currency}): stored ${walletBalance.balance}, ledger ${ledgerBalance}`,
+          );
+        }
+
+        balances.push({
+          currency: walletBalance.currency,
+          balance: fromMinorUnits(walletBalance.balance),
+          ledger_balance: fromMinorUnits(ledgerBalance),
+          difference: fromMinorUnits(difference),
+          consistent: difference === 0n,
+        });
+      }
+
+      return {
+        wallet_number: wallet.walletNumber,
+        consistent: balances.every((balance) => balance.consistent),
+        balances,
+      };
+    } catch (error) {
+      this.logger.error('Error reconciling wallet ledger', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Debits must equal credits within each currency; cross-currency entries
+   * balance through the FX position accounts.
+   */
+  private assertBalanced(
+    input: JournalEntryInput,
+    accounts: { id: string; currency: string }[],
+  ) {
+    if (input.lines.length < 2) {
+      throw new InternalServerErrorException(
+        `Journal entry ${input.reference} must have at least two lines`,
+      );
+    }
+
+    const totals = new Map<string, bigint>();
+
+    for (const line of input.lines) {
+      if (line.amount <= 0n) {
+        throw new BadRequestException('Ledger amounts must be positive');
+      }
+
+      const account = accounts.find((a) => a.id === line.accountId);
+      if (!account) {
+        throw new InternalServerErrorException(
+          `Ledger account ${line.accountId} not found`,
+        );
+      }
+
+      const signed = line.direction === 'debit' ? line.amount : -line.amount;
+      totals.set(
+        account.currency,
+        (totals.get(account.currency) ?? 0n) + signed,
+      );
+    }
+
+    for (const [currency, total] of totals) {
+      if (total !== 0n) {
+        throw new InternalServerErrorException(
+          `Journal entry ${input.reference} is unbalanced in ${currency} by ${total}`,
+        );
+      }
+    }
+  }
+}
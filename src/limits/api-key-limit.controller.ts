@@ -0,0 +1,89 @@
+import { Controller, Get, Put, Body, Param, UseGuards } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+} from '@nestjs/swagger';
+import { LimitService } from './limit.service';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import {
+  type AuthenticatedUser,
+  CurrentUser,
+} from '../common/decorators/current-user.decorator';
+import { SetLimitDto } from './dto/set-limit.dto';
+
+export const LIMIT_EXAMPLE = {
+  id: 'lim_123abc',
+  scope: 'api_key',
+  subject_id: 'key_123abc',
+  operation: 'transfer',
+  currency: 'NGN',
+  per_transaction: 50000,
+  daily: 200000,
+  monthly: null,
+  hourly_count: 10,
+  updated_at: '2025-01-15T10:00:00.000Z',
+};
+
+@ApiTags('API Keys')
+@ApiBearerAuth('access-token')
+@Controller('keys')
+@UseGuards(JwtAuthGuard)
+export class ApiKeyLimitController {
+  constructor(private limitService: LimitService) {}
+
+  @Get(':keyId/limits')
+  @ApiOperation({ summary: "List an API key's limits" })
+  @ApiResponse({
+    status: 200,
+    description: 'Limits retrieved',
+    schema: { example: [LIMIT_EXAMPLE] },
+  })
+  @ApiResponse({ status: 404, description: 'API key not found' })
+  async getApiKeyLimits(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('keyId') keyId: string,
+  ) {
+    return this.limitService.getApiKeyLimits(user.id, keyId);
+  }
+
+  @Put(':keyId/limits')
+  @ApiOperation({
+    summary: 'Set limits on an API key',
+    description:
+      'Restricts how much the key may move for one operation and currency, on top of your account limits. Replaces the key’s existing limits for that operation; omitted caps are removed.',
+  })
+  @ApiBody({
+    type: SetLimitDto,
+    examples: {
+      transfer: {
+        summary: 'Cap a payouts key',
+        value: {
+          operation: 'transfer',
+          per_transaction: 50000,
+          daily: 200000,
+          hourly_count: 10,
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Limits saved',
+    schema: { example: LIMIT_EXAMPLE },
+  })
+  @ApiResponse({
+    status: 400,
+    description: '`hourly_count` set for an operation other than transfer',
+  })
+  @ApiResponse({ status: 404, description: 'API key not found' })
+  async setApiKeyLimit(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('keyId') keyId: string,
+    @Body() dto: SetLimitDto,
+  ) {
+    return this.limitService.setApiKeyLimit(user.id, keyId, dto);
+  }
+}
@@ -0,0 +1,8 @@
+import { IsIn, IsOptional } from 'class-validator';
+import { SUPPORTED_CURRENCIES } from '../../common/utils/money';
+
+export class LimitAllowanceQueryDto {
+  @IsOptional()
+  @IsIn(SUPPORTED_CURRENCIES)
+  currency?: string;
+}
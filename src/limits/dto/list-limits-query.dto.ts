@@ -0,0 +1,12 @@
+import { IsIn, IsOptional, IsString } from 'class-validator';
+import { LIMIT_SCOPES } from './set-admin-limit.dto';
+
+export class ListLimitsQueryDto {
+  @IsOptional()
+  @IsIn(LIMIT_SCOPES)
+  scope?: string;
+
+  @IsOptional()
+  @IsString()
+  subject_id?: string;
+}
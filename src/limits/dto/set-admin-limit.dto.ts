@@ -0,0 +1,14 @@
+import { IsIn, IsOptional, IsString } from 'class-validator';
+import { SetLimitDto } from './set-limit.dto';
+
+export const LIMIT_SCOPES = ['global', 'user', 'api_key'];
+
+export class SetAdminLimitDto extends SetLimitDto {
+  @IsIn(LIMIT_SCOPES)
+  scope: string;
+
+  // User or API key ID; required unless the scope is global.
+  @IsOptional()
+  @IsString()
+  subject_id?: string;
+}
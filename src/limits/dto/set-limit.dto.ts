@@ -0,0 +1,44 @@
+import {
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  Min,
+} from 'class-validator';
+import { SUPPORTED_CURRENCIES } from '../../common/utils/money';
+
+export const LIMIT_OPERATIONS = ['deposit', 'transfer', 'withdraw'];
+
+/**
+ * Replaces the limits for one operation and currency. Omitted caps are
+ * removed at this level.
+ */
+export class SetLimitDto {
+  @IsIn(LIMIT_OPERATIONS)
+  operation: string;
+
+  @IsOptional()
+  @IsIn(SUPPORTED_CURRENCIES)
+  currency?: string;
+
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  per_transaction?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  daily?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  monthly?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  hourly_count?: number;
+}
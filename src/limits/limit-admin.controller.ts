@@ -0,0 +1,115 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiSecurity,
+  ApiBody,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { LimitService } from './limit.service';
+import { AdminGuard } from '../common/guards/admin.guard';
+import { LIMIT_SCOPES, SetAdminLimitDto } from './dto/set-admin-limit.dto';
+import { ListLimitsQueryDto } from './dto/list-limits-query.dto';
+import { LIMIT_EXAMPLE } from './api-key-limit.controller';
+
+const GLOBAL_LIMIT_EXAMPLE = {
+  ...LIMIT_EXAMPLE,
+  scope: 'global',
+  subject_id: null,
+  per_transaction: 500000,
+  daily: 1000000,
+  monthly: 5000000,
+  hourly_count: 20,
+};
+
+@ApiTags('Admin')
+@ApiSecurity('x-admin-key')
+@Controller('admin/limits')
+@UseGuards(AdminGuard)
+export class LimitAdminController {
+  constructor(private limitService: LimitService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List transaction limits' })
+  @ApiQuery({ name: 'scope', required: false, enum: LIMIT_SCOPES })
+  @ApiQuery({ name: 'subject_id', required: false, type: String })
+  @ApiResponse({
+    status: 200,
+    description: 'Limits retrieved',
+    schema: { example: [GLOBAL_LIMIT_EXAMPLE] },
+  })
+  @ApiResponse({ status: 401, description: 'Invalid admin key' })
+  async listLimits(@Query() query: ListLimitsQueryDto) {
+    return this.limitService.listLimits(query);
+  }
+
+  @Put()
+  @ApiOperation({
+    summary: 'Set a transaction limit',
+    description:
+      'Sets the limits for one operation and currency, globally or for a user or API key (`subject_id`). Replaces any existing limits at that level; omitted caps are removed. User limits override global ones field by field.',
+  })
+  @ApiBody({
+    type: SetAdminLimitDto,
+    examples: {
+      global: {
+        summary: 'Global transfer limits',
+        value: {
+          scope: 'global',
+          operation: 'transfer',
+          per_transaction: 500000,
+          daily: 1000000,
+          monthly: 5000000,
+          hourly_count: 20,
+        },
+      },
+      user: {
+        summary: 'Raise one user’s daily withdrawals',
+        value: {
+          scope: 'user',
+          subject_id: 'usr_123abc',
+          operation: 'withdraw',
+          daily: 5000000,
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Limit saved',
+    schema: { example: GLOBAL_LIMIT_EXAMPLE },
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Missing or unexpected subject_id, or `hourly_count` set for an operation other than transfer',
+  })
+  @ApiResponse({ status: 404, description: 'User or API key not found' })
+  @ApiResponse({ status: 401, description: 'Invalid admin key' })
+  async setLimit(@Body() dto: SetAdminLimitDto) {
+    return this.limitService.setLimit(dto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a transaction limit' })
+  @ApiResponse({
+    status: 200,
+    description: 'Limit deleted',
+    schema: { example: { message: 'Limit deleted' } },
+  })
+  @ApiResponse({ status: 404, description: 'Limit not found' })
+  @ApiResponse({ status: 401, description: 'Invalid admin key' })
+  async deleteLimit(@Param('id') id: string) {
+    return this.limitService.deleteLimit(id);
+  }
+}
@@ -0,0 +1,28 @@
+import { ForbiddenException } from '@nestjs/common';
+
+export type LimitErrorCode =
+  | 'PER_TRANSACTION_LIMIT_EXCEEDED'
+  | 'DAILY_LIMIT_EXCEEDED'
+  | 'MONTHLY_LIMIT_EXCEEDED'
+  | 'HOURLY_TRANSFER_COUNT_EXCEEDED';
+
+/**
+ * Thrown when a deposit, transfer or withdrawal would go over a limit. The
+ * response carries a machine-readable `code` alongside the message, plus the
+ * limit that applied and what is left of it.
+ */
+export class LimitExceededException extends ForbiddenException {
+  constructor(
+    readonly code: LimitErrorCode,
+    message: string,
+    details: {
+      scope: 'account' | 'api_key';
+      operation: string;
+      currency: string;
+      limit: number;
+      remaining: number;
+    },
+  ) {
+    super({ statusCode: 403, error: 'Forbidden', code, message, ...details });
+  }
+}
@@ -0,0 +1,57 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery } from '@nestjs/swagger';
+import { LimitService } from './limit.service';
+import {
+  type AuthenticatedUser,
+  CurrentUser,
+} from '../common/decorators/current-user.decorator';
+import { RequirePermissions } from '../common/decorators/require-permissions.decorator';
+import { ApiKeyId } from '../common/decorators/api-key-id.decorator';
+import { SUPPORTED_CURRENCIES } from '../common/utils/money';
+import { LimitAllowanceQueryDto } from './dto/limit-allowance-query.dto';
+
+const ALLOWANCE_EXAMPLE = {
+  per_transaction: 500000,
+  daily: { limit: 1000000, used: 250000, remaining: 750000 },
+  monthly: { limit: 5000000, used: 1250000, remaining: 3750000 },
+};
+
+@ApiTags('Wallet')
+@Controller('wallet/limits')
+export class LimitController {
+  constructor(private limitService: LimitService) {}
+
+  @Get()
+  @RequirePermissions('read')
+  @ApiOperation({
+    summary: 'Get transaction limits and remaining allowance',
+    description:
+      'Per-transaction, daily and monthly limits for deposits, transfers and withdrawals, with what is used and left today and this month (UTC). `null` means no limit. `api_key` shows the calling key’s own limits when authenticated with one.',
+  })
+  @ApiQuery({ name: 'currency', required: false, enum: SUPPORTED_CURRENCIES })
+  @ApiResponse({
+    status: 200,
+    description: 'Limits retrieved',
+    schema: {
+      example: {
+        currency: 'NGN',
+        deposit: ALLOWANCE_EXAMPLE,
+        transfer: {
+          ...ALLOWANCE_EXAMPLE,
+          hourly_count: { limit: 20, used: 3, remaining: 17 },
+        },
+        withdraw: ALLOWANCE_EXAMPLE,
+        api_key: null,
+        daily_resets_at: '2025-01-16T00:00:00.000Z',
+        monthly_resets_at: '2025-02-01T00:00:00.000Z',
+      },
+    },
+  })
+  async getAllowance(
+    @CurrentUser() user: AuthenticatedUser,
+    @ApiKeyId() apiKeyId: string | undefined,
+    @Query() query: LimitAllowanceQueryDto,
+  ) {
+    return this.limitService.getAllowance(user.id, apiKeyId, query.currency);
+  }
+}
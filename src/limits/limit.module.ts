@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { LimitService } from './limit.service';
+import { LimitController } from './limit.controller';
+import { ApiKeyLimitController } from './api-key-limit.controller';
+import { LimitAdminController } from './limit-admin.controller';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/logger/logger.service';
+import { AuthModule } from '../auth/auth.module';
+import { FxModule } from '../fx/fx.module';
+
+@Module({
+  imports: [AuthModule, FxModule],
+  controllers: [LimitController, ApiKeyLimitController, LimitAdminController],
+  providers: [LimitService, PrismaService, LoggerService],
+  exports: [LimitService],
+})
+export class LimitModule {}
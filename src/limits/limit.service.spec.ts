@@ -0,0 +1,237 @@
+import { ApiKey, Prisma, TransactionLimit } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/logger/logger.service';
+import { FxService } from '../fx/fx.service';
+import { LimitService } from './limit.service';
+
+const NO_LIMITS = {
+  perTransaction: null,
+  daily: null,
+  monthly: null,
+  hourlyCount: null,
+};
+
+function limit(
+  scope: string,
+  values: Partial<TransactionLimit>,
+): TransactionLimit {
+  return { scope, ...NO_LIMITS, ...values } as TransactionLimit;
+}
+
+function fakeClient(
+  options: {
+    limits?: TransactionLimit[];
+    apiKey?: Partial<ApiKey>;
+    used?: number;
+    hourlyCount?: number;
+    spentByCurrency?: { currency: string; amount: number }[];
+  } = {},
+) {
+  return {
+    transactionLimit: {
+      findMany: jest.fn().mockResolvedValue(options.limits ?? []),
+    },
+    apiKey: {
+      findUnique: jest.fn().mockResolvedValue(
+        options.apiKey && {
+          maxAmountPerTransaction: null,
+          maxAmountPerDay: null,
+          capCurrency: 'NGN',
+          allowedRecipients: [],
+          ...options.apiKey,
+        },
+      ),
+    },
+    transaction: {
+      aggregate: jest
+        .fn()
+        .mockResolvedValue({ _sum: { amount: options.used ?? 0 } }),
+      count: jest.fn().mockResolvedValue(options.hourlyCount ?? 0),
+      groupBy: jest.fn().mockResolvedValue(
+        (options.spentByCurrency ?? []).map(({ currency, amount }) => ({
+          currency,
+          _sum: { amount },
+        })),
+      ),
+    },
+    $queryRaw: jest.fn().mockResolvedValue([]),
+  };
+}
+
+describe('LimitService.assertWithinLimits', () => {
+  const logger = {} as LoggerService;
+  const service = new LimitService(
+    {} as PrismaService,
+    logger,
+    new FxService(logger),
+  );
+  const transfer = {
+    userId: 'user_1',
+    walletId: 'wallet_1',
+    operation: 'transfer',
+    currency: 'NGN',
+    amount: 1500,
+  };
+
+  const check = (
+    client: ReturnType<typeof fakeClient>,
+    input: Partial<typeof transfer> & {
+      apiKeyId?: string;
+      recipientWalletNumber?: string;
+    } = {},
+  ) =>
+    service.assertWithinLimits(client as unknown as Prisma.TransactionClient, {
+      ...transfer,
+      ...input,
+    });
+
+  it('passes without limits and without locking the wallet', async () => {
+    const client = fakeClient();
+
+    await expect(check(client)).resolves.toBeUndefined();
+    expect(client.$queryRaw).not.toHaveBeenCalled();
+  });
+
+  it('refuses an amount over the per-transaction limit', async () => {
+    const client = fakeClient({
+      limits: [limit('global', { perTransaction: 1000 })],
+    });
+
+    await expect(check(client)).rejects.toMatchObject({
+      code: 'PER_TRANSACTION_LIMIT_EXCEEDED',
+    });
+  });
+
+  it('lets user limits replace global ones field by field', async () => {
+    const client = fakeClient({
+      limits: [
+        limit('global', { perTransaction: 1000, daily: 5000 }),
+        limit('user', { perTransaction: 2000 }),
+      ],
+      used: 4000,
+    });
+
+    await expect(check(client)).rejects.toMatchObject({
+      code: 'DAILY_LIMIT_EXCEEDED',
+      response: { limit: 5000, remaining: 1000 },
+    });
+  });
+
+  it('locks the wallet before measuring usage', async () => {
+    const client = fakeClient({
+      limits: [limit('global', { daily: 5000 })],
+      used: 3500,
+    });
+
+    await expect(check(client)).resolves.toBeUndefined();
+    expect(client.$queryRaw).toHaveBeenCalled();
+  });
+
+  it('counts transfers against the hourly limit', async () => {
+    const client = fakeClient({
+      limits: [limit('global', { hourlyCount: 3 })],
+      hourlyCount: 3,
+    });
+
+    await expect(check(client)).rejects.toMatchObject({
+      code: 'HOURLY_TRANSFER_COUNT_EXCEEDED',
+    });
+    await expect(
+      check(client, { operation: 'withdraw' }),
+    ).resolves.toBeUndefined();
+  });
+
+  it('checks API key limits against the key usage', async () => {
+    const client = fakeClient({
+      limits: [limit('api_key', { monthly: 2000 })],
+      used: 1000,
+    });
+
+    await expect(check(client, { apiKeyId: 'key_1' })).rejects.toMatchObject({
+      code: 'MONTHLY_LIMIT_EXCEEDED',
+      response: { scope: 'api_key' },
+    });
+  });
+
+  it('refuses recipients outside the API key allowlist', async () => {
+    const client = fakeClient({
+      apiKey: { id: 'key_1', allowedRecipients: ['4566678954356'] },
+    });
+
+    await expect(
+      check(client, {
+        apiKeyId: 'key_1',
+        recipientWalletNumber: '1234567890123',
+      }),
+    ).rejects.toMatchObject({ code: 'API_KEY_RECIPIENT_NOT_ALLOWED' });
+    await expect(
+      check(client, {
+        apiKeyId: 'key_1',
+        recipientWalletNumber: '4566678954356',
+      }),
+    ).resolves.toBeUndefined();
+  });
+
+  it('converts spending to the API key cap currency', async () => {
+    // 120,000 NGN at the default 1,500 NGN/USD is 80 USD of a 100 USD cap.
+    const client = fakeClient({
+      apiKey: { id: 'key_1', capCurrency: 'USD', maxAmountPerDay: 100 },
+      spentByCurrency: [{ currency: 'NGN', amount: 120_000 }],
+    });
+
+    await expect(
+      check(client, { apiKeyId: 'key_1', currency: 'USD', amount: 30 }),
+    ).rejects.toMatchObject({
+      code: 'API_KEY_DAILY_CAP_EXCEEDED',
+      response: { remaining: 20 },
+    });
+    await expect(
+      check(client, { apiKeyId: 'key_1', currency: 'USD', amount: 20 }),
+    ).resolves.toBeUndefined();
+  });
+});
+
+describe('LimitService.assertApiKeyAllows', () => {
+  const logger = {} as LoggerService;
+  const apiKey = {
+    id: 'key_1',
+    maxAmountPerTransaction: 100,
+    maxAmountPerDay: null,
+    capCurrency: 'NGN',
+    allowedRecipients: ['4566678954356'],
+  };
+  const service = new LimitService(
+    {
+      apiKey: { findUnique: jest.fn().mockResolvedValue(apiKey) },
+    } as unknown as PrismaService,
+    logger,
+    new FxService(logger),
+  );
+  const transfer = {
+    operation: 'transfer',
+    currency: 'NGN',
+    amount: 100,
+    recipientWalletNumber: '4566678954356',
+  };
+
+  it('allows transfers within the key constraints', async () => {
+    await expect(
+      service.assertApiKeyAllows('key_1', transfer),
+    ).resolves.toBeUndefined();
+  });
+
+  it('refuses recipients outside the allowlist', async () => {
+    await expect(
+      service.assertApiKeyAllows('key_1', {
+        ...transfer,
+        recipientWalletNumber: '1234567890123',
+      }),
+    ).rejects.toMatchObject({ code: 'API_KEY_RECIPIENT_NOT_ALLOWED' });
+  });
+
+  it('refuses amounts over the per-transaction cap', async () => {
+    await expect(
+      service.assertApiKeyAllows('key_1', { ...transfer, amount: 101 }),
+    ).rejects.toMatchObject({ code: 'API_KEY_TRANSACTION_CAP_EXCEEDED' });
+  });
+});
@@ -0,0 +1,635 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ApiKey, Prisma, TransactionLimit } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/logger/logger.service';
+import { FxService } from '../fx/fx.service';
+import { ApiKeyConstraintException } from '../common/exceptions/api-key-constraint.exception';
+import {
+  DEFAULT_CURRENCY,
+  fromMinorUnits,
+  toMinorUnits,
+} from '../common/utils/money';
+import { LimitExceededException } from './limit-exceeded.exception';
+import { LIMIT_OPERATIONS, SetLimitDto } from './dto/set-limit.dto';
+import { SetAdminLimitDto } from './dto/set-admin-limit.dto';
+import { ListLimitsQueryDto } from './dto/list-limits-query.dto';
+
+type LimitValues = Pick<
+  TransactionLimit,
+  'perTransaction' | 'daily' | 'monthly' | 'hourlyCount'
+>;
+
+type LimitCheck = {
+  userId: string;
+  walletId: string;
+  apiKeyId?: string;
+  operation: string;
+  currency: string;
+  amount: number;
+  recipientWalletNumber?: string;
+};
+
+// The wallet transactions each operation is measured by.
+const OPERATION_TRANSACTIONS: Record<
+  string,
+  { type: string; direction: string }
+> = {
+  deposit: { type: 'deposit', direction: 'in' },
+  transfer: { type: 'transfer', direction: 'out' },
+  withdraw: { type: 'withdrawal', direction: 'out' },
+};
+
+// Operations that count against an API key's amount caps.
+const SPEND_OPERATIONS = ['transfer', 'withdraw'];
+
+// Pending deposits and in-flight withdrawals count until they fail.
+const COUNTED_STATUSES = ['pending', 'success'];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+@Injectable()
+export class LimitService {
+  constructor(
+    private prisma: PrismaService,
+    private logger: LoggerService,
+    private fxService: FxService,
+  ) {}
+
+  private toResponse(limit: TransactionLimit) {
+    return {
+      id: limit.id,
+      scope: limit.scope,
+      subject_id: limit.subjectId || null,
+      operation: limit.operation,
+      currency: limit.currency,
+      per_transaction: limit.perTransaction,
+      daily: limit.daily,
+      monthly: limit.monthly,
+      hourly_count: limit.hourlyCount,
+      updated_at: limit.updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * User limits replace global ones field by field; API key limits are
+   * checked separately, against that key's own usage.
+   */
+  private async resolveLimits(
+    client: Prisma.TransactionClient,
+    input: Pick<LimitCheck, 'userId' | 'apiKeyId' | 'operation' | 'currency'>,
+  ) {
+    const rows = await client.transactionLimit.findMany({
+      where: {
+        operation: input.operation,
+        currency: input.currency,
+        OR: [
+          { scope: 'global' },
+          { scope: 'user', subjectId: input.userId },
+          ...(input.apiKeyId
+            ? [{ scope: 'api_key', subjectId: input.apiKeyId }]
+            : []),
+        ],
+      },
+    });
+    const global = rows.find((row) => row.scope === 'global');
+    const user = rows.find((row) => row.scope === 'user');
+
+    const account: LimitValues = {
+      perTransaction: user?.perTransaction ?? global?.perTransaction ?? null,
+      daily: user?.daily ?? global?.daily ?? null,
+      monthly: user?.monthly ?? global?.monthly ?? null,
+      hourlyCount: user?.hourlyCount ?? global?.hourlyCount ?? null,
+    };
+    const apiKey: LimitValues | null =
+      rows.find((row) => row.scope === 'api_key') ?? null;
+
+    return { account, apiKey };
+  }
+
+  private async getUsage(
+    client: Prisma.TransactionClient,
+    where: Prisma.TransactionWhereInput,
+    operation: string,
+    currency: string,
+  ) {
+    const now = new Date();
+    const filter: Prisma.TransactionWhereInput = {
+      ...where,
+      ...OPERATION_TRANSACTIONS[operation],
+      currency,
+      status: { in: COUNTED_STATUSES },
+    };
+    const sumSince = async (since: Date) => {
+      const result = await client.transaction.aggregate({
+        where: { ...filter, createdAt: { gte: since } },
+        _sum: { amount: true },
+      });
+      return result._sum.amount ?? 0;
+    };
+
+    return {
+      daily: await sumSince(startOfDay(now)),
+      monthly: await sumSince(startOfMonth(now)),
+      hourlyCount:
+        operation === 'transfer'
+          ? await client.transaction.count({
+              where: {
+                ...filter,
+                createdAt: { gte: new Date(now.getTime() - HOUR_MS) },
+              },
+            })
+          : 0,
+    };
+  }
+
+  /**
+   * Throws a `LimitExceededException` if the operation would go over the
+   * account's or the API key's limits, or an `ApiKeyConstraintException` if
+   * it breaks one of the key's constraints. Pass the caller's database
+   * transaction so the check and the write it guards see the same usage.
+   */
+  async assertWithinLimits(
+    client: Prisma.TransactionClient,
+    input: LimitCheck,
+  ) {
+    const limits = await this.resolveLimits(client, input);
+    const apiKey = input.apiKeyId
+      ? await client.apiKey.findUnique({ where: { id: input.apiKeyId } })
+      : null;
+
+    const usageLimited =
+      [limits.account, limits.apiKey].some(
+        (values) =>
+          values &&
+          (values.daily !== null ||
+            values.monthly !== null ||
+            values.hourlyCount !== null),
+      ) ||
+      (apiKey?.maxAmountPerDay != null &&
+        SPEND_OPERATIONS.includes(input.operation));
+    if (usageLimited) {
+      // Serialises the wallet's operations so concurrent requests cannot
+      // both fit into the same remaining allowance. FOR UPDATE would also
+      // block the key-share locks that foreign keys take when a transfer to
+      // this wallet inserts its rows, so opposite transfers would deadlock.
+      await client.$queryRaw`
+        SELECT "id" FROM "Wallet" WHERE "id" = ${input.walletId}
+        FOR NO KEY UPDATE`;
+    }
+
+    if (apiKey) {
+      await this.checkApiKeyConstraints(client, apiKey, input);
+    }
+
+    await this.check(client, 'account', limits.account, input, {
+      walletId: input.walletId,
+    });
+
+    if (limits.apiKey) {
+      await this.check(client, 'api_key', limits.apiKey, input, {
+        walletId: input.walletId,
+        apiKeyId: input.apiKeyId,
+      });
+    }
+  }
+
+  private async check(
+    client: Prisma.TransactionClient,
+    scope: 'account' | 'api_key',
+    values: LimitValues,
+    input: LimitCheck,
+    where: Prisma.TransactionWhereInput,
+  ) {
+    const { operation, currency } = input;
+    const amount = toMinorUnits(input.amount);
+    const owner = scope === 'api_key' ? 'API key' : 'Account';
+    const details = { scope, operation, currency };
+
+    if (
+      values.perTransaction !== null &&
+      amount > toMinorUnits(values.perTransaction)
+    ) {
+      throw new LimitExceededException(
+        'PER_TRANSACTION_LIMIT_EXCEEDED',
+        `${owner} limit is ${values.perTransaction} ${currency} per ${operation}`,
+        {
+          ...details,
+          limit: values.perTransaction,
+          remaining: values.perTransaction,
+        },
+      );
+    }
+
+    if (
+      values.daily === null &&
+      values.monthly === null &&
+      values.hourlyCount === null
+    ) {
+      return;
+    }
+
+    const usage = await this.getUsage(client, where, operation, currency);
+    const periods = [
+      ['DAILY_LIMIT_EXCEEDED', 'daily', values.daily, usage.daily],
+      ['MONTHLY_LIMIT_EXCEEDED', 'monthly', values.monthly, usage.monthly],
+    ] as const;
+
+    for (const [code, period, limit, used] of periods) {
+      if (limit !== null && toMinorUnits(used) + amount > toMinorUnits(limit)) {
+        const remaining = remainingAmount(limit, used);
+        throw new LimitExceededException(
+          code,
+          `${owner} ${period} ${operation} limit of ${limit} ${currency} exceeded: ${remaining} ${currency} remaining`,
+          { ...details, limit, remaining },
+        );
+      }
+    }
+
+    if (
+      operation === 'transfer' &&
+      values.hourlyCount !== null &&
+      usage.hourlyCount >= values.hourlyCount
+    ) {
+      throw new LimitExceededException(
+        'HOURLY_TRANSFER_COUNT_EXCEEDED',
+        `${owner} may make at most ${values.hourlyCount} transfers per hour`,
+        { ...details, limit: values.hourlyCount, remaining: 0 },
+      );
+    }
+  }
+
+  /**
+   * Checks a transfer the API key will make later, such as a scheduled one,
+   * against the key's recipients and per-transaction cap. Its daily cap and
+   * limits are checked when the transfer runs.
+   */
+  async assertApiKeyAllows(
+    apiKeyId: string,
+    input: Pick<
+      LimitCheck,
+      'operation' | 'currency' | 'amount' | 'recipientWalletNumber'
+    >,
+  ) {
+    const apiKey = await this.prisma.apiKey.findUnique({
+      where: { id: apiKeyId },
+    });
+
+    if (apiKey && SPEND_OPERATIONS.includes(input.operation)) {
+      this.checkApiKeyTransaction(apiKey, input);
+    }
+  }
+
+  /**
+   * The key's own constraints on spending: who it may pay and how much it may
+   * move per transaction and per UTC day. Transfers and withdrawals both count,
+   * converted to the key's cap currency.
+   */
+  private async checkApiKeyConstraints(
+    client: Prisma.TransactionClient,
+    apiKey: ApiKey,
+    input: LimitCheck,
+  ) {
+    if (!SPEND_OPERATIONS.includes(input.operation)) {
+      return;
+    }
+
+    const currency = apiKey.capCurrency;
+    const amount = this.checkApiKeyTransaction(apiKey, input);
+
+    if (apiKey.maxAmountPerDay === null) {
+      return;
+    }
+
+    const spent = await client.transaction.groupBy({
+      by: ['currency'],
+      where: {
+        apiKeyId: apiKey.id,
+        status: { in: COUNTED_STATUSES },
+        createdAt: { gte: startOfDay(new Date()) },
+        OR: SPEND_OPERATIONS.map(
+          (operation) => OPERATION_TRANSACTIONS[operation],
+        ),
+      },
+      _sum: { amount: true },
+    });
+    const used = spent.reduce(
+      (sum, row) =>
+        sum +
+        this.toCapCurrency(
+          row.currency,
+          currency,
+          toMinorUnits(row._sum.amount ?? 0),
+        ),
+      0n,
+    );
+
+    if (used + amount > toMinorUnits(apiKey.maxAmountPerDay)) {
+      const remaining = remainingAmount(
+        apiKey.maxAmountPerDay,
+        fromMinorUnits(used),
+      );
+      throw new ApiKeyConstraintException(
+        'API_KEY_DAILY_CAP_EXCEEDED',
+        `This API key's daily cap of ${apiKey.maxAmountPerDay} ${currency} exceeded: ${remaining} ${currency} remaining`,
+        { limit: apiKey.maxAmountPerDay, currency, remaining },
+      );
+    }
+  }
+
+  /**
+   * Checks the recipient and the per-transaction cap; returns the amount in
+   * the key's cap currency.
+   */
+  private checkApiKeyTransaction(
+    apiKey: ApiKey,
+    input: Pick<
+      LimitCheck,
+      'operation' | 'currency' | 'amount' | 'recipientWalletNumber'
+    >,
+  ) {
+    if (
+      apiKey.allowedRecipients.length > 0 &&
+      !(
+        input.recipientWalletNumber &&
+        apiKey.allowedRecipients.includes(input.recipientWalletNumber)
+      )
+    ) {
+      throw new ApiKeyConstraintException(
+        'API_KEY_RECIPIENT_NOT_ALLOWED',
+        input.operation === 'withdraw'
+          ? 'This API key may only transfer to its allowed wallets'
+          : `This API key cannot transfer to wallet ${input.recipientWalletNumber}`,
+        { wallet_number: input.recipientWalletNumber ?? null },
+      );
+    }
+
+    const currency = apiKey.capCurrency;
+    const amount = this.toCapCurrency(
+      input.currency,
+      currency,
+      toMinorUnits(input.amount),
+    );
+
+    if (
+      apiKey.maxAmountPerTransaction !== null &&
+      amount > toMinorUnits(apiKey.maxAmountPerTransaction)
+    ) {
+      throw new ApiKeyConstraintException(
+        'API_KEY_TRANSACTION_CAP_EXCEEDED',
+        `This API key may move at most ${apiKey.maxAmountPerTransaction} ${currency} per transaction`,
+        { limit: apiKey.maxAmountPerTransaction, currency },
+      );
+    }
+
+    return amount;
+  }
+
+  private toCapCurrency(from: string, to: string, amount: bigint) {
+    return from === to
+      ? amount
+      : this.fxService.quote(from, to, amount).convertedAmount;
+  }
+
+  /**
+   * Limits and what is left of them for each operation, for the account and,
+   * when authenticated with one, the API key.
+   */
+  async getAllowance(
+    userId: string,
+    apiKeyId: string | undefined,
+    currency = DEFAULT_CURRENCY,
+  ) {
+    const wallet = await this.prisma.wallet.findUnique({ where: { userId } });
+
+    if (!wallet) {
+      throw new NotFoundException('Wallet not found');
+    }
+
+    const describe = async (
+      values: LimitValues,
+      operation: string,
+      where: Prisma.TransactionWhereInput,
+    ) => {
+      const usage = await this.getUsage(
+        this.prisma,
+        where,
+        operation,
+        currency,
+      );
+
+      return {
+        per_transaction: values.perTransaction,
+        daily: {
+          limit: values.daily,
+          used: usage.daily,
+          remaining:
+            values.daily === null
+              ? null
+              : remainingAmount(values.daily, usage.daily),
+        },
+        monthly: {
+          limit: values.monthly,
+          used: usage.monthly,
+          remaining:
+            values.monthly === null
+              ? null
+              : remainingAmount(values.monthly, usage.monthly),
+        },
+        ...(operation === 'transfer' && {
+          hourly_count: {
+            limit: values.hourlyCount,
+            used: usage.hourlyCount,
+            remaining:
+              values.hourlyCount === null
+                ? null
+                : Math.max(0, values.hourlyCount - usage.hourlyCount),
+          },
+        }),
+      };
+    };
+
+    const account: Record<string, unknown> = {};
+    const apiKey: Record<string, unknown> = {};
+
+    for (const operation of LIMIT_OPERATIONS) {
+      const limits = await this.resolveLimits(this.prisma, {
+        userId,
+        apiKeyId,
+        operation,
+        currency,
+      });
+
+      account[operation] = await describe(limits.account, operation, {
+        walletId: wallet.id,
+      });
+      apiKey[operation] = limits.apiKey
+        ? await describe(limits.apiKey, operation, {
+            walletId: wallet.id,
+            apiKeyId,
+          })
+        : null;
+    }
+
+    const now = new Date();
+    const nextDay = startOfDay(now);
+    nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+    const nextMonth = startOfMonth(now);
+    nextMonth.setUTCMonth(nextMonth.getUTCMonth() + 1);
+
+    return {
+      currency,
+      ...account,
+      api_key: apiKeyId ? apiKey : null,
+      daily_resets_at: nextDay.toISOString(),
+      monthly_resets_at: nextMonth.toISOString(),
+    };
+  }
+
+  async listLimits(query: ListLimitsQueryDto) {
+    const limits = await this.prisma.transactionLimit.findMany({
+      where: {
+        ...(query.scope && { scope: query.scope }),
+        ...(query.subject_id && { subjectId: query.subject_id }),
+      },
+      orderBy: [{ scope: 'asc' }, { subjectId: 'asc' }, { operation: 'asc' }],
+    });
+
+    return limits.map((limit) => this.toResponse(limit));
+  }
+
+  async setLimit(dto: SetAdminLimitDto) {
+    if (dto.scope === 'global') {
+      if (dto.subject_id) {
+        throw new BadRequestException('Global limits do not take a subject_id');
+      }
+      return this.upsertLimit('global', '', dto);
+    }
+
+    if (!dto.subject_id) {
+      throw new BadRequestException(
+        `subject_id is required for ${dto.scope} limits`,
+      );
+    }
+
+    const subject =
+      dto.scope === 'user'
+        ? await this.prisma.user.findUnique({ where: { id: dto.subject_id } })
+        : await this.prisma.apiKey.findUnique({
+            where: { id: dto.subject_id },
+          });
+
+    if (!subject) {
+      throw new NotFoundException(
+        dto.scope === 'user' ? 'User not found' : 'API key not found',
+      );
+    }
+
+    return this.upsertLimit(dto.scope, dto.subject_id, dto);
+  }
+
+  async deleteLimit(id: string) {
+    const { count } = await this.prisma.transactionLimit.deleteMany({
+      where: { id },
+    });
+
+    if (count === 0) {
+      throw new NotFoundException('Limit not found');
+    }
+
+    this.logger.log(`Transaction limit ${id} deleted`);
+    return { message: 'Limit deleted' };
+  }
+
+  private async findOwnedApiKey(userId: string, apiKeyId: string) {
+    const key = await this.prisma.apiKey.findFirst({
+      where: { id: apiKeyId, userId },
+    });
+
+    if (!key) {
+      throw new NotFoundException('API key not found');
+    }
+
+    return key;
+  }
+
+  async getApiKeyLimits(userId: string, apiKeyId: string) {
+    await this.findOwnedApiKey(userId, apiKeyId);
+    return this.listLimits({ scope: 'api_key', subject_id: apiKeyId });
+  }
+
+  /**
+   * Lets a user restrict one of their own keys. Account limits still apply,
+   * so a key limit can only narrow what the key may move.
+   */
+  async setApiKeyLimit(userId: string, apiKeyId: string, dto: SetLimitDto) {
+    await this.findOwnedApiKey(userId, apiKeyId);
+    return this.upsertLimit('api_key', apiKeyId, dto);
+  }
+
+  private async upsertLimit(
+    scope: string,
+    subjectId: string,
+    dto: SetLimitDto,
+  ) {
+    try {
+      if (dto.hourly_count !== undefined && dto.operation !== 'transfer') {
+        throw new BadRequestException('hourly_count only applies to transfers');
+      }
+
+      const currency = dto.currency ?? DEFAULT_CURRENCY;
+      const values = {
+        perTransaction: dto.per_transaction ?? null,
+        daily: dto.daily ?? null,
+        monthly: dto.monthly ?? null,
+        hourlyCount: dto.hourly_count ?? null,
+      };
+
+      const limit = await this.prisma.transactionLimit.upsert({
+        where: {
+          scope_subjectId_operation_currency: {
+            scope,
+            subjectId,
+            operation: dto.operation,
+            currency,
+          },
+        },
+        create: {
+          scope,
+          subjectId,
+          operation: dto.operation,
+          currency,
+          ...values,
+        },
+        update: values,
+      });
+
+      this.logger.log(
+        `Transaction limit set: ${scope}${subjectId ? ` ${subjectId}` : ''} ${dto.operation} ${currency}`,
+      );
+
+      return this.toResponse(limit);
+    } catch (error) {
+      this.logger.error('Error setting transaction limit', error);
+      throw error;
+    }
+  }
+}
+
+function startOfDay(date: Date) {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+  );
+}
+
+function startOfMonth(date: Date) {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+function remainingAmount(limit: number, used: number) {
+  const remaining = toMinorUnits(limit) - toMinorUnits(used);
+  return fromMinorUnits(remaining > 0n ? remaining : 0n);
+}
@@ -1,10 +1,25 @@
 import { NestFactory } from '@nestjs/core';
 import { ValidationPipe } from '@nestjs/common';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
 import { AppModule } from './app.module';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  // The raw body is kept for webhook signature verification.
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
+    rawBody: true,
+  });
+
+  // Lets API key IP allowlists see the client address behind a proxy.
+  const trustProxy = process.env.TRUST_PROXY;
+  if (trustProxy) {
+    app.set(
+      'trust proxy',
+      /^\d+$/.test(trustProxy)
+        ? Number(trustProxy)
+        : trustProxy === 'true' || trustProxy,
+    );
+  }
 
   app.useGlobalPipes(
     new ValidationPipe({
@@ -38,10 +53,21 @@ async function bootstrap() {
       },
       'x-api-key',
     )
+    .addApiKey(
+      {
+        type: 'apiKey',
+        in: 'header',
+        name: 'x-admin-key',
+        description: 'Operator key (ADMIN_API_KEY) for admin endpoints',
+      },
+      'x-admin-key',
+    )
     .build();
 
   const document = SwaggerModule.createDocument(app, config);
-  SwaggerModule.setup('api/docs', app, document);
+  SwaggerModule.setup('api/docs', app, document, {
+    swaggerOptions: { showExtensions: true },
+  });
 
   await app.listen(process.env.PORT || 3000);
   console.log(
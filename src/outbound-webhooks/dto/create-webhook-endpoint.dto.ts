@@ -0,0 +1,32 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsIn,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+} from 'class-validator';
+
+export const OUTBOUND_WEBHOOK_EVENTS = [
+  'deposit.succeeded',
+  'transfer.sent',
+  'transfer.received',
+  'invoice.paid',
+  'api_key.expiring',
+];
+
+export class CreateWebhookEndpointDto {
+  @IsUrl({ protocols: ['https'], require_protocol: true, require_tld: true })
+  url: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(OUTBOUND_WEBHOOK_EVENTS, { each: true })
+  events: string[];
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  description?: string;
+}
@@ -0,0 +1,32 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+} from 'class-validator';
+import { OUTBOUND_WEBHOOK_EVENTS } from './create-webhook-endpoint.dto';
+
+export class UpdateWebhookEndpointDto {
+  @IsOptional()
+  @IsUrl({ protocols: ['https'], require_protocol: true, require_tld: true })
+  url?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(OUTBOUND_WEBHOOK_EVENTS, { each: true })
+  events?: string[];
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  description?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+}
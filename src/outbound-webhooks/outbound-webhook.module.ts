@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { OutboundWebhookService } from './outbound-webhook.service';
+import { WebhookEndpointService } from './webhook-endpoint.service';
+import { WebhookEndpointController } from './webhook-endpoint.controller';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/logger/logger.service';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [AuthModule],
+  controllers: [WebhookEndpointController],
+  providers: [
+    OutboundWebhookService,
+    WebhookEndpointService,
+    PrismaService,
+    LoggerService,
+  ],
+  exports: [OutboundWebhookService],
+})
+export class OutboundWebhookModule {}
@@ -0,0 +1,315 @@
+import { Injectable } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Prisma, WebhookDelivery, WebhookEndpoint } from '@prisma/client';
+import axios from 'axios';
+import * as crypto from 'crypto';
+import * as dns from 'dns';
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/logger/logger.service';
+import { backoffDelayMs } from '../common/utils/backoff';
+import { isPublicIp } from '../common/utils/ip-ranges';
+
+export interface OutboundWebhookEvent {
+  userId: string;
+  type: string;
+  // Stable per event, so enqueueing the same event twice is a no-op.
+  id: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Resolves endpoint hosts for the delivery agents and refuses any that point
+ * at a private network, so a registered URL cannot reach internal services
+ * or cloud metadata. The checked address is the one connected to, so the
+ * host cannot be re-pointed between the check and the request.
+ */
+const publicOnlyLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, []);
+      return;
+    }
+
+    const blocked = addresses.find(({ address }) => !isPublicIp(address));
+    if (blocked || addresses.length === 0) {
+      callback(
+        new Error(
+          `${hostname} resolves to non-public address ${blocked?.address ?? 'none'}`,
+        ),
+        [],
+      );
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/**
+ * Delivers events to the endpoints users register. Events are written as
+ * WebhookDelivery rows in the same database transaction as the change they
+ * describe, then sent in the background with exponential backoff.
+ */
+@Injectable()
+export class OutboundWebhookService {
+  private readonly MAX_ATTEMPTS = Number(
+    process.env.OUTBOUND_WEBHOOK_MAX_ATTEMPTS || 8,
+  );
+  private readonly RETRY_BASE_MS = Number(
+    process.env.OUTBOUND_WEBHOOK_RETRY_BASE_MS || 60 * 1000,
+  );
+  private readonly TIMEOUT_MS = 10 * 1000;
+  private readonly STALE_DELIVERY_MS = 5 * 60 * 1000;
+  private readonly BATCH_SIZE = 100;
+  private readonly EXPIRY_NOTICE_HOURS = Number(
+    process.env.API_KEY_EXPIRY_NOTICE_HOURS || 72,
+  );
+  private ticking = false;
+  private httpAgent = new http.Agent({ lookup: publicOnlyLookup });
+  private httpsAgent = new https.Agent({ lookup: publicOnlyLookup });
+
+  constructor(
+    private prisma: PrismaService,
+    private logger: LoggerService,
+  ) {}
+
+  async enqueue(
+    tx: Prisma.TransactionClient,
+    event: OutboundWebhookEvent,
+  ): Promise<void> {
+    const endpoints = await tx.webhookEndpoint.findMany({
+      where: {
+        userId: event.userId,
+        enabled: true,
+        events: { has: event.type },
+      },
+    });
+
+    if (endpoints.length === 0) return;
+
+    const payload = {
+      id: event.id,
+      type: event.type,
+      created_at: new Date().toISOString(),
+      data: event.data,
+    } as Prisma.InputJsonObject;
+
+    await tx.webhookDelivery.createMany({
+      data: endpoints.map((endpoint) => ({
+        endpointId: endpoint.id,
+        eventId: event.id,
+        eventType: event.type,
+        payload,
+      })),
+      skipDuplicates: true,
+    });
+  }
+
+  /**
+   * `X-Wallet-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "t.body">`.
+   * Including the timestamp lets receivers reject replayed deliveries.
+   */
+  sign(secret: string, timestamp: number, body: string) {
+    const signature = crypto
+      .createHmac('sha256', secret)
+      .update(`${timestamp}.${body}`)
+      .digest('hex');
+    return `t=${timestamp},v1=${signature}`;
+  }
+
+  @Cron(CronExpression.EVERY_30_SECONDS)
+  async tick() {
+    if (this.ticking) return;
+
+    this.ticking = true;
+    try {
+      await this.deliverDue();
+    } catch (error) {
+      this.logger.error('Error delivering outbound webhooks', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  async deliverDue(now: Date = new Date()) {
+    const due = await this.prisma.webhookDelivery.findMany({
+      where: {
+        OR: [
+          { status: 'pending', nextAttemptAt: { lte: now } },
+          {
+            status: 'delivering',
+            updatedAt: {
+              lt: new Date(now.getTime() - this.STALE_DELIVERY_MS),
+            },
+          },
+        ],
+      },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: this.BATCH_SIZE,
+    });
+
+    for (const delivery of due) {
+      // Claim the delivery so two instances never send it at the same time.
+      const claimed = await this.prisma.webhookDelivery.updateMany({
+        where: {
+          id: delivery.id,
+          status: delivery.status,
+          updatedAt: delivery.updatedAt,
+        },
+        data: { status: 'delivering' },
+      });
+
+      if (claimed.count === 0) continue;
+
+      await this.attempt(delivery.id);
+    }
+  }
+
+  /**
+   * Sends a delivery right away, restarting its retry schedule. Deliveries
+   * being sent at the moment are left alone.
+   */
+  async redeliver(deliveryId: string) {
+    const claimed = await this.prisma.webhookDelivery.updateMany({
+      where: { id: deliveryId, status: { not: 'delivering' } },
+      data: { status: 'delivering', attempts: 0 },
+    });
+
+    if (claimed.count === 0) return null;
+
+    return this.attempt(deliveryId);
+  }
+
+  private async attempt(deliveryId: string): Promise<WebhookDelivery> {
+    const delivery = await this.prisma.webhookDelivery.findUniqueOrThrow({
+      where: { id: deliveryId },
+      include: { endpoint: true },
+    });
+    const attempts = delivery.attempts + 1;
+
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+
+    if (!delivery.endpoint.enabled) {
+      error = 'Endpoint is disabled';
+    } else {
+      try {
+        responseStatus = await this.send(delivery, delivery.endpoint);
+        if (responseStatus < 200 || responseStatus >= 300) {
+          error = `Endpoint responded with ${responseStatus}`;
+        }
+      } catch (err) {
+        error = err instanceof Error ? err.message : String(err);
+      }
+    }
+
+    if (!error) {
+      return this.prisma.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: {
+          status: 'succeeded',
+          attempts,
+          responseStatus,
+          lastError: null,
+          deliveredAt: new Date(),
+        },
+      });
+    }
+
+    const retryable = attempts < this.MAX_ATTEMPTS && delivery.endpoint.enabled;
+
+    this.logger.warn(
+      `Webhook delivery ${delivery.id} to ${delivery.endpoint.url} failed (attempt ${attempts}): ${error}`,
+    );
+
+    return this.prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: retryable ? 'pending' : 'failed',
+        attempts,
+        responseStatus,
+        lastError: error,
+        ...(retryable && {
+          nextAttemptAt: new Date(
+            Date.now() + backoffDelayMs(this.RETRY_BASE_MS, attempts),
+          ),
+        }),
+      },
+    });
+  }
+
+  private async send(delivery: WebhookDelivery, endpoint: WebhookEndpoint) {
+    // Addresses in the URL are never looked up, so check them here.
+    const host = new URL(endpoint.url).hostname.replace(/^\[|\]$/g, '');
+    if (net.isIP(host) && !isPublicIp(host)) {
+      throw new Error(`${host} is not a public address`);
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    const response = await axios.post(endpoint.url, body, {
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Wallet-Webhooks/1.0',
+        'X-Wallet-Event': delivery.eventType,
+        'X-Wallet-Delivery': delivery.id,
+        'X-Wallet-Signature': this.sign(endpoint.secret, timestamp, body),
+      },
+      timeout: this.TIMEOUT_MS,
+      maxRedirects: 0,
+      httpAgent: this.httpAgent,
+      httpsAgent: this.httpsAgent,
+      // A proxy would resolve the host itself, skipping the check.
+      proxy: false,
+      validateStatus: () => true,
+    });
+
+    return response.status;
+  }
+
+  /**
+   * Sends `api_key.expiring` once per key, `API_KEY_EXPIRY_NOTICE_HOURS`
+   * (default 72) before it expires.
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async notifyExpiringApiKeys() {
+    try {
+      const now = new Date();
+      const keys = await this.prisma.apiKey.findMany({
+        where: {
+          revokedAt: null,
+          rolledOverAt: null,
+          expiresAt: {
+            gt: now,
+            lte: new Date(
+              now.getTime() + this.EXPIRY_NOTICE_HOURS * 60 * 60 * 1000,
+            ),
+          },
+        },
+      });
+
+      for (const key of keys) {
+        await this.enqueue(this.prisma, {
+          userId: key.userId,
+          type: 'api_key.expiring',
+          id: `api_key.expiring:${key.id}`,
+          data: {
+            id: key.id,
+            name: key.name,
+            expires_at: key.expiresAt.toISOString(),
+          },
+        });
+      }
+    } catch (error) {
+      this.logger.error('Error notifying expiring API keys', error);
+    }
+  }
+}
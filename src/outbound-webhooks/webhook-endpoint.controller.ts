@@ -0,0 +1,233 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { WebhookEndpointService } from './webhook-endpoint.service';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import {
+  type AuthenticatedUser,
+  CurrentUser,
+} from '../common/decorators/current-user.decorator';
+import { CreateWebhookEndpointDto } from './dto/create-webhook-endpoint.dto';
+import { UpdateWebhookEndpointDto } from './dto/update-webhook-endpoint.dto';
+import {
+  ListWebhookDeliveriesQueryDto,
+  WEBHOOK_DELIVERY_STATUSES,
+} from './dto/list-webhook-deliveries-query.dto';
+
+const ENDPOINT_EXAMPLE = {
+  id: 'whe_123abc',
+  url: 'https://example.com/hooks/wallet',
+  events: ['deposit.succeeded', 'transfer.received'],
+  description: 'Order service',
+  enabled: true,
+  created_at: '2025-01-15T10:00:00.000Z',
+  updated_at: '2025-01-15T10:00:00.000Z',
+};
+
+const DELIVERY_EXAMPLE = {
+  id: 'whd_456def',
+  endpoint_id: 'whe_123abc',
+  event_id: 'transfer.received:clx9transfer',
+  event_type: 'transfer.received',
+  status: 'pending',
+  attempts: 2,
+  response_status: 503,
+  last_error: 'Endpoint responded with 503',
+  next_attempt_at: '2025-01-15T10:04:00.000Z',
+  delivered_at: null,
+  created_at: '2025-01-15T10:00:00.000Z',
+  payload: {
+    id: 'transfer.received:clx9transfer',
+    type: 'transfer.received',
+    created_at: '2025-01-15T10:00:00.000Z',
+    data: {
+      reference: 'transfer_user123_user456_1704099600000_a1b2c3d4',
+      amount: 2500,
+      currency: 'NGN',
+      sender_name: 'Jane Doe',
+      sender_wallet_number: '4566678954356',
+    },
+  },
+};
+
+@ApiTags('Webhooks')
+@ApiBearerAuth('access-token')
+@Controller('webhooks')
+@UseGuards(JwtAuthGuard)
+export class WebhookEndpointController {
+  constructor(private webhookEndpointService: WebhookEndpointService) {}
+
+  @Post('endpoints')
+  @ApiOperation({
+    summary: 'Register a webhook endpoint',
+    description:
+      'Events are POSTed as JSON and signed with the returned secret: `X-Wallet-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`. The secret is only shown once. Maximum 10 endpoints per user.',
+  })
+  @ApiBody({
+    type: CreateWebhookEndpointDto,
+    examples: {
+      example1: {
+        summary: 'Incoming money',
+        value: {
+          url: 'https://example.com/hooks/wallet',
+          events: ['deposit.succeeded', 'transfer.received'],
+          description: 'Order service',
+        },
+      },
+      example2: {
+        summary: 'Key expiry reminders',
+        value: {
+          url: 'https://example.com/hooks/keys',
+          events: ['api_key.expiring'],
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Endpoint registered',
+    schema: {
+      example: {
+        ...ENDPOINT_EXAMPLE,
+        secret: 'whsec_3f9a1c0e7b2d4a6f8e1c3b5d7f9a2c4e6b8d0f1a3c5e7b9d',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid URL or event, or endpoint limit reached',
+  })
+  async createEndpoint(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() dto: CreateWebhookEndpointDto,
+  ) {
+    return this.webhookEndpointService.createEndpoint(user.id, dto);
+  }
+
+  @Get('endpoints')
+  @ApiOperation({ summary: 'List webhook endpoints' })
+  @ApiResponse({
+    status: 200,
+    description: 'Endpoints retrieved',
+    schema: { example: [ENDPOINT_EXAMPLE] },
+  })
+  async listEndpoints(@CurrentUser() user: AuthenticatedUser) {
+    return this.webhookEndpointService.listEndpoints(user.id);
+  }
+
+  @Patch('endpoints/:id')
+  @ApiOperation({
+    summary: 'Update a webhook endpoint',
+    description: 'Change the URL or events, or pause it with `enabled: false`.',
+  })
+  @ApiBody({
+    type: UpdateWebhookEndpointDto,
+    examples: {
+      pause: { summary: 'Pause deliveries', value: { enabled: false } },
+      events: {
+        summary: 'Change events',
+        value: { events: ['transfer.sent', 'transfer.received'] },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Endpoint updated',
+    schema: { example: ENDPOINT_EXAMPLE },
+  })
+  @ApiResponse({ status: 404, description: 'Webhook endpoint not found' })
+  async updateEndpoint(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+    @Body() dto: UpdateWebhookEndpointDto,
+  ) {
+    return this.webhookEndpointService.updateEndpoint(user.id, id, dto);
+  }
+
+  @Delete('endpoints/:id')
+  @ApiOperation({ summary: 'Delete a webhook endpoint and its delivery log' })
+  @ApiResponse({
+    status: 200,
+    description: 'Endpoint deleted',
+    schema: { example: { message: 'Webhook endpoint deleted' } },
+  })
+  @ApiResponse({ status: 404, description: 'Webhook endpoint not found' })
+  async deleteEndpoint(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ) {
+    return this.webhookEndpointService.deleteEndpoint(user.id, id);
+  }
+
+  @Get('endpoints/:id/deliveries')
+  @ApiOperation({
+    summary: 'Delivery log for an endpoint',
+    description:
+      'Newest first. Failed attempts are retried with exponential backoff until they succeed or run out of attempts.',
+  })
+  @ApiQuery({
+    name: 'status',
+    required: false,
+    enum: WEBHOOK_DELIVERY_STATUSES,
+  })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Deliveries retrieved',
+    schema: { example: [DELIVERY_EXAMPLE] },
+  })
+  @ApiResponse({ status: 404, description: 'Webhook endpoint not found' })
+  async listDeliveries(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+    @Query() query: ListWebhookDeliveriesQueryDto,
+  ) {
+    return this.webhookEndpointService.listDeliveries(user.id, id, query);
+  }
+
+  @Post('deliveries/:id/redeliver')
+  @ApiOperation({
+    summary: 'Redeliver an event',
+    description:
+      'Sends the delivery again right away and restarts its retry schedule.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Delivery attempted; `status` shows the outcome',
+    schema: {
+      example: {
+        ...DELIVERY_EXAMPLE,
+        status: 'succeeded',
+        attempts: 1,
+        response_status: 200,
+        last_error: null,
+        next_attempt_at: null,
+        delivered_at: '2025-01-15T10:05:00.000Z',
+      },
+    },
+  })
+  @ApiResponse({ status: 404, description: 'Webhook delivery not found' })
+  @ApiResponse({ status: 409, description: 'Delivery is being sent right now' })
+  async redeliver(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ) {
+    return this.webhookEndpointService.redeliver(user.id, id);
+  }
+}
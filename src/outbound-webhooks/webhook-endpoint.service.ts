@@ -0,0 +1,205 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { WebhookDelivery, WebhookEndpoint } from '@prisma/client';
+import * as crypto from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/logger/logger.service';
+import { OutboundWebhookService } from './outbound-webhook.service';
+import { CreateWebhookEndpointDto } from './dto/create-webhook-endpoint.dto';
+import { UpdateWebhookEndpointDto } from './dto/update-webhook-endpoint.dto';
+import { ListWebhookDeliveriesQueryDto } from './dto/list-webhook-deliveries-query.dto';
+
+@Injectable()
+export class WebhookEndpointService {
+  private readonly MAX_ENDPOINTS = 10;
+
+  constructor(
+    private prisma: PrismaService,
+    private logger: LoggerService,
+    private outboundWebhookService: OutboundWebhookService,
+  ) {}
+
+  private toResponse(endpoint: WebhookEndpoint) {
+    return {
+      id: endpoint.id,
+      url: endpoint.url,
+      events: endpoint.events,
+      description: endpoint.description,
+      enabled: endpoint.enabled,
+      created_at: endpoint.createdAt.toISOString(),
+      updated_at: endpoint.updatedAt.toISOString(),
+    };
+  }
+
+  private toDeliveryResponse(delivery: WebhookDelivery) {
+    return {
+      id: delivery.id,
+      endpoint_id: delivery.endpointId,
+      event_id: delivery.eventId,
+      event_type: delivery.eventType,
+      status: delivery.status,
+      attempts: delivery.attempts,
+      response_status: delivery.responseStatus,
+      last_error: delivery.lastError,
+      next_attempt_at:
+        delivery.status === 'pending'
+          ? delivery.nextAttemptAt.toISOString()
+          : null,
+      delivered_at: delivery.deliveredAt?.toISOString() || null,
+      created_at: delivery.createdAt.toISOString(),
+      payload: delivery.payload,
+    };
+  }
+
+  private async findOwned(userId: string, endpointId: string) {
+    const endpoint = await this.prisma.webhookEndpoint.findFirst({
+      where: { id: endpointId, userId },
+    });
+
+    if (!endpoint) {
+      throw new NotFoundException('Webhook endpoint not found');
+    }
+
+    return endpoint;
+  }
+
+  async createEndpoint(userId: string, dto: CreateWebhookEndpointDto) {
+    try {
+      const count = await this.prisma.webhookEndpoint.count({
+        where: { userId },
+      });
+
+      if (count >= this.MAX_ENDPOINTS) {
+        throw new BadRequestException(
+          `Maximum ${this.MAX_ENDPOINTS} webhook endpoints allowed per user`,
+        );
+      }
+
+      const secret = `whsec_${crypto.randomBytes(24).toString('hex')}`;
+      const endpoint = await this.prisma.webhookEndpoint.create({
+        data: {
+          userId,
+          url: dto.url,
+          events: [...new Set(dto.events)],
+          description: dto.description,
+          secret,
+        },
+      });
+
+      this.logger.log(
+        `Webhook endpoint created for user ${userId}: ${endpoint.id}`,
+      );
+
+      // The secret is only shown once.
+      return { ...this.toResponse(endpoint), secret };
+    } catch (error) {
+      this.logger.error('Error creating webhook endpoint', error);
+      throw error;
+    }
+  }
+
+  async listEndpoints(userId: string) {
+    const endpoints = await this.prisma.webhookEndpoint.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return endpoints.map((endpoint) => this.toResponse(endpoint));
+  }
+
+  async updateEndpoint(
+    userId: string,
+    endpointId: string,
+    dto: UpdateWebhookEndpointDto,
+  ) {
+    try {
+      await this.findOwned(userId, endpointId);
+
+      const endpoint = await this.prisma.webhookEndpoint.update({
+        where: { id: endpointId },
+        data: {
+          url: dto.url,
+          events: dto.events && [...new Set(dto.events)],
+          description: dto.description,
+          enabled: dto.enabled,
+        },
+      });
+
+      this.logger.log(
+        `Webhook endpoint updated for user ${userId}: ${endpoint.id}`,
+      );
+
+      return this.toResponse(endpoint);
+    } catch (error) {
+      this.logger.error('Error updating webhook endpoint', error);
+      throw error;
+    }
+  }
+
+  async deleteEndpoint(userId: string, endpointId: string) {
+    try {
+      await this.findOwned(userId, endpointId);
+      await this.prisma.webhookEndpoint.delete({ where: { id: endpointId } });
+
+      this.logger.log(
+        `Webhook endpoint deleted for user ${userId}: ${endpointId}`,
+      );
+
+      return { message: 'Webhook endpoint deleted' };
+    } catch (error) {
+      this.logger.error('Error deleting webhook endpoint', error);
+      throw error;
+    }
+  }
+
+  async listDeliveries(
+    userId: string,
+    endpointId: string,
+    query: ListWebhookDeliveriesQueryDto,
+  ) {
+    await this.findOwned(userId, endpointId);
+
+    const deliveries = await this.prisma.webhookDelivery.findMany({
+      where: {
+        endpointId,
+        ...(query.status && { status: query.status }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: query.limit ?? 50,
+    });
+
+    return deliveries.map((delivery) => this.toDeliveryResponse(delivery));
+  }
+
+  async redeliver(userId: string, deliveryId: string) {
+    try {
+      const delivery = await this.prisma.webhookDelivery.findFirst({
+        where: { id: deliveryId, endpoint: { userId } },
+      });
+
+      if (!delivery) {
+        throw new NotFoundException('Webhook delivery not found');
+      }
+
+      const redelivered =
+        await this.outboundWebhookService.redeliver(deliveryId);
+
+      if (!redelivered) {
+        throw new ConflictException('Delivery is being sent right now');
+      }
+
+      this.logger.log(
+        `Webhook delivery ${deliveryId} redelivered by ${userId}: ${redelivered.status}`,
+      );
+
+      return this.toDeliveryResponse(redelivered);
+    } catch (error) {
+      this.logger.error('Error redelivering webhook', error);
+      throw error;
+    }
+  }
+}
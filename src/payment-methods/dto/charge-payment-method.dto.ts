@@ -0,0 +1,13 @@
+import { IsNumber, IsPositive, Min, IsOptional, IsIn } from 'class-validator';
+import { SUPPORTED_CURRENCIES } from '../../common/utils/money';
+
+export class ChargePaymentMethodDto {
+  @IsNumber()
+  @IsPositive()
+  @Min(1)
+  amount: number;
+
+  @IsOptional()
+  @IsIn(SUPPORTED_CURRENCIES)
+  currency?: string;
+}
@@ -0,0 +1,145 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Delete,
+  Body,
+  Param,
+  UseInterceptors,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+  ApiHeader,
+} from '@nestjs/swagger';
+import { PaymentMethodService } from './payment-method.service';
+import { IdempotencyInterceptor } from '../common/interceptors/idempotency.interceptor';
+import {
+  type AuthenticatedUser,
+  CurrentUser,
+} from '../common/decorators/current-user.decorator';
+import { RequirePermissions } from '../common/decorators/require-permissions.decorator';
+import { RateLimit } from '../rate-limits/rate-limit.decorator';
+import { ApiKeyId } from '../common/decorators/api-key-id.decorator';
+import { ChargePaymentMethodDto } from './dto/charge-payment-method.dto';
+
+const PAYMENT_METHOD_EXAMPLE = {
+  id: 'pm_123abc',
+  provider: 'paystack',
+  brand: 'visa',
+  bin: '408408',
+  last4: '4081',
+  exp_month: '12',
+  exp_year: '2030',
+  bank: 'TEST BANK',
+  reusable: true,
+  expired: false,
+  last_used_at: null,
+  created_at: '2025-01-15T10:00:00.000Z',
+};
+
+@ApiTags('Payment Methods')
+@Controller('wallet/payment-methods')
+export class PaymentMethodController {
+  constructor(private paymentMethodService: PaymentMethodService) {}
+
+  @Get()
+  @RequirePermissions('read')
+  @ApiOperation({
+    summary: 'List saved cards',
+    description:
+      'Cards are saved automatically when a Paystack deposit succeeds with a reusable card.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Saved cards retrieved',
+    schema: { example: [PAYMENT_METHOD_EXAMPLE] },
+  })
+  async listPaymentMethods(@CurrentUser() user: AuthenticatedUser) {
+    return this.paymentMethodService.listPaymentMethods(user.id);
+  }
+
+  @Delete(':id')
+  @RequirePermissions('deposit')
+  @ApiOperation({
+    summary: 'Delete a saved card',
+    description:
+      'Removes the card and revokes its authorization with Paystack.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Saved card deleted',
+    schema: { example: { message: 'Payment method deleted' } },
+  })
+  @ApiResponse({ status: 404, description: 'Payment method not found' })
+  async deletePaymentMethod(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ) {
+    return this.paymentMethodService.deletePaymentMethod(user.id, id);
+  }
+
+  @Post(':id/charge')
+  @RequirePermissions('deposit')
+  @RateLimit('deposits')
+  @UseInterceptors(IdempotencyInterceptor)
+  @ApiHeader({
+    name: 'Idempotency-Key',
+    required: false,
+    description:
+      'Unique key for safely retrying this request. A repeat with the same key returns the saved response.',
+  })
+  @ApiOperation({
+    summary: 'Deposit with a saved card',
+    description:
+      'Charges the saved card without a checkout. The deposit is usually `success` or `failed` in the response; if it is still `pending`, it is credited when Paystack sends the `charge.success` webhook.',
+  })
+  @ApiBody({
+    type: ChargePaymentMethodDto,
+    examples: {
+      example1: {
+        summary: 'Top up 5000 Naira',
+        value: { amount: 5000 },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Card charged',
+    schema: {
+      example: {
+        reference: 'wallet_user123_1704099600000_a1b2c3d4',
+        status: 'success',
+        amount: 5000,
+        currency: 'NGN',
+        payment_method_id: 'pm_123abc',
+        gateway_response: 'Approved',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Card expired or not reusable, or Paystack not enabled',
+  })
+  @ApiResponse({ status: 404, description: 'Payment method not found' })
+  @ApiResponse({
+    status: 409,
+    description:
+      'Idempotency-Key already used with a different request, or still being processed',
+  })
+  async chargePaymentMethod(
+    @CurrentUser() user: AuthenticatedUser,
+    @ApiKeyId() apiKeyId: string | undefined,
+    @Param('id') id: string,
+    @Body() dto: ChargePaymentMethodDto,
+  ) {
+    return this.paymentMethodService.chargePaymentMethod(
+      user.id,
+      id,
+      dto,
+      apiKeyId,
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { Module } from '@nestjs/common';
+import { PaymentMethodService } from './payment-method.service';
+import { PaymentMethodController } from './payment-method.controller';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/logger/logger.service';
+import { PaystackService } from '../paystack/paystack.service';
+import { CommonModule } from '../common/common.module';
+import { AuthModule } from '../auth/auth.module';
+import { WalletModule } from '../wallet/wallet.module';
+import { PaymentsModule } from '../payments/payments.module';
+import { LimitModule } from '../limits/limit.module';
+
+@Module({
+  imports: [
+    AuthModule,
+    CommonModule,
+    WalletModule,
+    PaymentsModule,
+    LimitModule,
+  ],
+  controllers: [PaymentMethodController],
+  providers: [
+    PaymentMethodService,
+    PrismaService,
+    LoggerService,
+    PaystackService,
+  ],
+})
+export class PaymentMethodModule {}
@@ -0,0 +1,233 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { PaymentMethod } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/logger/logger.service';
+import { PaystackService } from '../paystack/paystack.service';
+import { PaymentProviderRegistry } from '../payments/payment-provider.registry';
+import { WalletService } from '../wallet/wallet.service';
+import { LimitService } from '../limits/limit.service';
+import { DEFAULT_CURRENCY, toMinorUnits } from '../common/utils/money';
+import { ChargePaymentMethodDto } from './dto/charge-payment-method.dto';
+import * as crypto from 'crypto';
+
+/**
+ * Cards saved from successful Paystack deposits. Saved cards are charged
+ * without a checkout, but the deposit is still credited by the same
+ * idempotent `charge.success` handling as a regular one.
+ */
+@Injectable()
+export class PaymentMethodService {
+  constructor(
+    private prisma: PrismaService,
+    private logger: LoggerService,
+    private paystackService: PaystackService,
+    private paymentProviders: PaymentProviderRegistry,
+    private walletService: WalletService,
+    private limitService: LimitService,
+  ) {}
+
+  // Cards are valid until the end of their expiry month.
+  private isExpired(method: PaymentMethod) {
+    const now = new Date();
+    const year = Number(method.expYear);
+    const month = Number(method.expMonth);
+    return (
+      year < now.getUTCFullYear() ||
+      (year === now.getUTCFullYear() && month < now.getUTCMonth() + 1)
+    );
+  }
+
+  private toResponse(method: PaymentMethod) {
+    return {
+      id: method.id,
+      provider: method.provider,
+      brand: method.brand,
+      bin: method.bin,
+      last4: method.last4,
+      exp_month: method.expMonth,
+      exp_year: method.expYear,
+      bank: method.bank,
+      reusable: method.reusable,
+      expired: this.isExpired(method),
+      last_used_at: method.lastUsedAt?.toISOString() || null,
+      created_at: method.createdAt.toISOString(),
+    };
+  }
+
+  private async findOwned(userId: string, id: string) {
+    const method = await this.prisma.paymentMethod.findFirst({
+      where: { id, userId },
+    });
+
+    if (!method) {
+      throw new NotFoundException('Payment method not found');
+    }
+
+    return method;
+  }
+
+  async listPaymentMethods(userId: string) {
+    const methods = await this.prisma.paymentMethod.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return methods.map((method) => this.toResponse(method));
+  }
+
+  async deletePaymentMethod(userId: string, id: string) {
+    try {
+      const method = await this.findOwned(userId, id);
+
+      // Removing the card locally is what stops it being charged, so a
+      // failure to revoke it at Paystack is logged rather than surfaced.
+      if (this.paystackService.isConfigured()) {
+        try {
+          await this.paystackService.deactivateAuthorization(
+            method.authorizationCode,
+          );
+        } catch {
+          this.logger.warn(
+            `Paystack authorization not deactivated for payment method ${method.id}`,
+          );
+        }
+      }
+
+      await this.prisma.paymentMethod.delete({ where: { id: method.id } });
+
+      this.logger.log(`Payment method deleted for user ${userId}: ${id}`);
+
+      return { message: 'Payment method deleted' };
+    } catch (error) {
+      this.logger.error('Error deleting payment method', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Tops up the wallet from a saved card. Paystack usually settles the charge
+   * immediately and the result is applied straight away; otherwise the
+   * deposit stays pending until the webhook or reconciliation picks it up.
+   */
+  async chargePaymentMethod(
+    userId: string,
+    id: string,
+    dto: ChargePaymentMethodDto,
+    apiKeyId?: string,
+  ) {
+    try {
+      const method = await this.findOwned(userId, id);
+
+      if (!method.reusable) {
+        throw new BadRequestException('This card cannot be charged again');
+      }
+
+      if (this.isExpired(method)) {
+        throw new BadRequestException('This card has expired');
+      }
+
+      if (!this.paymentProviders.has(method.provider)) {
+        throw new BadRequestException(
+          `Payment provider ${method.provider} is not enabled`,
+        );
+      }
+
+      const wallet = await this.prisma.wallet.findUnique({
+        where: { userId },
+        include: { user: true },
+      });
+
+      if (!wallet) {
+        throw new NotFoundException('Wallet not found');
+      }
+
+      const currency = dto.currency ?? DEFAULT_CURRENCY;
+      const reference = `wallet_${userId}_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`;
+
+      // Record the deposit first so a webhook that beats the API response
+      // finds it, with the limit check in the same database transaction.
+      const transaction = await this.prisma.$transaction(async (tx) => {
+        await this.limitService.assertWithinLimits(tx, {
+          userId,
+          walletId: wallet.id,
+          apiKeyId,
+          operation: 'deposit',
+          currency,
+          amount: dto.amount,
+        });
+
+        return tx.transaction.create({
+          data: {
+            walletId: wallet.id,
+            type: 'deposit',
+            direction: 'in',
+            amount: dto.amount,
+            currency,
+            reference,
+            provider: method.provider,
+            providerRef: reference,
+            status: 'pending',
+            apiKeyId,
+            metadata: { paymentMethodId: method.id },
+          },
+        });
+      });
+
+      let charge: Awaited<ReturnType<PaystackService['chargeAuthorization']>>;
+      try {
+        charge = await this.paystackService.chargeAuthorization({
+          email: wallet.user.email,
+          amount: Number(toMinorUnits(dto.amount)),
+          currency,
+          reference,
+          authorizationCode: method.authorizationCode,
+          metadata: { userId, walletId: wallet.id },
+        });
+      } catch (error) {
+        await this.prisma.transaction.updateMany({
+          where: { id: transaction.id, status: 'pending' },
+          data: { status: 'failed' },
+        });
+        throw error;
+      }
+
+      await this.prisma.paymentMethod.update({
+        where: { id: method.id },
+        data: { lastUsedAt: new Date() },
+      });
+
+      if (charge.status === 'success' || charge.status === 'failed') {
+        await this.walletService.handlePaymentEvent({
+          provider: method.provider,
+          id: `charge_authorization:${reference}`,
+          type: `charge.${charge.status}`,
+          data: charge,
+        });
+      }
+
+      const { status } = await this.prisma.transaction.findUniqueOrThrow({
+        where: { id: transaction.id },
+      });
+
+      this.logger.log(
+        `Saved card deposit for user ${userId}: ${dto.amount} ${currency}, reference: ${reference}, status: ${status}`,
+      );
+
+      return {
+        reference,
+        status,
+        amount: dto.amount,
+        currency,
+        payment_method_id: method.id,
+        gateway_response: charge.gateway_response ?? null,
+      };
+    } catch (error) {
+      this.logger.error('Error charging payment method', error);
+      throw error;
+    }
+  }
+}
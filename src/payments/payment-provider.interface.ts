@@ -0,0 +1,60 @@
+export const PAYMENT_PROVIDER_NAMES = ['paystack', 'paypal', 'fake'];
+
+export interface InitializePaymentInput {
+  email: string;
+  amount: number; // minor units
+  currency: string;
+  reference: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface InitializedPayment {
+  reference: string; // the provider's reference, stored as providerRef
+  authorization_url: string;
+}
+
+export interface PaymentVerification {
+  // `approved`: authorized by the customer but not yet captured.
+  status: 'success' | 'failed' | 'abandoned' | 'pending' | 'approved';
+  reference: string;
+  amount: number; // minor units
+  currency: string;
+}
+
+/**
+ * A provider event in the wallet's vocabulary (`charge.success`,
+ * `charge.failed`, ...). `id` is unique per provider and is used to reject
+ * duplicate deliveries.
+ */
+export interface PaymentEvent {
+  provider: string;
+  id: string;
+  type: string;
+  data: unknown;
+}
+
+/**
+ * `data` of a `charge.success` event. `charge.failed` and `charge.approved`
+ * carry only the reference. Providers may add their own fields.
+ */
+export interface ChargeEventData {
+  reference: string;
+  amount: number; // minor units
+  currency: string;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  readonly signatureHeader: string;
+
+  isConfigured(): boolean;
+  initializePayment(input: InitializePaymentInput): Promise<InitializedPayment>;
+  verifyPayment(reference: string): Promise<PaymentVerification>;
+  // For providers whose payments are approved first and captured separately.
+  capturePayment?(reference: string): Promise<PaymentVerification>;
+  verifyWebhookSignature(
+    rawBody: Buffer,
+    headers: Record<string, string | string[] | undefined>,
+  ): Promise<boolean>;
+  parseWebhookEvent(rawBody: Buffer): PaymentEvent | null;
+}
@@ -0,0 +1,46 @@
+import { LoggerService } from '../common/logger/logger.service';
+import { PaymentProviderRegistry } from './payment-provider.registry';
+import { PaystackPaymentProvider } from './providers/paystack.provider';
+import { PaypalPaymentProvider } from './providers/paypal.provider';
+import { FakePaymentProvider } from './providers/fake.provider';
+
+describe('PaymentProviderRegistry', () => {
+  const saved = { ...process.env };
+
+  const create = () =>
+    new PaymentProviderRegistry(
+      {} as PaystackPaymentProvider,
+      {} as PaypalPaymentProvider,
+      new FakePaymentProvider({} as LoggerService),
+    );
+
+  beforeEach(() => {
+    process.env.PAYMENT_PROVIDERS = 'fake';
+    delete process.env.DEFAULT_PAYMENT_PROVIDER;
+  });
+
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it('enables the fake provider with a secret', () => {
+    process.env.FAKE_PROVIDER_SECRET = 'secret';
+
+    expect(create().list()).toEqual(['fake']);
+  });
+
+  it('requires a secret for the fake provider', () => {
+    delete process.env.FAKE_PROVIDER_SECRET;
+
+    expect(create).toThrow(
+      'Payment provider fake is enabled but not configured',
+    );
+  });
+
+  it('refuses the fake provider in production', () => {
+    process.env.FAKE_PROVIDER_SECRET = 'secret';
+    process.env.NODE_ENV = 'production';
+
+    expect(create).toThrow('cannot be enabled in production');
+  });
+});
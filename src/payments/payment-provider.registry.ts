@@ -0,0 +1,78 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { PaymentProvider } from './payment-provider.interface';
+import { PaystackPaymentProvider } from './providers/paystack.provider';
+import { PaypalPaymentProvider } from './providers/paypal.provider';
+import { FakePaymentProvider } from './providers/fake.provider';
+
+/**
+ * The payment providers enabled with `PAYMENT_PROVIDERS` (comma-separated,
+ * default `paystack`). The first one, or `DEFAULT_PAYMENT_PROVIDER`, is used
+ * for deposits that do not pick one.
+ */
+@Injectable()
+export class PaymentProviderRegistry {
+  private providers = new Map<string, PaymentProvider>();
+  private defaultName: string;
+
+  constructor(
+    paystack: PaystackPaymentProvider,
+    paypal: PaypalPaymentProvider,
+    fake: FakePaymentProvider,
+  ) {
+    const available: PaymentProvider[] = [paystack, paypal, fake];
+    const enabled = (process.env.PAYMENT_PROVIDERS || 'paystack')
+      .split(',')
+      .map((name) => name.trim())
+      .filter(Boolean);
+
+    for (const name of enabled) {
+      const provider = available.find((p) => p.name === name);
+
+      if (!provider) {
+        throw new Error(
+          `Unknown payment provider in PAYMENT_PROVIDERS: ${name}`,
+        );
+      }
+
+      if (provider.name === 'fake' && process.env.NODE_ENV === 'production') {
+        throw new Error(
+          'Payment provider fake lets anyone complete deposits and cannot be enabled in production',
+        );
+      }
+
+      if (!provider.isConfigured()) {
+        throw new Error(
+          `Payment provider ${name} is enabled but not configured`,
+        );
+      }
+
+      this.providers.set(name, provider);
+    }
+
+    this.defaultName = process.env.DEFAULT_PAYMENT_PROVIDER || enabled[0];
+
+    if (!this.providers.has(this.defaultName)) {
+      throw new Error(
+        `DEFAULT_PAYMENT_PROVIDER ${this.defaultName} is not in PAYMENT_PROVIDERS`,
+      );
+    }
+  }
+
+  get(name?: string): PaymentProvider {
+    const provider = this.providers.get(name ?? this.defaultName);
+
+    if (!provider) {
+      throw new BadRequestException(`Payment provider ${name} is not enabled`);
+    }
+
+    return provider;
+  }
+
+  has(name: string) {
+    return this.providers.has(name);
+  }
+
+  list() {
+    return [...this.providers.keys()];
+  }
+}
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { PaymentProviderRegistry } from './payment-provider.registry';
+import { PaystackPaymentProvider } from './providers/paystack.provider';
+import { PaypalPaymentProvider } from './providers/paypal.provider';
+import { FakePaymentProvider } from './providers/fake.provider';
+import { LoggerService } from '../common/logger/logger.service';
+import { PaystackModule } from '../paystack/paystack.module';
+
+@Module({
+  imports: [PaystackModule],
+  providers: [
+    PaymentProviderRegistry,
+    PaystackPaymentProvider,
+    PaypalPaymentProvider,
+    FakePaymentProvider,
+    LoggerService,
+  ],
+  exports: [PaymentProviderRegistry, FakePaymentProvider],
+})
+export class PaymentsModule {}
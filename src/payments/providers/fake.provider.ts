@@ -0,0 +1,137 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import * as crypto from 'crypto';
+import { LoggerService } from '../../common/logger/logger.service';
+import {
+  InitializePaymentInput,
+  PaymentEvent,
+  PaymentProvider,
+  PaymentVerification,
+} from '../payment-provider.interface';
+
+/**
+ * An in-process provider for running the app offline. Checkouts are kept in
+ * memory and completed with `POST /wallet/fake/checkout/:reference`, which
+ * delivers a signed webhook through the normal inbox. Anyone can complete a
+ * checkout, so it is refused in production, and webhooks are signed with
+ * `FAKE_PROVIDER_SECRET`, which must be set.
+ */
+@Injectable()
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake';
+  readonly signatureHeader = 'x-fake-signature';
+
+  private secret = process.env.FAKE_PROVIDER_SECRET;
+  private payments = new Map<
+    string,
+    { amount: number; currency: string; status: PaymentVerification['status'] }
+  >();
+
+  constructor(private logger: LoggerService) {}
+
+  isConfigured() {
+    return !!this.secret;
+  }
+
+  private sign(rawBody: Buffer) {
+    return crypto
+      .createHmac('sha256', this.secret!)
+      .update(rawBody)
+      .digest('hex');
+  }
+
+  initializePayment(input: InitializePaymentInput) {
+    const appUrl = process.env.APP_URL || 'http://localhost:3000';
+    this.payments.set(input.reference, {
+      amount: input.amount,
+      currency: input.currency,
+      status: 'pending',
+    });
+
+    return Promise.resolve({
+      reference: input.reference,
+      authorization_url: `${appUrl}/wallet/fake/checkout/${input.reference}`,
+    });
+  }
+
+  verifyPayment(reference: string): Promise<PaymentVerification> {
+    const payment = this.payments.get(reference);
+
+    if (!payment) {
+      return Promise.reject(new NotFoundException('Fake payment not found'));
+    }
+
+    return Promise.resolve({ reference, ...payment });
+  }
+
+  /**
+   * Settles a checkout and returns the signed webhook the provider would
+   * send for it.
+   */
+  completeCheckout(reference: string, outcome: 'success' | 'failed') {
+    const payment = this.payments.get(reference);
+
+    if (!payment) {
+      throw new NotFoundException('Fake payment not found');
+    }
+
+    payment.status = outcome;
+    this.logger.log(`Fake checkout ${reference} completed: ${outcome}`);
+
+    const rawBody = Buffer.from(
+      JSON.stringify({
+        id: `evt_${crypto.randomBytes(8).toString('hex')}`,
+        type: outcome === 'success' ? 'charge.success' : 'charge.failed',
+        data: {
+          reference,
+          amount: payment.amount,
+          currency: payment.currency,
+        },
+      }),
+    );
+
+    return {
+      rawBody,
+      headers: { [this.signatureHeader]: this.sign(rawBody) },
+    };
+  }
+
+  verifyWebhookSignature(
+    rawBody: Buffer,
+    headers: Record<string, string | string[] | undefined>,
+  ) {
+    if (!this.isConfigured()) return Promise.resolve(false);
+
+    const signature = headers[this.signatureHeader];
+    const expected = this.sign(rawBody);
+
+    return Promise.resolve(
+      typeof signature === 'string' &&
+        signature.length === expected.length &&
+        crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected)),
+    );
+  }
+
+  parseWebhookEvent(rawBody: Buffer): PaymentEvent | null {
+    let event: { id?: unknown; type?: unknown; data?: unknown };
+    try {
+      event = JSON.parse(rawBody.toString('utf8')) as typeof event;
+    } catch {
+      return null;
+    }
+
+    if (
+      !event ||
+      typeof event.id !== 'string' ||
+      typeof event.type !== 'string'
+    ) {
+      return null;
+    }
+
+    return {
+      provider: this.name,
+      id: event.id,
+      type: event.type,
+      data: event.data ?? {},
+    };
+  }
+}
@@ -0,0 +1,241 @@
+import { Injectable, InternalServerErrorException } from '@nestjs/common';
+import * as paypal from '@paypal/checkout-server-sdk';
+import { LoggerService } from '../../common/logger/logger.service';
+import { fromMinorUnits, toMinorUnits } from '../../common/utils/money';
+import {
+  InitializePaymentInput,
+  PaymentEvent,
+  PaymentProvider,
+  PaymentVerification,
+} from '../payment-provider.interface';
+
+interface PaypalMoney {
+  value: string;
+  currency_code: string;
+}
+
+/** The parts of a PayPal order the wallet reads. */
+interface PaypalOrder {
+  id: string;
+  status: string;
+  links: { rel: string; href: string }[];
+  purchase_units: {
+    amount: PaypalMoney;
+    payments?: { captures?: { status: string; amount: PaypalMoney }[] };
+  }[];
+}
+
+/** The parts of a PayPal webhook resource the wallet reads. */
+interface PaypalWebhookResource {
+  id?: string;
+  amount?: PaypalMoney;
+  supplementary_data?: { related_ids?: { order_id?: string } };
+}
+
+/**
+ * PayPal Checkout orders. The order ID is the provider reference. Approved
+ * orders still have to be captured: `verifyPayment` only reads the order and
+ * reports them as `approved`, and `capturePayment` captures them. The
+ * `CHECKOUT.ORDER.APPROVED` webhook is mapped to `charge.approved`, on which
+ * the wallet captures straight away.
+ */
+@Injectable()
+export class PaypalPaymentProvider implements PaymentProvider {
+  readonly name = 'paypal';
+  readonly signatureHeader = 'paypal-transmission-sig';
+
+  private client?: paypal.core.PayPalHttpClient;
+  private webhookId = process.env.PAYPAL_WEBHOOK_ID || '';
+
+  constructor(private logger: LoggerService) {
+    const clientId = process.env.PAYPAL_CLIENT_ID;
+    const clientSecret = process.env.PAYPAL_CLIENT_SECRET;
+
+    if (clientId && clientSecret) {
+      const environment =
+        process.env.PAYPAL_MODE === 'live'
+          ? new paypal.core.LiveEnvironment(clientId, clientSecret)
+          : new paypal.core.SandboxEnvironment(clientId, clientSecret);
+      this.client = new paypal.core.PayPalHttpClient(environment);
+    }
+  }
+
+  isConfigured() {
+    return !!this.client && !!this.webhookId;
+  }
+
+  private async execute<T>(request: unknown): Promise<T> {
+    if (!this.client) {
+      throw new InternalServerErrorException('PayPal is not configured');
+    }
+
+    const response = await this.client.execute(request);
+    return response.result as T;
+  }
+
+  async initializePayment(input: InitializePaymentInput) {
+    const appUrl = process.env.APP_URL || 'http://localhost:3000';
+    const request = new paypal.orders.OrdersCreateRequest();
+    request.prefer('return=representation');
+    request.requestBody({
+      intent: 'CAPTURE',
+      purchase_units: [
+        {
+          reference_id: input.reference,
+          custom_id: input.reference,
+          amount: {
+            currency_code: input.currency,
+            value: fromMinorUnits(BigInt(input.amount)).toFixed(2),
+          },
+        },
+      ],
+      application_context: {
+        return_url: `${appUrl}/wallet/deposit/${input.reference}/status`,
+        cancel_url: `${appUrl}/wallet/deposit/${input.reference}/status`,
+      },
+    });
+
+    const order = await this.execute<PaypalOrder>(request);
+    const approve = order.links.find((link) => link.rel === 'approve');
+
+    if (!approve) {
+      throw new InternalServerErrorException(
+        `PayPal order ${order.id} has no approval link`,
+      );
+    }
+
+    this.logger.log(`PayPal order created: ${order.id} for ${input.reference}`);
+
+    return { reference: order.id, authorization_url: approve.href };
+  }
+
+  async verifyPayment(orderId: string): Promise<PaymentVerification> {
+    const order = await this.execute<PaypalOrder>(
+      new paypal.orders.OrdersGetRequest(orderId),
+    );
+
+    return this.toVerification(order);
+  }
+
+  async capturePayment(orderId: string): Promise<PaymentVerification> {
+    const request = new paypal.orders.OrdersCaptureRequest(orderId);
+    request.requestBody({} as paypal.orders.OrdersCapture.RequestData);
+    const order = await this.execute<PaypalOrder>(request);
+
+    this.logger.log(`PayPal order captured: ${orderId}`);
+
+    return this.toVerification(order);
+  }
+
+  private toVerification(order: PaypalOrder): PaymentVerification {
+    const unit = order.purchase_units[0];
+    const capture = unit.payments?.captures?.[0];
+    const amount = capture?.amount ?? unit.amount;
+
+    let status: PaymentVerification['status'] = 'pending';
+    if (order.status === 'COMPLETED') {
+      status = capture?.status === 'DECLINED' ? 'failed' : 'success';
+    } else if (order.status === 'VOIDED') {
+      status = 'failed';
+    } else if (order.status === 'APPROVED') {
+      status = 'approved';
+    } else if (order.status === 'CREATED') {
+      status = 'abandoned';
+    }
+
+    return {
+      status,
+      reference: order.id,
+      amount: Number(toMinorUnits(Number(amount.value))),
+      currency: amount.currency_code,
+    };
+  }
+
+  async verifyWebhookSignature(
+    rawBody: Buffer,
+    headers: Record<string, string | string[] | undefined>,
+  ) {
+    if (!this.isConfigured()) return false;
+
+    try {
+      const response = await this.execute<{ verification_status: string }>({
+        path: '/v1/notifications/verify-webhook-signature',
+        verb: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: {
+          auth_algo: headers['paypal-auth-algo'],
+          cert_url: headers['paypal-cert-url'],
+          transmission_id: headers['paypal-transmission-id'],
+          transmission_sig: headers['paypal-transmission-sig'],
+          transmission_time: headers['paypal-transmission-time'],
+          webhook_id: this.webhookId,
+          webhook_event: JSON.parse(rawBody.toString('utf8')) as unknown,
+        },
+      });
+
+      return response.verification_status === 'SUCCESS';
+    } catch (error) {
+      this.logger.error('Error verifying PayPal webhook signature', error);
+      return false;
+    }
+  }
+
+  parseWebhookEvent(rawBody: Buffer): PaymentEvent | null {
+    let event: {
+      id?: unknown;
+      event_type?: unknown;
+      resource?: PaypalWebhookResource;
+    };
+    try {
+      event = JSON.parse(rawBody.toString('utf8')) as typeof event;
+    } catch {
+      return null;
+    }
+
+    if (
+      !event ||
+      typeof event.id !== 'string' ||
+      typeof event.event_type !== 'string'
+    ) {
+      return null;
+    }
+
+    const resource = event.resource ?? {};
+    const orderId = resource.supplementary_data?.related_ids?.order_id;
+
+    switch (event.event_type) {
+      case 'CHECKOUT.ORDER.APPROVED':
+        return {
+          provider: this.name,
+          id: event.id,
+          type: 'charge.approved',
+          data: { reference: resource.id },
+        };
+      case 'PAYMENT.CAPTURE.COMPLETED':
+        return {
+          provider: this.name,
+          id: event.id,
+          type: 'charge.success',
+          data: {
+            reference: orderId,
+            amount: Number(toMinorUnits(Number(resource.amount?.value))),
+            currency: resource.amount?.currency_code,
+          },
+        };
+      case 'PAYMENT.CAPTURE.DENIED':
+        return {
+          provider: this.name,
+          id: event.id,
+          type: 'charge.failed',
+          data: { reference: orderId },
+        };
+      default:
+        return {
+          provider: this.name,
+          id: event.id,
+          type: event.event_type,
+          data: resource,
+        };
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import { Injectable } from '@nestjs/common';
+import * as crypto from 'crypto';
+import { PaystackService } from '../../paystack/paystack.service';
+import {
+  InitializePaymentInput,
+  PaymentEvent,
+  PaymentProvider,
+  PaymentVerification,
+} from '../payment-provider.interface';
+
+const PAYSTACK_FINAL_STATUSES = ['success', 'failed', 'abandoned'];
+
+@Injectable()
+export class PaystackPaymentProvider implements PaymentProvider {
+  readonly name = 'paystack';
+  readonly signatureHeader = 'x-paystack-signature';
+
+  constructor(private paystackService: PaystackService) {}
+
+  isConfigured() {
+    return this.paystackService.isConfigured();
+  }
+
+  async initializePayment(input: InitializePaymentInput) {
+    const response = await this.paystackService.initializeTransaction(input);
+    return {
+      reference: response.reference,
+      authorization_url: response.authorization_url,
+    };
+  }
+
+  async verifyPayment(reference: string): Promise<PaymentVerification> {
+    const verification =
+      await this.paystackService.verifyTransaction(reference);
+
+    return {
+      status: PAYSTACK_FINAL_STATUSES.includes(verification.status)
+        ? (verification.status as PaymentVerification['status'])
+        : 'pending',
+      reference: verification.reference,
+      amount: verification.amount,
+      currency: verification.currency,
+    };
+  }
+
+  verifyWebhookSignature(
+    rawBody: Buffer,
+    headers: Record<string, string | string[] | undefined>,
+  ) {
+    const signature = headers[this.signatureHeader];
+    return Promise.resolve(
+      this.paystackService.verifyWebhookSignature(
+        rawBody,
+        typeof signature === 'string' ? signature : '',
+      ),
+    );
+  }
+
+  /**
+   * Paystack events carry no envelope ID; the event type plus the ID of the
+   * transaction or transfer it describes is unique per event. Payloads
+   * without one fall back to a hash of the body.
+   */
+  parseWebhookEvent(rawBody: Buffer): PaymentEvent | null {
+    let event: { event?: unknown; data?: { id?: string | number } };
+    try {
+      event = JSON.parse(rawBody.toString('utf8')) as typeof event;
+    } catch {
+      return null;
+    }
+
+    if (!event || typeof event.event !== 'string') return null;
+
+    const dataId = event.data?.id;
+    return {
+      provider: this.name,
+      id:
+        dataId !== undefined && dataId !== null
+          ? `${event.event}:${dataId}`
+          : `${event.event}:sha256:${crypto.createHash('sha256').update(rawBody).digest('hex')}`,
+      type: event.event,
+      data: event.data ?? {},
+    };
+  }
+}
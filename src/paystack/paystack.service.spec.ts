@@ -0,0 +1,142 @@
+import { BadRequestException } from '@nestjs/common';
+import { PaystackService } from './paystack.service';
+import { LoggerService } from '../common/logger/logger.service';
+import {
+  startPaystackStub,
+  PaystackStub,
+} from '../../test/support/paystack-stub';
+
+describe('PaystackService', () => {
+  const secretKey = 'sk_test_stub';
+  let stub: PaystackStub;
+  let paystackService: PaystackService;
+
+  beforeAll(async () => {
+    stub = await startPaystackStub({ secretKey });
+    process.env.PAYSTACK_SECRET_KEY = secretKey;
+    process.env.PAYSTACK_API_URL = stub.url;
+    const logger = {
+      log: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    } as unknown as LoggerService;
+    paystackService = new PaystackService(logger);
+  });
+
+  afterAll(async () => {
+    await stub.close();
+  });
+
+  it('lists banks', async () => {
+    const banks = await paystackService.listBanks();
+    expect(banks).toContainEqual({ name: 'Guaranty Trust Bank', code: '058' });
+  });
+
+  it('resolves an account name', async () => {
+    await expect(
+      paystackService.resolveAccount('0123456789', '058'),
+    ).resolves.toEqual({
+      account_number: '0123456789',
+      account_name: 'TEST ACCOUNT',
+    });
+  });
+
+  it('rejects an account that cannot be resolved', async () => {
+    await expect(
+      paystackService.resolveAccount('0123456780', '058'),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('creates a recipient and initiates a transfer', async () => {
+    const recipient = await paystackService.createTransferRecipient({
+      name: 'TEST ACCOUNT',
+      accountNumber: '0123456789',
+      bankCode: '058',
+    });
+
+    const transfer = await paystackService.initiateTransfer({
+      amount: 500000,
+      recipient: recipient.recipient_code,
+      reference: 'withdrawal_test_1',
+    });
+
+    expect(transfer.status).toBe('pending');
+    expect(transfer.reference).toBe('withdrawal_test_1');
+    expect(stub.transfers.get('withdrawal_test_1')).toEqual({
+      amount: 500000,
+      recipient: recipient.recipient_code,
+      transferCode: transfer.transfer_code,
+      status: 'failed',
+    });
+  });
+
+  it('reports a declined transfer as a bad request', async () => {
+    await expect(
+      paystackService.initiateTransfer({
+        amount: 500000,
+        recipient: 'RCP_unknown',
+        reference: 'withdrawal_test_2',
+      }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('verifies a transfer by reference', async () => {
+    await expect(
+      paystackService.verifyTransfer('withdrawal_test_1'),
+    ).resolves.toEqual({
+      status: 'failed',
+      transfer_code: stub.transfers.get('withdrawal_test_1')!.transferCode,
+    });
+    await expect(
+      paystackService.verifyTransfer('withdrawal_missing'),
+    ).resolves.toBeNull();
+  });
+
+  it('charges a saved authorization', async () => {
+    const charge = await paystackService.chargeAuthorization({
+      email: 'user@example.com',
+      amount: 250000,
+      currency: 'NGN',
+      reference: 'saved_card_test_1',
+      authorizationCode: 'AUTH_test',
+    });
+
+    expect(charge).toMatchObject({
+      status: 'success',
+      reference: 'saved_card_test_1',
+      amount: 250000,
+      currency: 'NGN',
+    });
+  });
+
+  it('reports a declined saved card charge', async () => {
+    const charge = await paystackService.chargeAuthorization({
+      email: 'user@example.com',
+      amount: 250000,
+      reference: 'saved_card_test_2',
+      authorizationCode: 'AUTH_test_declined',
+    });
+
+    expect(charge.status).toBe('failed');
+  });
+
+  it('creates a customer and assigns a dedicated account', async () => {
+    const customer = await paystackService.createCustomer({
+      email: 'user@example.com',
+    });
+    const again = await paystackService.createCustomer({
+      email: 'user@example.com',
+    });
+    expect(again.customer_code).toBe(customer.customer_code);
+
+    const account = await paystackService.createDedicatedAccount({
+      customer: customer.customer_code,
+      preferredBank: 'test-bank',
+    });
+
+    expect(account.assigned).toBe(true);
+    expect(stub.dedicatedAccounts.get(account.account_number)).toEqual({
+      customer: customer.customer_code,
+    });
+  });
+});
@@ -7,18 +7,100 @@ import axios, { AxiosInstance } from 'axios';
 import * as crypto from 'crypto';
 import { LoggerService } from '../common/logger/logger.service';
 
+interface PaystackResponse<T> {
+  status: boolean;
+  message: string;
+  data: T;
+}
+
+export interface PaystackAuthorization {
+  authorization_code: string;
+  channel?: string;
+  card_type?: string;
+  brand?: string;
+  bin?: string;
+  last4: string;
+  exp_month: string;
+  exp_year: string;
+  bank?: string;
+  signature?: string;
+  reusable?: boolean;
+  // Set on bank transfers into a dedicated account.
+  receiver_bank_account_number?: string;
+  sender_name?: string;
+  sender_bank?: string;
+}
+
+export interface PaystackCustomer {
+  id?: number;
+  email?: string;
+  customer_code: string;
+}
+
+/**
+ * A Paystack transaction, as returned by verify and charge calls and sent
+ * with `charge.*` events.
+ */
+export interface PaystackCharge {
+  id?: number;
+  status: string;
+  reference: string;
+  amount: number;
+  currency: string;
+  channel?: string;
+  gateway_response?: string;
+  authorization?: PaystackAuthorization;
+  customer?: PaystackCustomer;
+  metadata?: { receiver_account_number?: string } | null;
+}
+
+export interface PaystackTransfer {
+  reference: string;
+  transfer_code: string;
+  status: string;
+}
+
+export interface PaystackRefund {
+  id: number;
+  transaction_reference: string;
+  amount: number;
+  currency: string;
+}
+
+export interface PaystackDispute {
+  id: number;
+  resolution?: string | null;
+  refund_amount?: number | null;
+  currency?: string;
+  transaction: { reference: string };
+}
+
+export interface PaystackDedicatedAccount {
+  id: number;
+  account_number: string;
+  account_name: string;
+  bank?: { name: string; slug: string };
+  currency: string;
+  assigned: boolean;
+  active: boolean;
+}
+
+/** Sent with `dedicatedaccount.assign.*` events. */
+export interface PaystackDedicatedAccountAssignment {
+  customer?: PaystackCustomer;
+  dedicated_account?: PaystackDedicatedAccount | null;
+}
+
 @Injectable()
 export class PaystackService {
   private axiosInstance: AxiosInstance;
   private secretKey: string;
 
+  // A missing key is reported by PaymentProviderRegistry when Paystack is
+  // enabled, so the app can run offline with other providers.
   constructor(private logger: LoggerService) {
     this.secretKey = process.env.PAYSTACK_SECRET_KEY || '';
 
-    if (!this.secretKey) {
-      throw new Error('PAYSTACK_SECRET_KEY is not defined in environment');
-    }
-
     this.axiosInstance = axios.create({
       baseURL: process.env.PAYSTACK_API_URL || 'https://api.paystack.co',
       headers: {
@@ -28,22 +110,31 @@ export class PaystackService {
     });
   }
 
+  isConfigured(): boolean {
+    return !!this.secretKey;
+  }
+
   async initializeTransaction(data: {
     email: string;
     amount: number;
+    currency?: string;
     reference: string;
-    metadata?: any;
+    metadata?: Record<string, unknown>;
   }) {
     try {
-      const response = await this.axiosInstance.post(
-        '/transaction/initialize',
-        {
-          email: data.email,
-          amount: data.amount,
-          reference: data.reference,
-          metadata: data.metadata,
-        },
-      );
+      const response = await this.axiosInstance.post<
+        PaystackResponse<{
+          reference: string;
+          authorization_url: string;
+          access_code: string;
+        }>
+      >('/transaction/initialize', {
+        email: data.email,
+        amount: data.amount,
+        currency: data.currency,
+        reference: data.reference,
+        metadata: data.metadata,
+      });
 
       if (!response.data.status) {
         throw new BadRequestException(response.data.message);
@@ -66,9 +157,9 @@ export class PaystackService {
 
   async verifyTransaction(reference: string) {
     try {
-      const response = await this.axiosInstance.get(
-        `/transaction/verify/${reference}`,
-      );
+      const response = await this.axiosInstance.get<
+        PaystackResponse<PaystackCharge>
+      >(`/transaction/verify/${reference}`);
 
       if (!response.data.status) {
         throw new BadRequestException(response.data.message);
@@ -91,14 +182,328 @@ export class PaystackService {
     }
   }
 
-  verifyWebhookSignature(body: any, signature: string): boolean {
+  async listBanks(currency: string = 'NGN') {
+    try {
+      const response = await this.axiosInstance.get<
+        PaystackResponse<{ name: string; code: string }[]>
+      >('/bank', {
+        params: { currency },
+      });
+
+      if (!response.data.status) {
+        throw new BadRequestException(response.data.message);
+      }
+
+      return response.data.data.map((bank) => ({
+        name: bank.name,
+        code: bank.code,
+      }));
+    } catch (error) {
+      this.logger.error('Error listing Paystack banks', error);
+      throw new InternalServerErrorException(
+        'Failed to fetch banks. Please try again.',
+      );
+    }
+  }
+
+  async resolveAccount(accountNumber: string, bankCode: string) {
+    try {
+      const response = await this.axiosInstance.get<
+        PaystackResponse<{ account_number: string; account_name: string }>
+      >('/bank/resolve', {
+        params: { account_number: accountNumber, bank_code: bankCode },
+      });
+
+      if (!response.data.status) {
+        throw new BadRequestException(response.data.message);
+      }
+
+      return {
+        account_number: response.data.data.account_number,
+        account_name: response.data.data.account_name,
+      };
+    } catch (error) {
+      this.logger.error('Error resolving bank account', error);
+      throw new BadRequestException(
+        'Could not resolve bank account. Check the account number and bank code.',
+      );
+    }
+  }
+
+  async createTransferRecipient(data: {
+    name: string;
+    accountNumber: string;
+    bankCode: string;
+    currency?: string;
+  }) {
+    try {
+      const response = await this.axiosInstance.post<
+        PaystackResponse<{ recipient_code: string }>
+      >('/transferrecipient', {
+        type: 'nuban',
+        name: data.name,
+        account_number: data.accountNumber,
+        bank_code: data.bankCode,
+        currency: data.currency || 'NGN',
+      });
+
+      if (!response.data.status) {
+        throw new BadRequestException(response.data.message);
+      }
+
+      this.logger.log(
+        `Paystack transfer recipient created: ${response.data.data.recipient_code}`,
+      );
+
+      return { recipient_code: response.data.data.recipient_code };
+    } catch (error) {
+      this.logger.error('Error creating Paystack transfer recipient', error);
+      throw new InternalServerErrorException(
+        'Failed to create transfer recipient. Please try again.',
+      );
+    }
+  }
+
+  async initiateTransfer(data: {
+    amount: number;
+    recipient: string;
+    reference: string;
+    reason?: string;
+  }) {
+    try {
+      const response = await this.axiosInstance.post<
+        PaystackResponse<PaystackTransfer>
+      >('/transfer', {
+        source: 'balance',
+        amount: data.amount,
+        recipient: data.recipient,
+        reference: data.reference,
+        reason: data.reason,
+      });
+
+      if (!response.data.status) {
+        throw new BadRequestException(response.data.message);
+      }
+
+      this.logger.log(`Paystack transfer initiated: ${data.reference}`);
+
+      return {
+        transfer_code: response.data.data.transfer_code,
+        reference: response.data.data.reference,
+        status: response.data.data.status,
+      };
+    } catch (error) {
+      this.logger.error('Error initiating Paystack transfer', error);
+
+      // Paystack answered and refused the transfer, so it will not be paid
+      // out. Timeouts and server errors leave the outcome unknown.
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+      if (
+        axios.isAxiosError<{ message?: string }>(error) &&
+        error.response &&
+        error.response.status < 500
+      ) {
+        throw new BadRequestException(
+          error.response.data?.message || 'Withdrawal was declined',
+        );
+      }
+
+      throw new InternalServerErrorException(
+        'Failed to initiate withdrawal. Please try again.',
+      );
+    }
+  }
+
+  /**
+   * Returns null when Paystack has no transfer with this reference.
+   */
+  async verifyTransfer(reference: string) {
+    try {
+      const response = await this.axiosInstance.get<
+        PaystackResponse<PaystackTransfer>
+      >(`/transfer/verify/${encodeURIComponent(reference)}`);
+
+      if (!response.data.status) {
+        throw new BadRequestException(response.data.message);
+      }
+
+      return {
+        status: response.data.data.status,
+        transfer_code: response.data.data.transfer_code,
+      };
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return null;
+      }
+
+      this.logger.error('Error verifying Paystack transfer', error);
+      throw new InternalServerErrorException(
+        'Failed to verify withdrawal. Please try again.',
+      );
+    }
+  }
+
+  /**
+   * Paystack returns the existing customer when the email is already known,
+   * so this is safe to call again.
+   */
+  async createCustomer(data: {
+    email: string;
+    firstName?: string;
+    lastName?: string;
+    phone?: string;
+  }) {
+    try {
+      const response = await this.axiosInstance.post<
+        PaystackResponse<PaystackCustomer>
+      >('/customer', {
+        email: data.email,
+        first_name: data.firstName,
+        last_name: data.lastName,
+        phone: data.phone,
+      });
+
+      if (!response.data.status) {
+        throw new BadRequestException(response.data.message);
+      }
+
+      return {
+        customer_code: response.data.data.customer_code,
+        id: response.data.data.id,
+      };
+    } catch (error) {
+      this.logger.error('Error creating Paystack customer', error);
+      throw new InternalServerErrorException(
+        'Failed to create customer. Please try again.',
+      );
+    }
+  }
+
+  async createDedicatedAccount(data: {
+    customer: string;
+    preferredBank: string;
+    phone?: string;
+  }) {
+    try {
+      const response = await this.axiosInstance.post<
+        PaystackResponse<PaystackDedicatedAccount>
+      >('/dedicated_account', {
+        customer: data.customer,
+        preferred_bank: data.preferredBank,
+        phone: data.phone,
+      });
+
+      if (!response.data.status) {
+        throw new BadRequestException(response.data.message);
+      }
+
+      this.logger.log(
+        `Paystack dedicated account created for ${data.customer}`,
+      );
+
+      return {
+        id: response.data.data.id,
+        account_number: response.data.data.account_number,
+        account_name: response.data.data.account_name,
+        bank: response.data.data.bank,
+        currency: response.data.data.currency,
+        assigned: response.data.data.assigned,
+        active: response.data.data.active,
+      };
+    } catch (error) {
+      this.logger.error('Error creating Paystack dedicated account', error);
+      throw new InternalServerErrorException(
+        'Failed to create virtual account. Please try again.',
+      );
+    }
+  }
+
+  /**
+   * Charges a card saved from an earlier payment, without a checkout. The
+   * charge can still be pending when this returns; the outcome then arrives
+   * as a `charge.success` webhook like any other deposit.
+   */
+  async chargeAuthorization(data: {
+    email: string;
+    amount: number;
+    currency?: string;
+    reference: string;
+    authorizationCode: string;
+    metadata?: Record<string, unknown>;
+  }) {
+    try {
+      const response = await this.axiosInstance.post<
+        PaystackResponse<PaystackCharge>
+      >('/transaction/charge_authorization', {
+        email: data.email,
+        amount: data.amount,
+        currency: data.currency,
+        reference: data.reference,
+        authorization_code: data.authorizationCode,
+        metadata: data.metadata,
+      });
+
+      if (!response.data.status) {
+        throw new BadRequestException(response.data.message);
+      }
+
+      this.logger.log(`Paystack authorization charged: ${data.reference}`);
+
+      return {
+        status: response.data.data.status,
+        reference: response.data.data.reference,
+        amount: response.data.data.amount,
+        currency: response.data.data.currency,
+        gateway_response: response.data.data.gateway_response,
+        authorization: response.data.data.authorization,
+      };
+    } catch (error) {
+      this.logger.error('Error charging Paystack authorization', error);
+      throw new InternalServerErrorException(
+        'Failed to charge card. Please try again.',
+      );
+    }
+  }
+
+  async deactivateAuthorization(authorizationCode: string) {
+    try {
+      const response = await this.axiosInstance.post<PaystackResponse<unknown>>(
+        '/customer/deactivate_authorization',
+        { authorization_code: authorizationCode },
+      );
+
+      if (!response.data.status) {
+        throw new BadRequestException(response.data.message);
+      }
+
+      this.logger.log('Paystack authorization deactivated');
+    } catch (error) {
+      this.logger.error('Error deactivating Paystack authorization', error);
+      throw new InternalServerErrorException(
+        'Failed to remove card. Please try again.',
+      );
+    }
+  }
+
+  /**
+   * Paystack signs the exact bytes it sends, so the HMAC must be computed over
+   * the raw request body rather than a re-serialized copy of the JSON.
+   */
+  verifyWebhookSignature(rawBody: Buffer | string, signature: string): boolean {
+    if (!this.secretKey) return false;
+
     try {
       const hash = crypto
         .createHmac('sha512', this.secretKey)
-        .update(JSON.stringify(body))
+        .update(rawBody)
         .digest('hex');
 
-      const verified = hash === signature;
+      const verified =
+        !!signature &&
+        signature.length === hash.length &&
+        crypto.timingSafeEqual(Buffer.from(hash), Buffer.from(signature));
 
       if (!verified) {
         this.logger.warn('Invalid Paystack webhook signature');
@@ -0,0 +1,12 @@
+import { IsIn, IsOptional, IsString } from 'class-validator';
+import { RATE_LIMIT_SCOPES } from './set-rate-limit.dto';
+
+export class ListRateLimitsQueryDto {
+  @IsOptional()
+  @IsIn(RATE_LIMIT_SCOPES)
+  scope?: string;
+
+  @IsOptional()
+  @IsString()
+  subject_id?: string;
+}
@@ -0,0 +1,30 @@
+import { IsIn, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { RATE_LIMIT_GROUPS } from '../rate-limit.decorator';
+
+export const RATE_LIMIT_SCOPES = ['global', 'user', 'api_key'];
+
+/**
+ * Replaces the rate limit for one route group, globally or for a user or
+ * API key.
+ */
+export class SetRateLimitDto {
+  @IsIn(RATE_LIMIT_SCOPES)
+  scope: string;
+
+  // User or API key ID; required unless the scope is global.
+  @IsOptional()
+  @IsString()
+  subject_id?: string;
+
+  @IsIn(RATE_LIMIT_GROUPS)
+  group: string;
+
+  @IsInt()
+  @Min(1)
+  limit: number;
+
+  @IsInt()
+  @Min(1)
+  @Max(86400)
+  window_seconds: number;
+}
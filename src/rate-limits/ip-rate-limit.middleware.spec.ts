@@ -0,0 +1,56 @@
+import type { Request, Response } from 'express';
+import { LoggerService } from '../common/logger/logger.service';
+import { IpRateLimitMiddleware } from './ip-rate-limit.middleware';
+import { RateLimitService } from './rate-limit.service';
+
+describe('IpRateLimitMiddleware', () => {
+  const logger = { warn: jest.fn() };
+  const rateLimitService = { consume: jest.fn().mockResolvedValue(null) };
+  const forwarded = {
+    ip: '10.0.0.2',
+    headers: { 'x-forwarded-for': '203.0.113.7' },
+  } as unknown as Request;
+
+  const createMiddleware = () =>
+    new IpRateLimitMiddleware(
+      rateLimitService as unknown as RateLimitService,
+      logger as unknown as LoggerService,
+    );
+
+  afterEach(() => {
+    delete process.env.TRUST_PROXY;
+    jest.clearAllMocks();
+  });
+
+  it('warns once about forwarded requests when TRUST_PROXY is unset', async () => {
+    const middleware = createMiddleware();
+    const next = jest.fn();
+
+    await middleware.use(forwarded, {} as Response, next);
+    await middleware.use(forwarded, {} as Response, next);
+
+    expect(logger.warn).toHaveBeenCalledTimes(1);
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not warn when TRUST_PROXY is set', async () => {
+    process.env.TRUST_PROXY = '1';
+    const middleware = createMiddleware();
+
+    await middleware.use(forwarded, {} as Response, jest.fn());
+
+    expect(logger.warn).not.toHaveBeenCalled();
+  });
+
+  it('does not warn about direct requests', async () => {
+    const middleware = createMiddleware();
+
+    await middleware.use(
+      { ip: '203.0.113.7', headers: {} } as unknown as Request,
+      {} as Response,
+      jest.fn(),
+    );
+
+    expect(logger.warn).not.toHaveBeenCalled();
+  });
+});
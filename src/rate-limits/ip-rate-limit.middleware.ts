@@ -0,0 +1,52 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import type { NextFunction, Request, Response } from 'express';
+import { LoggerService } from '../common/logger/logger.service';
+import { RateLimitService } from './rate-limit.service';
+import { RateLimitExceededException } from './rate-limit-exceeded.exception';
+import { setRateLimitHeaders } from './rate-limit.interceptor';
+
+/**
+ * Takes from the client IP's `ip` bucket before any guard runs, so requests
+ * that fail authentication (guessed API keys or tokens) are limited too.
+ * Headers are only set when the request is refused; otherwise the route's
+ * own bucket reports them.
+ *
+ * Without `TRUST_PROXY` every client behind a reverse proxy shares the
+ * proxy's address and bucket; a warning is logged the first time a
+ * forwarded request shows up.
+ */
+@Injectable()
+export class IpRateLimitMiddleware implements NestMiddleware {
+  private readonly trustProxy = !!process.env.TRUST_PROXY;
+  private warnedAboutProxy = false;
+
+  constructor(
+    private rateLimitService: RateLimitService,
+    private logger: LoggerService,
+  ) {}
+
+  async use(request: Request, response: Response, next: NextFunction) {
+    if (
+      !this.trustProxy &&
+      !this.warnedAboutProxy &&
+      request.headers['x-forwarded-for']
+    ) {
+      this.warnedAboutProxy = true;
+      this.logger.warn(
+        'Request forwarded by a proxy but TRUST_PROXY is not set; per-IP rate limits and IP allowlists see the proxy address',
+        { ip: request.ip },
+      );
+    }
+
+    const result = await this.rateLimitService.consume('ip', {
+      ip: request.ip,
+    });
+
+    if (result && !result.allowed) {
+      setRateLimitHeaders(response, result);
+      throw new RateLimitExceededException('ip', result.retryAfterSeconds);
+    }
+
+    next();
+  }
+}
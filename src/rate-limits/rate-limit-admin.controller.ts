@@ -0,0 +1,113 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiSecurity,
+  ApiBody,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { RateLimitService } from './rate-limit.service';
+import { AdminGuard } from '../common/guards/admin.guard';
+import { RATE_LIMIT_SCOPES, SetRateLimitDto } from './dto/set-rate-limit.dto';
+import { ListRateLimitsQueryDto } from './dto/list-rate-limits-query.dto';
+
+const RATE_LIMIT_EXAMPLE = {
+  id: 'rlm_123abc',
+  scope: 'global',
+  subject_id: null,
+  group: 'transfers',
+  limit: 30,
+  window_seconds: 60,
+  updated_at: '2025-01-31T09:00:00.000Z',
+};
+
+@ApiTags('Admin')
+@ApiSecurity('x-admin-key')
+@Controller('admin/rate-limits')
+@UseGuards(AdminGuard)
+export class RateLimitAdminController {
+  constructor(private rateLimitService: RateLimitService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List rate limits' })
+  @ApiQuery({ name: 'scope', required: false, enum: RATE_LIMIT_SCOPES })
+  @ApiQuery({ name: 'subject_id', required: false, type: String })
+  @ApiResponse({
+    status: 200,
+    description: 'Rate limits retrieved',
+    schema: { example: [RATE_LIMIT_EXAMPLE] },
+  })
+  @ApiResponse({ status: 401, description: 'Invalid admin key' })
+  async listRateLimits(@Query() query: ListRateLimitsQueryDto) {
+    return this.rateLimitService.listRateLimits(query);
+  }
+
+  @Put()
+  @ApiOperation({
+    summary: 'Set a rate limit',
+    description:
+      'Sets the token bucket for one route group (`default`, `deposits`, `transfers` or `withdrawals`), globally or for a user or API key (`subject_id`): up to `limit` requests at once, refilling at `limit` per `window_seconds`. Global limits replace the built-in defaults and user limits replace global ones; an API key limit is an extra bucket for requests made with that key. The `ip` group limits every request per client IP, before authentication, and only takes a global limit.',
+  })
+  @ApiBody({
+    type: SetRateLimitDto,
+    examples: {
+      global: {
+        summary: 'Global transfer limit',
+        value: {
+          scope: 'global',
+          group: 'transfers',
+          limit: 30,
+          window_seconds: 60,
+        },
+      },
+      apiKey: {
+        summary: 'Slow down one API key',
+        value: {
+          scope: 'api_key',
+          subject_id: 'key_123abc',
+          group: 'default',
+          limit: 10,
+          window_seconds: 60,
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Rate limit saved',
+    schema: { example: RATE_LIMIT_EXAMPLE },
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Missing or unexpected subject_id, or a user or API key limit for the ip group',
+  })
+  @ApiResponse({ status: 404, description: 'User or API key not found' })
+  @ApiResponse({ status: 401, description: 'Invalid admin key' })
+  async setRateLimit(@Body() dto: SetRateLimitDto) {
+    return this.rateLimitService.setRateLimit(dto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a rate limit' })
+  @ApiResponse({
+    status: 200,
+    description: 'Rate limit deleted',
+    schema: { example: { message: 'Rate limit deleted' } },
+  })
+  @ApiResponse({ status: 404, description: 'Rate limit not found' })
+  @ApiResponse({ status: 401, description: 'Invalid admin key' })
+  async deleteRateLimit(@Param('id') id: string) {
+    return this.rateLimitService.deleteRateLimit(id);
+  }
+}
@@ -0,0 +1,21 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+/**
+ * Thrown when a rate limit bucket is empty. The `Retry-After` and
+ * `X-RateLimit-*` headers are set before it is thrown.
+ */
+export class RateLimitExceededException extends HttpException {
+  constructor(group: string, retryAfterSeconds: number) {
+    super(
+      {
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        error: 'Too Many Requests',
+        code: 'RATE_LIMIT_EXCEEDED',
+        message: `Rate limit for ${group} requests exceeded; retry in ${retryAfterSeconds} seconds`,
+        group,
+        retry_after: retryAfterSeconds,
+      },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+}
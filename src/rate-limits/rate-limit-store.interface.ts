@@ -0,0 +1,16 @@
+import { RateLimitResult, TokenBucket } from './token-bucket';
+
+export const RATE_LIMIT_STORE = 'RATE_LIMIT_STORE';
+
+export const RATE_LIMIT_STORE_NAMES = ['memory', 'postgres'];
+
+/**
+ * Where bucket state lives. `take` must refill and take a token atomically,
+ * so concurrent requests cannot share the last token.
+ */
+export interface RateLimitStore {
+  take(key: string, bucket: TokenBucket): Promise<RateLimitResult>;
+
+  // Forgets buckets that have refilled completely; returns how many.
+  prune(): Promise<number>;
+}
@@ -0,0 +1,38 @@
+import { applyDecorators, SetMetadata } from '@nestjs/common';
+import { ApiResponse } from '@nestjs/swagger';
+
+export const RATE_LIMIT_GROUPS = [
+  'default',
+  'deposits',
+  'transfers',
+  'withdrawals',
+  // Every request, per client IP, before authentication.
+  'ip',
+] as const;
+
+export type RateLimitGroup = (typeof RATE_LIMIT_GROUPS)[number];
+
+export const RATE_LIMIT_GROUP_KEY = 'rateLimitGroup';
+
+/**
+ * Counts the route against `group`'s bucket instead of the default one.
+ * Routes without a signed-in user are only limited, per client IP, when they
+ * name a group here.
+ */
+export function RateLimit(group: Exclude<RateLimitGroup, 'ip'>) {
+  return applyDecorators(
+    SetMetadata(RATE_LIMIT_GROUP_KEY, group),
+    ApiResponse({
+      status: 429,
+      description: `Too many requests in the \`${group}\` rate limit group; retry after \`Retry-After\` seconds`,
+      headers: {
+        'Retry-After': { description: 'Seconds until a request is allowed' },
+        'X-RateLimit-Limit': { description: 'Requests allowed per window' },
+        'X-RateLimit-Remaining': { description: 'Requests left right now' },
+        'X-RateLimit-Reset': {
+          description: 'Seconds until the limit has fully reset',
+        },
+      },
+    }),
+  );
+}
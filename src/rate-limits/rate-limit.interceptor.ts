@@ -0,0 +1,89 @@
+import {
+  Injectable,
+  NestInterceptor,
+  ExecutionContext,
+  CallHandler,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Request, Response } from 'express';
+import { Observable, from, throwError } from 'rxjs';
+import { mergeMap } from 'rxjs/operators';
+import { RateLimitService } from './rate-limit.service';
+import { RATE_LIMIT_GROUP_KEY, RateLimitGroup } from './rate-limit.decorator';
+import { RateLimitExceededException } from './rate-limit-exceeded.exception';
+import { RateLimitResult } from './token-bucket';
+
+type RateLimitedRequest = Request & {
+  user?: { id: string };
+  apiKeyId?: string;
+};
+
+export function setRateLimitHeaders(
+  response: Response,
+  result: RateLimitResult,
+) {
+  response.setHeader('X-RateLimit-Limit', result.limit);
+  response.setHeader('X-RateLimit-Remaining', result.remaining);
+  response.setHeader('X-RateLimit-Reset', result.resetSeconds);
+
+  if (!result.allowed) {
+    response.setHeader('Retry-After', result.retryAfterSeconds);
+  }
+}
+
+/**
+ * Applied to every route. Interceptors run after guards, so the signed-in
+ * user and API key are known by the time the request is counted.
+ */
+@Injectable()
+export class RateLimitInterceptor implements NestInterceptor {
+  constructor(
+    private reflector: Reflector,
+    private rateLimitService: RateLimitService,
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    if (context.getType() !== 'http') {
+      return next.handle();
+    }
+
+    const request = context.switchToHttp().getRequest<RateLimitedRequest>();
+    const response = context.switchToHttp().getResponse<Response>();
+    const group = this.reflector.getAllAndOverride<RateLimitGroup | undefined>(
+      RATE_LIMIT_GROUP_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!request.user?.id && !group) {
+      return next.handle();
+    }
+
+    return from(
+      this.rateLimitService.consume(group ?? 'default', {
+        userId: request.user?.id,
+        apiKeyId: request.apiKeyId,
+        ip: request.ip,
+      }),
+    ).pipe(
+      mergeMap((result) => {
+        if (!result) {
+          return next.handle();
+        }
+
+        setRateLimitHeaders(response, result);
+
+        if (!result.allowed) {
+          return throwError(
+            () =>
+              new RateLimitExceededException(
+                group ?? 'default',
+                result.retryAfterSeconds,
+              ),
+          );
+        }
+
+        return next.handle();
+      }),
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import {
+  MiddlewareConsumer,
+  Module,
+  NestModule,
+  RequestMethod,
+} from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import { RateLimitService } from './rate-limit.service';
+import { RateLimitInterceptor } from './rate-limit.interceptor';
+import { IpRateLimitMiddleware } from './ip-rate-limit.middleware';
+import { RateLimitAdminController } from './rate-limit-admin.controller';
+import {
+  RATE_LIMIT_STORE,
+  RATE_LIMIT_STORE_NAMES,
+} from './rate-limit-store.interface';
+import { MemoryRateLimitStore } from './stores/memory-rate-limit.store';
+import { PostgresRateLimitStore } from './stores/postgres-rate-limit.store';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/logger/logger.service';
+
+@Module({
+  controllers: [RateLimitAdminController],
+  providers: [
+    RateLimitService,
+    PrismaService,
+    LoggerService,
+    {
+      // `RATE_LIMIT_STORE`: memory (default) or postgres
+      provide: RATE_LIMIT_STORE,
+      inject: [PrismaService],
+      useFactory: (prisma: PrismaService) => {
+        const name = process.env.RATE_LIMIT_STORE || 'memory';
+
+        if (!RATE_LIMIT_STORE_NAMES.includes(name)) {
+          throw new Error(`Unknown RATE_LIMIT_STORE: ${name}`);
+        }
+
+        return name === 'postgres'
+          ? new PostgresRateLimitStore(prisma)
+          : new MemoryRateLimitStore();
+      },
+    },
+    { provide: APP_INTERCEPTOR, useClass: RateLimitInterceptor },
+  ],
+})
+export class RateLimitModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    // Payment providers deliver webhooks from a few addresses, and their
+    // signatures are checked instead.
+    consumer
+      .apply(IpRateLimitMiddleware)
+      .exclude({ path: 'wallet/:provider/webhook', method: RequestMethod.POST })
+      .forRoutes('{*splat}');
+  }
+}
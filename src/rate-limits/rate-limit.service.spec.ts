@@ -0,0 +1,159 @@
+import { ServiceUnavailableException } from '@nestjs/common';
+import { RateLimit } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/logger/logger.service';
+import { MemoryRateLimitStore } from './stores/memory-rate-limit.store';
+import { RateLimitStore } from './rate-limit-store.interface';
+import { RateLimitService } from './rate-limit.service';
+
+function rateLimit(values: Partial<RateLimit>): RateLimit {
+  return {
+    id: 'rlm_1',
+    scope: 'global',
+    subjectId: '',
+    group: 'default',
+    limit: 120,
+    windowSeconds: 60,
+    updatedAt: new Date(),
+    ...values,
+  } as RateLimit;
+}
+
+describe('RateLimitService.consume', () => {
+  let prisma: { rateLimit: { findMany: jest.Mock; upsert: jest.Mock } };
+  let logger: { log: jest.Mock; warn: jest.Mock; error: jest.Mock };
+
+  const create = (store: RateLimitStore = new MemoryRateLimitStore()) =>
+    new RateLimitService(
+      prisma as unknown as PrismaService,
+      logger as unknown as LoggerService,
+      store,
+    );
+
+  const failingStore: RateLimitStore = {
+    take: () => Promise.reject(new Error('connection refused')),
+    prune: () => Promise.resolve(0),
+  };
+
+  beforeEach(() => {
+    prisma = {
+      rateLimit: {
+        findMany: jest.fn().mockResolvedValue([]),
+        upsert: jest.fn().mockResolvedValue(rateLimit({})),
+      },
+    };
+    logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+  });
+
+  afterEach(() => {
+    delete process.env.RATE_LIMIT_FAIL_OPEN;
+  });
+
+  it('reads the limits once rather than on every request', async () => {
+    const service = create();
+
+    for (let i = 0; i < 3; i++) {
+      await service.consume('transfers', { userId: 'user_1' });
+    }
+
+    expect(prisma.rateLimit.findMany).toHaveBeenCalledTimes(1);
+  });
+
+  it('reads the limits again after one is set', async () => {
+    const service = create();
+
+    await service.consume('transfers', { userId: 'user_1' });
+    await service.setRateLimit({
+      scope: 'global',
+      group: 'transfers',
+      limit: 1,
+      window_seconds: 60,
+    });
+    prisma.rateLimit.findMany.mockResolvedValue([
+      rateLimit({ group: 'transfers', limit: 1 }),
+    ]);
+
+    await expect(
+      service.consume('transfers', { userId: 'user_2' }),
+    ).resolves.toMatchObject({ limit: 1 });
+    expect(prisma.rateLimit.findMany).toHaveBeenCalledTimes(2);
+  });
+
+  it('tries again after the limits could not be read', async () => {
+    const service = create();
+    prisma.rateLimit.findMany.mockRejectedValueOnce(new Error('timeout'));
+
+    await expect(
+      service.consume('default', { userId: 'user_1' }),
+    ).rejects.toThrow(ServiceUnavailableException);
+    await expect(
+      service.consume('default', { userId: 'user_1' }),
+    ).resolves.toMatchObject({ allowed: true });
+  });
+
+  it('lets a user limit replace the global one and adds the API key bucket', async () => {
+    prisma.rateLimit.findMany.mockResolvedValue([
+      rateLimit({ limit: 100 }),
+      rateLimit({ scope: 'user', subjectId: 'user_1', limit: 50 }),
+      rateLimit({ scope: 'api_key', subjectId: 'key_1', limit: 5 }),
+    ]);
+    const service = create();
+
+    await expect(
+      service.consume('default', { userId: 'user_1' }),
+    ).resolves.toMatchObject({ limit: 50, remaining: 49 });
+    await expect(
+      service.consume('default', { userId: 'user_1', apiKeyId: 'key_1' }),
+    ).resolves.toMatchObject({ limit: 5, remaining: 4 });
+    await expect(
+      service.consume('default', { userId: 'user_2' }),
+    ).resolves.toMatchObject({ limit: 100 });
+  });
+
+  it('limits each client IP separately', async () => {
+    prisma.rateLimit.findMany.mockResolvedValue([
+      rateLimit({ group: 'ip', limit: 1 }),
+    ]);
+    const service = create();
+
+    await service.consume('ip', { ip: '203.0.113.7' });
+
+    await expect(
+      service.consume('ip', { ip: '203.0.113.7' }),
+    ).resolves.toMatchObject({ allowed: false });
+    await expect(
+      service.consume('ip', { ip: '203.0.113.8' }),
+    ).resolves.toMatchObject({ allowed: true });
+  });
+
+  it('refuses requests when the limits cannot be checked', async () => {
+    const service = create(failingStore);
+
+    await expect(
+      service.consume('default', { userId: 'user_1' }),
+    ).rejects.toThrow(ServiceUnavailableException);
+  });
+
+  it('lets requests through when configured to fail open', async () => {
+    process.env.RATE_LIMIT_FAIL_OPEN = 'true';
+    const service = create(failingStore);
+
+    await expect(
+      service.consume('default', { userId: 'user_1' }),
+    ).resolves.toBeNull();
+    expect(logger.warn).toHaveBeenCalled();
+    expect(logger.error).toHaveBeenCalled();
+  });
+
+  it('only takes global limits for the ip group', async () => {
+    await expect(
+      create().setRateLimit({
+        scope: 'user',
+        subject_id: 'user_1',
+        group: 'ip',
+        limit: 10,
+        window_seconds: 60,
+      }),
+    ).rejects.toThrow('The ip group only takes global rate limits');
+  });
+});
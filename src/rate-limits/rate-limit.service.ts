@@ -0,0 +1,298 @@
+import {
+  Injectable,
+  Inject,
+  BadRequestException,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { RateLimit } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/logger/logger.service';
+import {
+  RATE_LIMIT_STORE,
+  type RateLimitStore,
+} from './rate-limit-store.interface';
+import { RateLimitResult, TokenBucket } from './token-bucket';
+import { RateLimitGroup } from './rate-limit.decorator';
+import { SetRateLimitDto } from './dto/set-rate-limit.dto';
+import { ListRateLimitsQueryDto } from './dto/list-rate-limits-query.dto';
+
+// Used until a global limit is set for the group.
+const DEFAULT_RATE_LIMITS: Record<RateLimitGroup, TokenBucket> = {
+  default: { limit: 120, windowSeconds: 60 },
+  deposits: { limit: 10, windowSeconds: 60 },
+  transfers: { limit: 30, windowSeconds: 60 },
+  withdrawals: { limit: 5, windowSeconds: 60 },
+  ip: { limit: 300, windowSeconds: 60 },
+};
+
+// Limits set on another instance take effect here within this time.
+const LIMITS_CACHE_MS = 60 * 1000;
+
+const limitKey = (scope: string, subjectId: string, group: string) =>
+  `${scope}:${subjectId}:${group}`;
+
+export interface RateLimitSubject {
+  userId?: string;
+  apiKeyId?: string;
+  ip?: string;
+}
+
+@Injectable()
+export class RateLimitService {
+  private readonly FAIL_OPEN = process.env.RATE_LIMIT_FAIL_OPEN === 'true';
+  private cachedLimits?: {
+    limits: Promise<Map<string, RateLimit>>;
+    expiresAt: number;
+  };
+
+  constructor(
+    private prisma: PrismaService,
+    private logger: LoggerService,
+    @Inject(RATE_LIMIT_STORE) private store: RateLimitStore,
+  ) {
+    if (this.FAIL_OPEN) {
+      this.logger.warn(
+        'RATE_LIMIT_FAIL_OPEN is set: requests are let through when rate limits cannot be checked',
+      );
+    }
+  }
+
+  private toResponse(limit: RateLimit) {
+    return {
+      id: limit.id,
+      scope: limit.scope,
+      subject_id: limit.subjectId || null,
+      group: limit.group,
+      limit: limit.limit,
+      window_seconds: limit.windowSeconds,
+      updated_at: limit.updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Admins set few limits and rarely change them, so all of them are read
+   * once per LIMITS_CACHE_MS instead of on every request. A failed read is
+   * not cached; the next request tries again.
+   */
+  private getLimits() {
+    const now = Date.now();
+
+    if (!this.cachedLimits || this.cachedLimits.expiresAt <= now) {
+      const cached = {
+        limits: this.prisma.rateLimit
+          .findMany()
+          .then(
+            (rows) =>
+              new Map(
+                rows.map((row) => [
+                  limitKey(row.scope, row.subjectId, row.group),
+                  row,
+                ]),
+              ),
+          ),
+        expiresAt: now + LIMITS_CACHE_MS,
+      };
+      cached.limits.catch(() => {
+        if (this.cachedLimits === cached) {
+          this.cachedLimits = undefined;
+        }
+      });
+      this.cachedLimits = cached;
+    }
+
+    return this.cachedLimits.limits;
+  }
+
+  /**
+   * Every request takes from its user's bucket, or its client IP's when
+   * signed out; a user limit replaces the global one. An API key with its own
+   * limit also takes from the key's bucket.
+   */
+  private async resolveBuckets(
+    group: RateLimitGroup,
+    subject: RateLimitSubject,
+  ) {
+    const limits = await this.getLimits();
+    const base =
+      (subject.userId && limits.get(limitKey('user', subject.userId, group))) ||
+      limits.get(limitKey('global', '', group));
+    const keyLimit =
+      subject.apiKeyId &&
+      limits.get(limitKey('api_key', subject.apiKeyId, group));
+
+    const buckets: { key: string; bucket: TokenBucket }[] = [
+      {
+        key: subject.userId
+          ? `user:${subject.userId}:${group}`
+          : `ip:${subject.ip}:${group}`,
+        bucket: base
+          ? { limit: base.limit, windowSeconds: base.windowSeconds }
+          : DEFAULT_RATE_LIMITS[group],
+      },
+    ];
+
+    if (keyLimit) {
+      buckets.push({
+        key: `api_key:${subject.apiKeyId}:${group}`,
+        bucket: {
+          limit: keyLimit.limit,
+          windowSeconds: keyLimit.windowSeconds,
+        },
+      });
+    }
+
+    return buckets;
+  }
+
+  /**
+   * Takes a token from each of the request's buckets. Returns the bucket
+   * that refused the request, otherwise the one closest to running out.
+   *
+   * If the limits cannot be checked the request is refused with a 503, unless
+   * RATE_LIMIT_FAIL_OPEN is set; then null is returned and the request is let
+   * through unlimited.
+   */
+  async consume(
+    group: RateLimitGroup,
+    subject: RateLimitSubject,
+  ): Promise<RateLimitResult | null> {
+    try {
+      const buckets = await this.resolveBuckets(group, subject);
+      let tightest: RateLimitResult | undefined;
+
+      for (const { key, bucket } of buckets) {
+        const result = await this.store.take(key, bucket);
+
+        if (!result.allowed) {
+          return result;
+        }
+
+        if (!tightest || result.remaining < tightest.remaining) {
+          tightest = result;
+        }
+      }
+
+      return tightest!;
+    } catch (error) {
+      if (!this.FAIL_OPEN) {
+        this.logger.error('Error checking rate limit; request refused', error);
+        throw new ServiceUnavailableException(
+          'Rate limits could not be checked; try again shortly',
+        );
+      }
+
+      this.logger.error(
+        'Error checking rate limit; request let through (RATE_LIMIT_FAIL_OPEN)',
+        error,
+      );
+      return null;
+    }
+  }
+
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async pruneBuckets() {
+    try {
+      const pruned = await this.store.prune();
+
+      if (pruned > 0) {
+        this.logger.log(`Pruned ${pruned} full rate limit buckets`);
+      }
+    } catch (error) {
+      this.logger.error('Error pruning rate limit buckets', error);
+    }
+  }
+
+  async listRateLimits(query: ListRateLimitsQueryDto) {
+    const limits = await this.prisma.rateLimit.findMany({
+      where: {
+        ...(query.scope && { scope: query.scope }),
+        ...(query.subject_id && { subjectId: query.subject_id }),
+      },
+      orderBy: [{ scope: 'asc' }, { subjectId: 'asc' }, { group: 'asc' }],
+    });
+
+    return limits.map((limit) => this.toResponse(limit));
+  }
+
+  async setRateLimit(dto: SetRateLimitDto) {
+    try {
+      let subjectId = '';
+
+      if (dto.group === 'ip' && dto.scope !== 'global') {
+        throw new BadRequestException(
+          'The ip group only takes global rate limits',
+        );
+      }
+
+      if (dto.scope === 'global') {
+        if (dto.subject_id) {
+          throw new BadRequestException(
+            'Global rate limits do not take a subject_id',
+          );
+        }
+      } else {
+        if (!dto.subject_id) {
+          throw new BadRequestException(
+            `subject_id is required for ${dto.scope} rate limits`,
+          );
+        }
+
+        const subject =
+          dto.scope === 'user'
+            ? await this.prisma.user.findUnique({
+                where: { id: dto.subject_id },
+              })
+            : await this.prisma.apiKey.findUnique({
+                where: { id: dto.subject_id },
+              });
+
+        if (!subject) {
+          throw new NotFoundException(
+            dto.scope === 'user' ? 'User not found' : 'API key not found',
+          );
+        }
+
+        subjectId = dto.subject_id;
+      }
+
+      const values = { limit: dto.limit, windowSeconds: dto.window_seconds };
+      const limit = await this.prisma.rateLimit.upsert({
+        where: {
+          scope_subjectId_group: {
+            scope: dto.scope,
+            subjectId,
+            group: dto.group,
+          },
+        },
+        create: { scope: dto.scope, subjectId, group: dto.group, ...values },
+        update: values,
+      });
+      this.cachedLimits = undefined;
+
+      this.logger.log(
+        `Rate limit set: ${dto.scope} ${subjectId || '-'} ${dto.group} ${dto.limit}/${dto.window_seconds}s`,
+      );
+
+      return this.toResponse(limit);
+    } catch (error) {
+      this.logger.error('Error setting rate limit', error);
+      throw error;
+    }
+  }
+
+  async deleteRateLimit(id: string) {
+    const { count } = await this.prisma.rateLimit.deleteMany({
+      where: { id },
+    });
+
+    if (count === 0) {
+      throw new NotFoundException('Rate limit not found');
+    }
+
+    this.cachedLimits = undefined;
+    this.logger.log(`Rate limit ${id} deleted`);
+    return { message: 'Rate limit deleted' };
+  }
+}
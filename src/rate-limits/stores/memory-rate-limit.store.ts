@@ -0,0 +1,36 @@
+import { RateLimitStore } from '../rate-limit-store.interface';
+import { BucketState, TokenBucket, takeToken } from '../token-bucket';
+
+/**
+ * Keeps buckets in this process. Limits are per instance, so use the
+ * Postgres store when running more than one.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, BucketState & { fullAt: number }>();
+
+  take(key: string, bucket: TokenBucket) {
+    const now = Date.now();
+    const { state, result } = takeToken(bucket, this.buckets.get(key), now);
+
+    this.buckets.set(key, {
+      ...state,
+      fullAt: now + result.resetSeconds * 1000,
+    });
+
+    return Promise.resolve(result);
+  }
+
+  prune() {
+    const now = Date.now();
+    let pruned = 0;
+
+    for (const [key, state] of this.buckets) {
+      if (state.fullAt <= now) {
+        this.buckets.delete(key);
+        pruned++;
+      }
+    }
+
+    return Promise.resolve(pruned);
+  }
+}
@@ -0,0 +1,50 @@
+import { PrismaService } from '../../prisma/prisma.service';
+import { RateLimitStore } from '../rate-limit-store.interface';
+import { TokenBucket, takeToken } from '../token-bucket';
+
+/**
+ * Keeps buckets in the RateLimitBucket table so every instance shares them.
+ * Each take locks the bucket's row for the length of a short transaction.
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  constructor(private prisma: PrismaService) {}
+
+  take(key: string, bucket: TokenBucket) {
+    return this.prisma.$transaction(async (tx) => {
+      const now = Date.now();
+
+      await tx.$executeRaw`
+        INSERT INTO "RateLimitBucket" ("key", "tokens", "updatedAt", "fullAt")
+        VALUES (${key}, ${bucket.limit}, ${new Date(now)}, ${new Date(now)})
+        ON CONFLICT ("key") DO NOTHING`;
+
+      const [row] = await tx.$queryRaw<{ tokens: number; updatedAt: Date }[]>`
+        SELECT "tokens", "updatedAt" FROM "RateLimitBucket"
+        WHERE "key" = ${key} FOR UPDATE`;
+
+      const { state, result } = takeToken(
+        bucket,
+        { tokens: row.tokens, updatedAt: row.updatedAt.getTime() },
+        now,
+      );
+
+      await tx.rateLimitBucket.update({
+        where: { key },
+        data: {
+          tokens: state.tokens,
+          updatedAt: new Date(state.updatedAt),
+          fullAt: new Date(now + result.resetSeconds * 1000),
+        },
+      });
+
+      return result;
+    });
+  }
+
+  async prune() {
+    const { count } = await this.prisma.rateLimitBucket.deleteMany({
+      where: { fullAt: { lte: new Date() } },
+    });
+    return count;
+  }
+}
@@ -0,0 +1,85 @@
+import { BucketState, TokenBucket, takeToken } from './token-bucket';
+
+describe('takeToken', () => {
+  // One token per second.
+  const bucket: TokenBucket = { limit: 60, windowSeconds: 60 };
+  const now = 1_000_000;
+
+  const empty: BucketState = { tokens: 0, updatedAt: now };
+
+  it('starts a new bucket full and takes a token', () => {
+    const { state, result } = takeToken(bucket, undefined, now);
+
+    expect(state).toEqual({ tokens: 59, updatedAt: now });
+    expect(result).toEqual({
+      allowed: true,
+      limit: 60,
+      remaining: 59,
+      resetSeconds: 1,
+      retryAfterSeconds: 0,
+    });
+  });
+
+  it('refuses requests once the bucket is empty', () => {
+    const { state, result } = takeToken(bucket, empty, now);
+
+    expect(state.tokens).toBe(0);
+    expect(result).toMatchObject({
+      allowed: false,
+      remaining: 0,
+      resetSeconds: 60,
+      retryAfterSeconds: 1,
+    });
+  });
+
+  it('refills at limit per window', () => {
+    expect(takeToken(bucket, empty, now + 999).result.allowed).toBe(false);
+
+    const { state, result } = takeToken(bucket, empty, now + 1000);
+    expect(result.allowed).toBe(true);
+    expect(state.tokens).toBeCloseTo(0);
+
+    expect(takeToken(bucket, empty, now + 30_500).result.remaining).toBe(29);
+  });
+
+  it('keeps fractional tokens between requests', () => {
+    const half = takeToken(bucket, empty, now + 500);
+    expect(half.result.allowed).toBe(false);
+    expect(half.state.tokens).toBeCloseTo(0.5);
+
+    expect(takeToken(bucket, half.state, now + 1000).result.allowed).toBe(true);
+  });
+
+  it('never holds more than the limit', () => {
+    const { state } = takeToken(
+      bucket,
+      { tokens: 10, updatedAt: now },
+      now + 24 * 60 * 60 * 1000,
+    );
+
+    expect(state.tokens).toBe(59);
+  });
+
+  it('does not refill when the clock goes backwards', () => {
+    const { state, result } = takeToken(
+      bucket,
+      { tokens: 5, updatedAt: now },
+      now - 10_000,
+    );
+
+    expect(result.allowed).toBe(true);
+    expect(state.tokens).toBe(4);
+  });
+
+  it('reports when a bucket with a long window allows the next request', () => {
+    const { result } = takeToken(
+      { limit: 10, windowSeconds: 3600 },
+      { tokens: 0.25, updatedAt: now },
+      now,
+    );
+
+    // 6 minutes per token; three quarters of one are still missing.
+    expect(result.retryAfterSeconds).toBe(270);
+    expect(result.resetSeconds).toBe(3510);
+  });
+});
@@ -0,0 +1,52 @@
+export interface TokenBucket {
+  // Requests allowed in a burst; the bucket refills at `limit` per window.
+  limit: number;
+  windowSeconds: number;
+}
+
+export interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until the bucket is full again.
+  resetSeconds: number;
+  // Seconds until the next request would be allowed; 0 when allowed.
+  retryAfterSeconds: number;
+}
+
+/**
+ * Refills the bucket for the time since it was last used, then takes one
+ * token if there is one. Pure, so every store shares the same arithmetic.
+ */
+export function takeToken(
+  bucket: TokenBucket,
+  state: BucketState | undefined,
+  now: number,
+): { state: BucketState; result: RateLimitResult } {
+  const perMs = bucket.limit / (bucket.windowSeconds * 1000);
+  // Instances' clocks can disagree slightly; never refill backwards.
+  const available = state
+    ? Math.min(
+        bucket.limit,
+        state.tokens + Math.max(0, now - state.updatedAt) * perMs,
+      )
+    : bucket.limit;
+  const allowed = available >= 1;
+  const tokens = allowed ? available - 1 : available;
+
+  return {
+    state: { tokens, updatedAt: now },
+    result: {
+      allowed,
+      limit: bucket.limit,
+      remaining: Math.floor(tokens),
+      resetSeconds: Math.ceil((bucket.limit - tokens) / perMs / 1000),
+      retryAfterSeconds: allowed ? 0 : Math.ceil((1 - tokens) / perMs / 1000),
+    },
+  };
+}
@@ -0,0 +1,83 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Query,
+  UseGuards,
+  ConflictException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiSecurity,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { DepositReconciliationService } from './deposit-reconciliation.service';
+import { AdminGuard } from '../common/guards/admin.guard';
+import { ListReconciliationRunsQueryDto } from './dto/list-reconciliation-runs-query.dto';
+
+const RECONCILIATION_RUN_EXAMPLE = {
+  id: 'drr_123abc',
+  trigger: 'scheduled',
+  status: 'completed',
+  checked: 12,
+  credited: 2,
+  failed: 1,
+  abandoned: 7,
+  unchanged: 2,
+  errors: 0,
+  error: null,
+  started_at: '2025-01-15T10:00:00.000Z',
+  finished_at: '2025-01-15T10:00:04.000Z',
+};
+
+@ApiTags('Admin')
+@ApiSecurity('x-admin-key')
+@Controller('admin/reconciliation/deposits')
+@UseGuards(AdminGuard)
+export class DepositReconciliationController {
+  constructor(
+    private depositReconciliationService: DepositReconciliationService,
+  ) {}
+
+  @Get('runs')
+  @ApiOperation({ summary: 'List pending-deposit reconciliation runs' })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Reconciliation runs retrieved, newest first',
+    schema: { example: [RECONCILIATION_RUN_EXAMPLE] },
+  })
+  @ApiResponse({ status: 401, description: 'Invalid admin key' })
+  async listRuns(@Query() query: ListReconciliationRunsQueryDto) {
+    return this.depositReconciliationService.listRuns(query);
+  }
+
+  @Post('run')
+  @ApiOperation({
+    summary: 'Reconcile pending deposits now',
+    description:
+      'Verifies pending deposits older than `DEPOSIT_RECONCILE_AFTER_MINUTES` with their payment provider, without waiting for the scheduled run.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Run completed',
+    schema: { example: { ...RECONCILIATION_RUN_EXAMPLE, trigger: 'manual' } },
+  })
+  @ApiResponse({ status: 409, description: 'A run is already in progress' })
+  async runNow() {
+    const run =
+      await this.depositReconciliationService.reconcilePendingDeposits(
+        'manual',
+      );
+
+    if (!run) {
+      throw new ConflictException(
+        'A reconciliation run is already in progress',
+      );
+    }
+
+    return run;
+  }
+}
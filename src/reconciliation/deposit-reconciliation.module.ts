@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { DepositReconciliationService } from './deposit-reconciliation.service';
+import { WithdrawalReconciliationService } from './withdrawal-reconciliation.service';
+import { DepositReconciliationController } from './deposit-reconciliation.controller';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/logger/logger.service';
+import { WalletModule } from '../wallet/wallet.module';
+
+@Module({
+  imports: [WalletModule],
+  controllers: [DepositReconciliationController],
+  providers: [
+    DepositReconciliationService,
+    WithdrawalReconciliationService,
+    PrismaService,
+    LoggerService,
+  ],
+})
+export class DepositReconciliationModule {}
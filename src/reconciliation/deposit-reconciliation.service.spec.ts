@@ -0,0 +1,86 @@
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/logger/logger.service';
+import { WalletService } from '../wallet/wallet.service';
+import { DepositReconciliationService } from './deposit-reconciliation.service';
+
+describe('DepositReconciliationService', () => {
+  let prisma: {
+    depositReconciliationRun: { create: jest.Mock; update: jest.Mock };
+    transaction: { findMany: jest.Mock; update: jest.Mock };
+  };
+  let walletService: { reconcileDeposit: jest.Mock };
+  let service: DepositReconciliationService;
+
+  beforeEach(() => {
+    prisma = {
+      depositReconciliationRun: {
+        create: jest.fn().mockResolvedValue({ id: 'run_1' }),
+        update: jest.fn().mockResolvedValue({
+          id: 'run_1',
+          startedAt: new Date(),
+          finishedAt: new Date(),
+        }),
+      },
+      transaction: {
+        findMany: jest.fn().mockResolvedValue([]),
+        update: jest.fn(),
+      },
+    };
+    walletService = { reconcileDeposit: jest.fn() };
+    service = new DepositReconciliationService(
+      prisma as unknown as PrismaService,
+      {
+        log: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+      } as unknown as LoggerService,
+      walletService as unknown as WalletService,
+    );
+  });
+
+  it('runs again after a run could not be recorded', async () => {
+    prisma.depositReconciliationRun.create.mockRejectedValueOnce(
+      new Error('connection reset'),
+    );
+
+    await expect(service.reconcilePendingDeposits('manual')).rejects.toThrow(
+      'connection reset',
+    );
+    await expect(
+      service.reconcilePendingDeposits('manual'),
+    ).resolves.not.toBeNull();
+  });
+
+  it('checks the least recently checked deposits first and skips failing ones', async () => {
+    await service.reconcilePendingDeposits('manual');
+
+    expect(prisma.transaction.findMany.mock.calls[0]).toMatchObject([
+      {
+        where: { reconcileErrors: { lt: 10 } },
+        orderBy: [
+          { reconciledAt: { sort: 'asc', nulls: 'first' } },
+          { createdAt: 'asc' },
+        ],
+      },
+    ]);
+  });
+
+  it('counts errors in a row and resets them once a check succeeds', async () => {
+    prisma.transaction.findMany.mockResolvedValue([
+      { id: 'txn_1', providerRef: 'ref_1', reconcileErrors: 3 },
+      { id: 'txn_2', providerRef: 'ref_2', reconcileErrors: 3 },
+    ]);
+    walletService.reconcileDeposit
+      .mockRejectedValueOnce(new Error('Amount mismatch'))
+      .mockResolvedValueOnce('unchanged');
+
+    await expect(
+      service.reconcilePendingDeposits('manual'),
+    ).resolves.not.toBeNull();
+
+    expect(prisma.transaction.update.mock.calls).toMatchObject([
+      [{ where: { id: 'txn_1' }, data: { reconcileErrors: 4 } }],
+      [{ where: { id: 'txn_2' }, data: { reconcileErrors: 0 } }],
+    ]);
+  });
+});
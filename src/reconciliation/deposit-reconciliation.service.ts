@@ -0,0 +1,178 @@
+import { Injectable } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { DepositReconciliationRun } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/logger/logger.service';
+import { WalletService } from '../wallet/wallet.service';
+import { ListReconciliationRunsQueryDto } from './dto/list-reconciliation-runs-query.dto';
+
+/**
+ * Verifies deposits that are still pending with their payment provider, for
+ * when the webhook never arrived. Results go through the webhook handlers, so a
+ * deposit is never credited twice. Each run is recorded with its counts.
+ *
+ * Deposits that were checked least recently go first, so ones that stay
+ * pending cannot crowd newer ones out of the batch. A deposit that errors
+ * MAX_ERRORS times in a row is left pending for manual review.
+ */
+@Injectable()
+export class DepositReconciliationService {
+  private readonly RECONCILE_AFTER_MINUTES = Number(
+    process.env.DEPOSIT_RECONCILE_AFTER_MINUTES || 30,
+  );
+  private readonly ABANDON_AFTER_MINUTES = Number(
+    process.env.DEPOSIT_ABANDON_AFTER_MINUTES || 24 * 60,
+  );
+  private readonly MAX_ERRORS = Number(
+    process.env.DEPOSIT_RECONCILE_MAX_ERRORS || 10,
+  );
+  private readonly BATCH_SIZE = 100;
+  private running = false;
+
+  constructor(
+    private prisma: PrismaService,
+    private logger: LoggerService,
+    private walletService: WalletService,
+  ) {}
+
+  private toResponse(run: DepositReconciliationRun) {
+    return {
+      id: run.id,
+      trigger: run.trigger,
+      status: run.status,
+      checked: run.checked,
+      credited: run.credited,
+      failed: run.failed,
+      abandoned: run.abandoned,
+      unchanged: run.unchanged,
+      errors: run.errors,
+      error: run.error,
+      started_at: run.startedAt.toISOString(),
+      finished_at: run.finishedAt?.toISOString() || null,
+    };
+  }
+
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async tick() {
+    if (process.env.DEPOSIT_RECONCILIATION_ENABLED === 'false') return;
+
+    try {
+      await this.reconcilePendingDeposits('scheduled');
+    } catch (error) {
+      this.logger.error('Error reconciling pending deposits', error);
+    }
+  }
+
+  async reconcilePendingDeposits(trigger: 'scheduled' | 'manual') {
+    // One run per instance at a time; deposits are claimed by the handlers,
+    // so overlapping runs on other instances are safe.
+    if (this.running) {
+      return null;
+    }
+
+    this.running = true;
+    try {
+      return await this.reconcileBatch(trigger);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async reconcileBatch(trigger: 'scheduled' | 'manual') {
+    const run = await this.prisma.depositReconciliationRun.create({
+      data: { trigger },
+    });
+
+    const counts = {
+      checked: 0,
+      credited: 0,
+      failed: 0,
+      abandoned: 0,
+      unchanged: 0,
+      errors: 0,
+    };
+
+    try {
+      const now = Date.now();
+      const pending = await this.prisma.transaction.findMany({
+        where: {
+          type: 'deposit',
+          status: 'pending',
+          providerRef: { not: null },
+          reconcileErrors: { lt: this.MAX_ERRORS },
+          createdAt: {
+            lt: new Date(now - this.RECONCILE_AFTER_MINUTES * 60 * 1000),
+          },
+        },
+        orderBy: [
+          { reconciledAt: { sort: 'asc', nulls: 'first' } },
+          { createdAt: 'asc' },
+        ],
+        take: this.BATCH_SIZE,
+      });
+      const abandonBefore = new Date(
+        now - this.ABANDON_AFTER_MINUTES * 60 * 1000,
+      );
+
+      for (const transaction of pending) {
+        counts.checked++;
+        let errors = 0;
+        try {
+          const outcome = await this.walletService.reconcileDeposit(
+            transaction,
+            { abandonBefore, capture: true },
+          );
+          counts[outcome]++;
+        } catch (error) {
+          counts.errors++;
+          errors = transaction.reconcileErrors + 1;
+          this.logger.warn(
+            `Could not reconcile deposit ${transaction.providerRef}: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+
+        await this.prisma.transaction.update({
+          where: { id: transaction.id },
+          data: { reconciledAt: new Date(), reconcileErrors: errors },
+        });
+
+        if (errors >= this.MAX_ERRORS) {
+          this.logger.warn(
+            `Deposit ${transaction.providerRef} failed reconciliation ${errors} times in a row; no longer reconciled automatically`,
+          );
+        }
+      }
+
+      const finished = await this.prisma.depositReconciliationRun.update({
+        where: { id: run.id },
+        data: { ...counts, status: 'completed', finishedAt: new Date() },
+      });
+
+      this.logger.log(
+        `Deposit reconciliation ${run.id}: checked ${counts.checked}, credited ${counts.credited}, failed ${counts.failed}, abandoned ${counts.abandoned}, unchanged ${counts.unchanged}, errors ${counts.errors}`,
+      );
+
+      return this.toResponse(finished);
+    } catch (error) {
+      await this.prisma.depositReconciliationRun.update({
+        where: { id: run.id },
+        data: {
+          ...counts,
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+          finishedAt: new Date(),
+        },
+      });
+      throw error;
+    }
+  }
+
+  async listRuns(query: ListReconciliationRunsQueryDto) {
+    const runs = await this.prisma.depositReconciliationRun.findMany({
+      orderBy: { startedAt: 'desc' },
+      take: query.limit ?? 20,
+    });
+
+    return runs.map((run) => this.toResponse(run));
+  }
+}
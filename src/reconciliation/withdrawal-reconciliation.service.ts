@@ -0,0 +1,80 @@
+import { Injectable } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/logger/logger.service';
+import { WalletService } from '../wallet/wallet.service';
+
+/**
+ * Verifies withdrawals that are still pending with Paystack, for when the
+ * transfer webhook never arrived or the transfer was initiated with an unknown
+ * outcome. Results go through the transfer webhook handler, so a withdrawal is
+ * never settled or refunded twice.
+ */
+@Injectable()
+export class WithdrawalReconciliationService {
+  private readonly RECONCILE_AFTER_MINUTES = Number(
+    process.env.WITHDRAWAL_RECONCILE_AFTER_MINUTES || 30,
+  );
+  private readonly BATCH_SIZE = 100;
+  private running = false;
+
+  constructor(
+    private prisma: PrismaService,
+    private logger: LoggerService,
+    private walletService: WalletService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async tick() {
+    if (process.env.WITHDRAWAL_RECONCILIATION_ENABLED === 'false') return;
+
+    // One run per instance at a time; withdrawals are claimed by the handler,
+    // so overlapping runs on other instances are safe.
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      await this.reconcilePendingWithdrawals();
+    } catch (error) {
+      this.logger.error('Error reconciling pending withdrawals', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  async reconcilePendingWithdrawals() {
+    const pending = await this.prisma.transaction.findMany({
+      where: {
+        type: 'withdrawal',
+        status: 'pending',
+        provider: 'paystack',
+        createdAt: {
+          lt: new Date(Date.now() - this.RECONCILE_AFTER_MINUTES * 60 * 1000),
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+      take: this.BATCH_SIZE,
+    });
+
+    const counts = { paid: 0, refunded: 0, unchanged: 0, errors: 0 };
+
+    for (const transaction of pending) {
+      try {
+        counts[await this.walletService.reconcileWithdrawal(transaction)]++;
+      } catch (error) {
+        counts.errors++;
+        this.logger.warn(
+          `Could not reconcile withdrawal ${transaction.reference}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+
+    if (pending.length > 0) {
+      this.logger.log(
+        `Withdrawal reconciliation: checked ${pending.length}, paid ${counts.paid}, refunded ${counts.refunded}, unchanged ${counts.unchanged}, errors ${counts.errors}`,
+      );
+    }
+
+    return counts;
+  }
+}
@@ -0,0 +1,56 @@
+import {
+  IsDateString,
+  IsIn,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { SUPPORTED_CURRENCIES } from '../../common/utils/money';
+
+export const SCHEDULE_FREQUENCIES = [
+  'once',
+  'daily',
+  'weekly',
+  'monthly',
+  'cron',
+];
+
+export class CreateScheduledTransferDto {
+  @IsString()
+  wallet_number: string;
+
+  @IsNumber()
+  @IsPositive()
+  @Min(1)
+  amount: number;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsOptional()
+  @IsIn(SUPPORTED_CURRENCIES)
+  currency?: string;
+
+  @IsOptional()
+  @IsIn(SUPPORTED_CURRENCIES)
+  target_currency?: string;
+
+  @IsIn(SCHEDULE_FREQUENCIES)
+  frequency: string;
+
+  @ValidateIf((dto: CreateScheduledTransferDto) => dto.frequency === 'cron')
+  @IsString()
+  cron_expression?: string;
+
+  @ValidateIf((dto: CreateScheduledTransferDto) => dto.frequency === 'once')
+  @IsDateString()
+  start_at?: string;
+
+  @IsOptional()
+  @IsDateString()
+  end_at?: string;
+}
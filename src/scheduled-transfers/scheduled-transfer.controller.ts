@@ -0,0 +1,187 @@
+import { Controller, Post, Get, Delete, Body, Param } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBody } from '@nestjs/swagger';
+import { ScheduledTransferService } from './scheduled-transfer.service';
+import {
+  type AuthenticatedUser,
+  CurrentUser,
+} from '../common/decorators/current-user.decorator';
+import {
+  missingPermissionsDescription,
+  RequirePermissions,
+} from '../common/decorators/require-permissions.decorator';
+import { ApiKeyId } from '../common/decorators/api-key-id.decorator';
+import { CreateScheduledTransferDto } from './dto/create-scheduled-transfer.dto';
+
+const SCHEDULE_EXAMPLE = {
+  id: 'sch_123abc',
+  wallet_number: '4566678954356',
+  amount: 5000,
+  currency: 'NGN',
+  target_currency: null,
+  description: 'Monthly rent',
+  frequency: 'monthly',
+  cron_expression: null,
+  start_at: '2025-02-01T09:00:00.000Z',
+  end_at: null,
+  next_run_at: '2025-02-01T09:00:00.000Z',
+  status: 'active',
+  created_at: '2025-01-15T10:00:00.000Z',
+};
+
+@ApiTags('Scheduled Transfers')
+@Controller('wallet/scheduled-transfers')
+export class ScheduledTransferController {
+  constructor(private scheduledTransferService: ScheduledTransferService) {}
+
+  @Post()
+  @ApiResponse({
+    status: 403,
+    description: `The API key may not pay this wallet or this amount. \`code\` is API_KEY_RECIPIENT_NOT_ALLOWED or API_KEY_TRANSACTION_CAP_EXCEEDED; or: ${missingPermissionsDescription(['transfer'])}`,
+  })
+  @RequirePermissions('transfer')
+  @ApiOperation({
+    summary: 'Schedule a transfer',
+    description:
+      'Creates a one-off future-dated transfer or a recurring one (daily, weekly, monthly or a cron expression in UTC).',
+  })
+  @ApiBody({
+    type: CreateScheduledTransferDto,
+    examples: {
+      once: {
+        summary: 'One-off transfer on a future date',
+        value: {
+          wallet_number: '4566678954356',
+          amount: 2000,
+          frequency: 'once',
+          start_at: '2025-02-01T09:00:00Z',
+        },
+      },
+      monthly: {
+        summary: 'Monthly transfer',
+        value: {
+          wallet_number: '4566678954356',
+          amount: 5000,
+          description: 'Monthly rent',
+          frequency: 'monthly',
+          start_at: '2025-02-01T09:00:00Z',
+        },
+      },
+      cron: {
+        summary: 'Every weekday at 08:00 UTC',
+        value: {
+          wallet_number: '4566678954356',
+          amount: 500,
+          frequency: 'cron',
+          cron_expression: '0 8 * * 1-5',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Scheduled transfer created',
+    schema: { example: SCHEDULE_EXAMPLE },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid schedule, cron expression or own wallet',
+  })
+  @ApiResponse({ status: 404, description: 'Recipient wallet not found' })
+  async createSchedule(
+    @CurrentUser() user: AuthenticatedUser,
+    @ApiKeyId() apiKeyId: string | undefined,
+    @Body() dto: CreateScheduledTransferDto,
+  ) {
+    return this.scheduledTransferService.createSchedule(user.id, dto, apiKeyId);
+  }
+
+  @Get()
+  @RequirePermissions('read')
+  @ApiOperation({ summary: 'List scheduled transfers' })
+  @ApiResponse({
+    status: 200,
+    description: 'Scheduled transfers retrieved',
+    schema: { example: [SCHEDULE_EXAMPLE] },
+  })
+  async listSchedules(@CurrentUser() user: AuthenticatedUser) {
+    return this.scheduledTransferService.listSchedules(user.id);
+  }
+
+  @Get(':id')
+  @RequirePermissions('read')
+  @ApiOperation({
+    summary: 'Get a scheduled transfer with its recent runs',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Scheduled transfer retrieved',
+    schema: {
+      example: {
+        ...SCHEDULE_EXAMPLE,
+        runs: [
+          {
+            id: 'run_456def',
+            scheduled_for: '2025-01-01T09:00:00.000Z',
+            status: 'failed',
+            attempts: 3,
+            error: 'Insufficient balance',
+            transfer_reference: null,
+            updated_at: '2025-01-01T09:20:00.000Z',
+          },
+        ],
+      },
+    },
+  })
+  @ApiResponse({ status: 404, description: 'Scheduled transfer not found' })
+  async getSchedule(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ) {
+    return this.scheduledTransferService.getSchedule(user.id, id);
+  }
+
+  @Post(':id/pause')
+  @RequirePermissions('transfer')
+  @ApiOperation({ summary: 'Pause a scheduled transfer' })
+  @ApiResponse({ status: 201, description: 'Scheduled transfer paused' })
+  @ApiResponse({ status: 400, description: 'Schedule is not active' })
+  @ApiResponse({ status: 404, description: 'Scheduled transfer not found' })
+  async pauseSchedule(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ) {
+    return this.scheduledTransferService.pauseSchedule(user.id, id);
+  }
+
+  @Post(':id/resume')
+  @RequirePermissions('transfer')
+  @ApiOperation({
+    summary: 'Resume a paused scheduled transfer',
+    description: 'Occurrences missed while paused are skipped.',
+  })
+  @ApiResponse({ status: 201, description: 'Scheduled transfer resumed' })
+  @ApiResponse({ status: 400, description: 'Schedule is not paused' })
+  @ApiResponse({ status: 404, description: 'Scheduled transfer not found' })
+  async resumeSchedule(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ) {
+    return this.scheduledTransferService.resumeSchedule(user.id, id);
+  }
+
+  @Delete(':id/cancel')
+  @RequirePermissions('transfer')
+  @ApiOperation({
+    summary: 'Cancel a scheduled transfer',
+    description: 'Stops all future runs. This action is irreversible.',
+  })
+  @ApiResponse({ status: 200, description: 'Scheduled transfer cancelled' })
+  @ApiResponse({ status: 400, description: 'Schedule already finished' })
+  @ApiResponse({ status: 404, description: 'Scheduled transfer not found' })
+  async cancelSchedule(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ) {
+    return this.scheduledTransferService.cancelSchedule(user.id, id);
+  }
+}
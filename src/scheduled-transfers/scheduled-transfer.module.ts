@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { ScheduledTransferService } from './scheduled-transfer.service';
+import { ScheduledTransferRunner } from './scheduled-transfer.runner';
+import { ScheduledTransferController } from './scheduled-transfer.controller';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/logger/logger.service';
+import { AuthModule } from '../auth/auth.module';
+import { WalletModule } from '../wallet/wallet.module';
+import { LimitModule } from '../limits/limit.module';
+
+@Module({
+  imports: [AuthModule, WalletModule, LimitModule],
+  controllers: [ScheduledTransferController],
+  providers: [
+    ScheduledTransferService,
+    ScheduledTransferRunner,
+    PrismaService,
+    LoggerService,
+  ],
+})
+export class ScheduledTransferModule {}
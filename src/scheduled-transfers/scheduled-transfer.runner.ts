@@ -0,0 +1,203 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { ScheduledTransfer, ScheduledTransferRun } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/logger/logger.service';
+import { backoffDelayMs } from '../common/utils/backoff';
+import { WalletService } from '../wallet/wallet.service';
+import { ScheduledTransferService } from './scheduled-transfer.service';
+
+/**
+ * Executes due scheduled transfers. Each occurrence becomes one
+ * ScheduledTransferRun row (unique per schedule and time), and the transfer it
+ * makes uses the reference `scheduled_<runId>`, so a run interrupted by a
+ * restart is retried without ever moving money twice.
+ */
+@Injectable()
+export class ScheduledTransferRunner {
+  private readonly MAX_ATTEMPTS = Number(
+    process.env.SCHEDULED_TRANSFER_MAX_ATTEMPTS || 3,
+  );
+  private readonly RETRY_BASE_MS = Number(
+    process.env.SCHEDULED_TRANSFER_RETRY_BASE_MS || 5 * 60 * 1000,
+  );
+  private readonly STALE_RUN_MS = 5 * 60 * 1000;
+  private readonly BATCH_SIZE = 100;
+  private ticking = false;
+
+  constructor(
+    private prisma: PrismaService,
+    private logger: LoggerService,
+    private walletService: WalletService,
+    private scheduledTransferService: ScheduledTransferService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_MINUTE)
+  async tick() {
+    if (this.ticking || process.env.SCHEDULED_TRANSFERS_ENABLED === 'false') {
+      return;
+    }
+
+    this.ticking = true;
+    try {
+      await this.createDueRuns();
+      await this.executeDueRuns();
+    } catch (error) {
+      this.logger.error('Error running scheduled transfers', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  async createDueRuns(now: Date = new Date()) {
+    const due = await this.prisma.scheduledTransfer.findMany({
+      where: { status: 'active', nextRunAt: { lte: now } },
+      orderBy: { nextRunAt: 'asc' },
+      take: this.BATCH_SIZE,
+    });
+
+    for (const schedule of due) {
+      const scheduledFor = schedule.nextRunAt!;
+
+      // Occurrences missed while the service was down collapse into one run.
+      let nextRunAt = this.scheduledTransferService.computeNextRun(
+        schedule,
+        scheduledFor,
+      );
+      while (nextRunAt && nextRunAt <= now) {
+        nextRunAt = this.scheduledTransferService.computeNextRun(
+          schedule,
+          nextRunAt,
+        );
+      }
+
+      await this.prisma.$transaction(async (tx) => {
+        // Advancing nextRunAt conditionally makes creating the run a claim:
+        // only one instance can win it.
+        const claimed = await tx.scheduledTransfer.updateMany({
+          where: { id: schedule.id, status: 'active', nextRunAt: scheduledFor },
+          data: nextRunAt
+            ? { nextRunAt }
+            : { nextRunAt: null, status: 'completed' },
+        });
+
+        if (claimed.count === 0) return;
+
+        await tx.scheduledTransferRun.create({
+          data: { scheduleId: schedule.id, scheduledFor },
+        });
+      });
+    }
+  }
+
+  async executeDueRuns(now: Date = new Date()) {
+    const runs = await this.prisma.scheduledTransferRun.findMany({
+      where: {
+        OR: [
+          { status: 'pending', nextAttemptAt: { lte: now } },
+          {
+            status: 'running',
+            updatedAt: { lt: new Date(now.getTime() - this.STALE_RUN_MS) },
+          },
+        ],
+      },
+      include: { schedule: true },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: this.BATCH_SIZE,
+    });
+
+    for (const run of runs) {
+      await this.executeRun(run);
+    }
+  }
+
+  private async executeRun(
+    run: ScheduledTransferRun & { schedule: ScheduledTransfer },
+  ) {
+    const claimed = await this.prisma.scheduledTransferRun.updateMany({
+      where: { id: run.id, status: run.status, updatedAt: run.updatedAt },
+      data: { status: 'running', attempts: { increment: 1 } },
+    });
+
+    if (claimed.count === 0) return;
+
+    const attempts = run.attempts + 1;
+    const reference = `scheduled_${run.id}`;
+
+    if (await this.transferExists(reference)) {
+      await this.markSucceeded(run.id, reference);
+      return;
+    }
+
+    if (
+      run.schedule.status === 'paused' ||
+      run.schedule.status === 'cancelled'
+    ) {
+      await this.prisma.scheduledTransferRun.update({
+        where: { id: run.id },
+        data: { status: 'skipped', error: `Schedule ${run.schedule.status}` },
+      });
+      return;
+    }
+
+    try {
+      await this.walletService.transferFunds(
+        run.schedule.userId,
+        {
+          wallet_number: run.schedule.walletNumber,
+          amount: run.schedule.amount,
+          description: run.schedule.description ?? undefined,
+          currency: run.schedule.currency,
+          target_currency: run.schedule.targetCurrency ?? undefined,
+        },
+        { reference, apiKeyId: run.schedule.apiKeyId ?? undefined },
+      );
+
+      await this.markSucceeded(run.id, reference);
+      this.logger.log(
+        `Scheduled transfer run succeeded: ${run.id} (schedule ${run.scheduleId})`,
+      );
+    } catch (error) {
+      // A previous attempt may have committed before the process stopped.
+      if (await this.transferExists(reference)) {
+        await this.markSucceeded(run.id, reference);
+        return;
+      }
+
+      const message = error instanceof Error ? error.message : String(error);
+      const retryable =
+        attempts < this.MAX_ATTEMPTS && !(error instanceof NotFoundException);
+
+      await this.prisma.scheduledTransferRun.update({
+        where: { id: run.id },
+        data: retryable
+          ? {
+              status: 'pending',
+              error: message,
+              nextAttemptAt: new Date(
+                Date.now() + backoffDelayMs(this.RETRY_BASE_MS, attempts),
+              ),
+            }
+          : { status: 'failed', error: message },
+      });
+
+      this.logger.warn(
+        `Scheduled transfer run ${run.id} failed (attempt ${attempts}): ${message}`,
+      );
+    }
+  }
+
+  private async transferExists(reference: string) {
+    const transfer = await this.prisma.transfer.findUnique({
+      where: { reference },
+    });
+    return !!transfer;
+  }
+
+  private async markSucceeded(runId: string, reference: string) {
+    await this.prisma.scheduledTransferRun.update({
+      where: { id: runId },
+      data: { status: 'success', error: null, transferReference: reference },
+    });
+  }
+}
@@ -0,0 +1,67 @@
+import { ScheduledTransferService } from './scheduled-transfer.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/logger/logger.service';
+import { LimitService } from '../limits/limit.service';
+
+describe('ScheduledTransferService.computeNextRun', () => {
+  const service = new ScheduledTransferService(
+    {} as PrismaService,
+    {} as LoggerService,
+    {} as LimitService,
+  );
+
+  const schedule = (
+    frequency: string,
+    overrides: { cronExpression?: string; startAt?: Date; endAt?: Date } = {},
+  ) => ({
+    frequency,
+    cronExpression: overrides.cronExpression ?? null,
+    startAt: overrides.startAt ?? new Date('2025-01-31T09:00:00.000Z'),
+    endAt: overrides.endAt ?? null,
+  });
+
+  const after = new Date('2025-01-31T09:00:00.000Z');
+
+  it('has no next run for a one-off schedule', () => {
+    expect(service.computeNextRun(schedule('once'), after)).toBeNull();
+  });
+
+  it('adds a day or a week', () => {
+    expect(service.computeNextRun(schedule('daily'), after)).toEqual(
+      new Date('2025-02-01T09:00:00.000Z'),
+    );
+    expect(service.computeNextRun(schedule('weekly'), after)).toEqual(
+      new Date('2025-02-07T09:00:00.000Z'),
+    );
+  });
+
+  it('keeps monthly runs on the start day, clamped to short months', () => {
+    const monthly = schedule('monthly');
+    const february = service.computeNextRun(monthly, after);
+    expect(february).toEqual(new Date('2025-02-28T09:00:00.000Z'));
+    expect(service.computeNextRun(monthly, february!)).toEqual(
+      new Date('2025-03-31T09:00:00.000Z'),
+    );
+  });
+
+  it('uses the next cron occurrence in UTC', () => {
+    const weekdays = schedule('cron', { cronExpression: '0 8 * * 1-5' });
+    // 2025-01-31 is a Friday.
+    expect(service.computeNextRun(weekdays, after)).toEqual(
+      new Date('2025-02-03T08:00:00.000Z'),
+    );
+  });
+
+  it('stops after the end date', () => {
+    const daily = schedule('daily', {
+      endAt: new Date('2025-02-01T08:59:59.000Z'),
+    });
+    expect(service.computeNextRun(daily, after)).toBeNull();
+    expect(
+      service.computeNextRun(
+        { ...daily, endAt: new Date('2025-02-01T09:00:00.000Z') },
+        after,
+      ),
+    ).toEqual(new Date('2025-02-01T09:00:00.000Z'));
+  });
+});
@@ -0,0 +1,314 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ScheduledTransfer } from '@prisma/client';
+import { CronTime } from 'cron';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/logger/logger.service';
+import { DEFAULT_CURRENCY } from '../common/utils/money';
+import { LimitService } from '../limits/limit.service';
+import { CreateScheduledTransferDto } from './dto/create-scheduled-transfer.dto';
+
+type ScheduleTiming = Pick<
+  ScheduledTransfer,
+  'frequency' | 'cronExpression' | 'startAt' | 'endAt'
+>;
+
+@Injectable()
+export class ScheduledTransferService {
+  constructor(
+    private prisma: PrismaService,
+    private logger: LoggerService,
+    private limitService: LimitService,
+  ) {}
+
+  private addMonth(after: Date, anchorDay: number): Date {
+    const next = new Date(after);
+    next.setUTCDate(1);
+    next.setUTCMonth(next.getUTCMonth() + 1);
+    const lastDay = new Date(
+      Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0),
+    ).getUTCDate();
+    next.setUTCDate(Math.min(anchorDay, lastDay));
+    return next;
+  }
+
+  /**
+   * Returns the occurrence after `after`, or null once the schedule has no
+   * further runs (one-off schedules, or past `endAt`).
+   */
+  computeNextRun(schedule: ScheduleTiming, after: Date): Date | null {
+    let next: Date | null;
+
+    switch (schedule.frequency) {
+      case 'daily':
+        next = new Date(after.getTime() + 24 * 60 * 60 * 1000);
+        break;
+      case 'weekly':
+        next = new Date(after.getTime() + 7 * 24 * 60 * 60 * 1000);
+        break;
+      case 'monthly':
+        next = this.addMonth(after, schedule.startAt.getUTCDate());
+        break;
+      case 'cron':
+        next = new CronTime(schedule.cronExpression!, 'UTC')
+          .getNextDateFrom(after)
+          .toJSDate();
+        break;
+      default:
+        next = null;
+    }
+
+    if (next && schedule.endAt && next > schedule.endAt) {
+      return null;
+    }
+    return next;
+  }
+
+  /**
+   * First occurrence at or after `from`.
+   */
+  private firstRunFrom(schedule: ScheduleTiming, from: Date): Date | null {
+    if (schedule.frequency === 'cron') {
+      return this.computeNextRun(schedule, new Date(from.getTime() - 1));
+    }
+
+    let next: Date | null = schedule.startAt;
+    while (next && next < from) {
+      next = this.computeNextRun(schedule, next);
+    }
+    return next;
+  }
+
+  private toResponse(schedule: ScheduledTransfer) {
+    return {
+      id: schedule.id,
+      wallet_number: schedule.walletNumber,
+      amount: schedule.amount,
+      currency: schedule.currency,
+      target_currency: schedule.targetCurrency,
+      description: schedule.description,
+      frequency: schedule.frequency,
+      cron_expression: schedule.cronExpression,
+      start_at: schedule.startAt.toISOString(),
+      end_at: schedule.endAt?.toISOString() || null,
+      next_run_at: schedule.nextRunAt?.toISOString() || null,
+      status: schedule.status,
+      created_at: schedule.createdAt.toISOString(),
+    };
+  }
+
+  private async findOwned(userId: string, scheduleId: string) {
+    const schedule = await this.prisma.scheduledTransfer.findFirst({
+      where: { id: scheduleId, userId },
+    });
+
+    if (!schedule) {
+      throw new NotFoundException('Scheduled transfer not found');
+    }
+
+    return schedule;
+  }
+
+  /**
+   * A schedule created with an API key runs as that key: the key's
+   * recipients and per-transaction cap are checked now, and every run is
+   * checked against its caps and limits like any other transfer it makes.
+   */
+  async createSchedule(
+    userId: string,
+    dto: CreateScheduledTransferDto,
+    apiKeyId?: string,
+  ) {
+    try {
+      const recipientWallet = await this.prisma.wallet.findUnique({
+        where: { walletNumber: dto.wallet_number },
+      });
+
+      if (!recipientWallet) {
+        throw new NotFoundException('Recipient wallet not found');
+      }
+
+      if (recipientWallet.userId === userId) {
+        throw new BadRequestException('Cannot transfer to your own wallet');
+      }
+
+      if (apiKeyId) {
+        await this.limitService.assertApiKeyAllows(apiKeyId, {
+          operation: 'transfer',
+          currency: dto.currency ?? DEFAULT_CURRENCY,
+          amount: dto.amount,
+          recipientWalletNumber: dto.wallet_number,
+        });
+      }
+
+      if (dto.frequency === 'cron') {
+        const { valid } = CronTime.validateCronExpression(dto.cron_expression!);
+        if (!valid) {
+          throw new BadRequestException('Invalid cron expression');
+        }
+      }
+
+      const now = new Date();
+      const startAt = dto.start_at ? new Date(dto.start_at) : now;
+      const endAt = dto.end_at ? new Date(dto.end_at) : null;
+
+      if (dto.frequency === 'once' && startAt <= now) {
+        throw new BadRequestException('start_at must be in the future');
+      }
+
+      if (endAt && endAt <= startAt) {
+        throw new BadRequestException('end_at must be after start_at');
+      }
+
+      const timing: ScheduleTiming = {
+        frequency: dto.frequency,
+        cronExpression: dto.cron_expression ?? null,
+        startAt,
+        endAt,
+      };
+      const nextRunAt = this.firstRunFrom(timing, startAt);
+
+      if (!nextRunAt) {
+        throw new BadRequestException('Schedule has no runs before end_at');
+      }
+
+      const schedule = await this.prisma.scheduledTransfer.create({
+        data: {
+          userId,
+          walletNumber: dto.wallet_number,
+          amount: dto.amount,
+          currency: dto.currency ?? DEFAULT_CURRENCY,
+          targetCurrency: dto.target_currency,
+          description: dto.description,
+          frequency: dto.frequency,
+          cronExpression: dto.cron_expression,
+          startAt,
+          endAt,
+          nextRunAt,
+          apiKeyId,
+        },
+      });
+
+      this.logger.log(
+        `Scheduled transfer created for user ${userId}: ${schedule.id} (${schedule.frequency})`,
+      );
+
+      return this.toResponse(schedule);
+    } catch (error) {
+      this.logger.error('Error creating scheduled transfer', error);
+      throw error;
+    }
+  }
+
+  async listSchedules(userId: string) {
+    const schedules = await this.prisma.scheduledTransfer.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return schedules.map((schedule) => this.toResponse(schedule));
+  }
+
+  async getSchedule(userId: string, scheduleId: string) {
+    const schedule = await this.findOwned(userId, scheduleId);
+    const runs = await this.prisma.scheduledTransferRun.findMany({
+      where: { scheduleId },
+      orderBy: { scheduledFor: 'desc' },
+      take: 20,
+    });
+
+    return {
+      ...this.toResponse(schedule),
+      runs: runs.map((run) => ({
+        id: run.id,
+        scheduled_for: run.scheduledFor.toISOString(),
+        status: run.status,
+        attempts: run.attempts,
+        error: run.error,
+        transfer_reference: run.transferReference,
+        updated_at: run.updatedAt.toISOString(),
+      })),
+    };
+  }
+
+  async pauseSchedule(userId: string, scheduleId: string) {
+    try {
+      const schedule = await this.findOwned(userId, scheduleId);
+
+      if (schedule.status !== 'active') {
+        throw new BadRequestException(
+          `Only active schedules can be paused (current status: ${schedule.status})`,
+        );
+      }
+
+      const paused = await this.prisma.scheduledTransfer.update({
+        where: { id: schedule.id },
+        data: { status: 'paused' },
+      });
+
+      this.logger.log(`Scheduled transfer paused: ${schedule.id}`);
+      return this.toResponse(paused);
+    } catch (error) {
+      this.logger.error('Error pausing scheduled transfer', error);
+      throw error;
+    }
+  }
+
+  async resumeSchedule(userId: string, scheduleId: string) {
+    try {
+      const schedule = await this.findOwned(userId, scheduleId);
+
+      if (schedule.status !== 'paused') {
+        throw new BadRequestException(
+          `Only paused schedules can be resumed (current status: ${schedule.status})`,
+        );
+      }
+
+      // Occurrences missed while paused are skipped, not replayed.
+      const now = new Date();
+      const nextRunAt =
+        schedule.nextRunAt && schedule.nextRunAt >= now
+          ? schedule.nextRunAt
+          : schedule.frequency === 'once'
+            ? now
+            : this.firstRunFrom(schedule, now);
+
+      const resumed = await this.prisma.scheduledTransfer.update({
+        where: { id: schedule.id },
+        data: nextRunAt
+          ? { status: 'active', nextRunAt }
+          : { status: 'completed', nextRunAt: null },
+      });
+
+      this.logger.log(`Scheduled transfer resumed: ${schedule.id}`);
+      return this.toResponse(resumed);
+    } catch (error) {
+      this.logger.error('Error resuming scheduled transfer', error);
+      throw error;
+    }
+  }
+
+  async cancelSchedule(userId: string, scheduleId: string) {
+    try {
+      const schedule = await this.findOwned(userId, scheduleId);
+
+      if (schedule.status !== 'active' && schedule.status !== 'paused') {
+        throw new BadRequestException(`Schedule is already ${schedule.status}`);
+      }
+
+      const cancelled = await this.prisma.scheduledTransfer.update({
+        where: { id: schedule.id },
+        data: { status: 'cancelled', nextRunAt: null },
+      });
+
+      this.logger.log(`Scheduled transfer cancelled: ${schedule.id}`);
+      return this.toResponse(cancelled);
+    } catch (error) {
+      this.logger.error('Error cancelling scheduled transfer', error);
+      throw error;
+    }
+  }
+}
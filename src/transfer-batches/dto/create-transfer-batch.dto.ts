@@ -0,0 +1,48 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsIn,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { SUPPORTED_CURRENCIES } from '../../common/utils/money';
+
+export const TRANSFER_BATCH_MODES = ['atomic', 'best_effort'];
+
+export const MAX_TRANSFER_BATCH_ITEMS = 500;
+
+export class TransferBatchItemDto {
+  @IsString()
+  wallet_number: string;
+
+  @IsNumber()
+  @IsPositive()
+  @Min(1)
+  amount: number;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+}
+
+export class CreateTransferBatchDto {
+  @IsIn(TRANSFER_BATCH_MODES)
+  mode: string;
+
+  @IsOptional()
+  @IsIn(SUPPORTED_CURRENCIES)
+  currency?: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(MAX_TRANSFER_BATCH_ITEMS)
+  @ValidateNested({ each: true })
+  @Type(() => TransferBatchItemDto)
+  items: TransferBatchItemDto[];
+}
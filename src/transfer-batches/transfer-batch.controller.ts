@@ -0,0 +1,172 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Body,
+  Param,
+  Query,
+  UseInterceptors,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+  ApiHeader,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { TransferBatchService } from './transfer-batch.service';
+import { IdempotencyInterceptor } from '../common/interceptors/idempotency.interceptor';
+import {
+  type AuthenticatedUser,
+  CurrentUser,
+} from '../common/decorators/current-user.decorator';
+import { RequirePermissions } from '../common/decorators/require-permissions.decorator';
+import { RateLimit } from '../rate-limits/rate-limit.decorator';
+import { ApiKeyId } from '../common/decorators/api-key-id.decorator';
+import { CreateTransferBatchDto } from './dto/create-transfer-batch.dto';
+import { ListTransferBatchesQueryDto } from './dto/list-transfer-batches-query.dto';
+
+const BATCH_EXAMPLE = {
+  id: 'tbt_123abc',
+  mode: 'best_effort',
+  status: 'partially_completed',
+  currency: 'NGN',
+  total_amount: 250000,
+  succeeded_amount: 150000,
+  item_count: 2,
+  succeeded_count: 1,
+  failed_count: 1,
+  created_at: '2025-01-31T09:00:00.000Z',
+  completed_at: '2025-01-31T09:00:02.000Z',
+};
+
+const BATCH_ITEMS_EXAMPLE = [
+  {
+    index: 0,
+    wallet_number: '4566678954356',
+    amount: 150000,
+    description: 'January salary',
+    status: 'success',
+    error: null,
+    transfer_reference: 'batch_tbt_123abc_0',
+  },
+  {
+    index: 1,
+    wallet_number: '4566678954357',
+    amount: 100000,
+    description: 'January salary',
+    status: 'failed',
+    error: 'Insufficient balance',
+    transfer_reference: null,
+  },
+];
+
+@ApiTags('Wallet')
+@Controller('wallet/transfer/batch')
+export class TransferBatchController {
+  constructor(private transferBatchService: TransferBatchService) {}
+
+  @Post()
+  @RequirePermissions('transfer')
+  @RateLimit('transfers')
+  @UseInterceptors(IdempotencyInterceptor)
+  @ApiHeader({
+    name: 'Idempotency-Key',
+    required: false,
+    description:
+      'Unique key for safely retrying this request. A repeat with the same key returns the saved response.',
+  })
+  @ApiOperation({
+    summary: 'Transfer to many wallets',
+    description:
+      'Sends up to 500 transfers in one request. All recipients are validated before any money moves. `atomic` batches transfer everything or nothing; `best_effort` batches run every item and report a result for each.',
+  })
+  @ApiBody({
+    type: CreateTransferBatchDto,
+    examples: {
+      payroll: {
+        summary: 'All-or-nothing payroll',
+        value: {
+          mode: 'atomic',
+          items: [
+            {
+              wallet_number: '4566678954356',
+              amount: 150000,
+              description: 'January salary',
+            },
+            {
+              wallet_number: '4566678954357',
+              amount: 100000,
+              description: 'January salary',
+            },
+          ],
+        },
+      },
+      payouts: {
+        summary: 'Best-effort payouts',
+        value: {
+          mode: 'best_effort',
+          items: [
+            { wallet_number: '4566678954356', amount: 5000 },
+            { wallet_number: '4566678954357', amount: 7500 },
+          ],
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Batch processed',
+    schema: { example: { ...BATCH_EXAMPLE, items: BATCH_ITEMS_EXAMPLE } },
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Unknown or own recipient wallets (one message per item), or insufficient balance for an atomic batch',
+  })
+  @ApiResponse({
+    status: 409,
+    description:
+      'Idempotency-Key already used with a different request, or still being processed',
+  })
+  async createBatch(
+    @CurrentUser() user: AuthenticatedUser,
+    @ApiKeyId() apiKeyId: string | undefined,
+    @Body() dto: CreateTransferBatchDto,
+  ) {
+    return this.transferBatchService.createBatch(user.id, dto, apiKeyId);
+  }
+
+  @Get()
+  @RequirePermissions('read')
+  @ApiOperation({ summary: 'List transfer batches' })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Batches retrieved',
+    schema: { example: [BATCH_EXAMPLE] },
+  })
+  async listBatches(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query() query: ListTransferBatchesQueryDto,
+  ) {
+    return this.transferBatchService.listBatches(user.id, query);
+  }
+
+  @Get(':id')
+  @RequirePermissions('read')
+  @ApiOperation({ summary: 'Get a transfer batch with its items' })
+  @ApiResponse({
+    status: 200,
+    description: 'Batch retrieved',
+    schema: { example: { ...BATCH_EXAMPLE, items: BATCH_ITEMS_EXAMPLE } },
+  })
+  @ApiResponse({ status: 404, description: 'Transfer batch not found' })
+  async getBatch(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ) {
+    return this.transferBatchService.getBatch(user.id, id);
+  }
+}
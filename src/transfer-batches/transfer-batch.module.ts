@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TransferBatchService } from './transfer-batch.service';
+import { TransferBatchController } from './transfer-batch.controller';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/logger/logger.service';
+import { CommonModule } from '../common/common.module';
+import { AuthModule } from '../auth/auth.module';
+import { WalletModule } from '../wallet/wallet.module';
+
+@Module({
+  imports: [AuthModule, CommonModule, WalletModule],
+  controllers: [TransferBatchController],
+  providers: [TransferBatchService, PrismaService, LoggerService],
+})
+export class TransferBatchModule {}
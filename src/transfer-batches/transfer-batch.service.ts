@@ -0,0 +1,326 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, TransferBatch, TransferBatchItem } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/logger/logger.service';
+import { WalletService, WalletWithName } from '../wallet/wallet.service';
+import {
+  DEFAULT_CURRENCY,
+  fromMinorUnits,
+  toMinorUnits,
+} from '../common/utils/money';
+import { CreateTransferBatchDto } from './dto/create-transfer-batch.dto';
+import { ListTransferBatchesQueryDto } from './dto/list-transfer-batches-query.dto';
+
+type BatchContext = {
+  batch: TransferBatch;
+  items: TransferBatchItem[];
+  senderWallet: WalletWithName;
+  recipients: Map<string, WalletWithName>;
+  apiKeyId?: string;
+};
+
+@Injectable()
+export class TransferBatchService {
+  // An atomic batch runs in one database transaction; allow it time to
+  // post every item.
+  private readonly ATOMIC_TIMEOUT_MS_PER_ITEM = 100;
+
+  constructor(
+    private prisma: PrismaService,
+    private logger: LoggerService,
+    private walletService: WalletService,
+  ) {}
+
+  private toResponse(batch: TransferBatch, items?: TransferBatchItem[]) {
+    return {
+      id: batch.id,
+      mode: batch.mode,
+      status: batch.status,
+      currency: batch.currency,
+      total_amount: batch.totalAmount,
+      succeeded_amount: batch.succeededAmount,
+      item_count: batch.itemCount,
+      succeeded_count: batch.succeededCount,
+      failed_count: batch.failedCount,
+      created_at: batch.createdAt.toISOString(),
+      completed_at: batch.completedAt?.toISOString() || null,
+      ...(items && {
+        items: items.map((item) => ({
+          index: item.index,
+          wallet_number: item.walletNumber,
+          amount: item.amount,
+          description: item.description,
+          status: item.status,
+          error: item.error,
+          transfer_reference:
+            item.status === 'success' ? item.transferReference : null,
+        })),
+      }),
+    };
+  }
+
+  /**
+   * Validates every recipient before any money moves, then runs the items
+   * either all-or-nothing (`atomic`) or one by one (`best_effort`).
+   */
+  async createBatch(
+    userId: string,
+    dto: CreateTransferBatchDto,
+    apiKeyId?: string,
+  ) {
+    try {
+      const senderWallet = await this.prisma.wallet.findUnique({
+        where: { userId },
+        include: { user: { select: { name: true } } },
+      });
+
+      if (!senderWallet) {
+        throw new NotFoundException('Sender wallet not found');
+      }
+
+      const wallets = await this.prisma.wallet.findMany({
+        where: {
+          walletNumber: { in: dto.items.map((item) => item.wallet_number) },
+        },
+        include: { user: { select: { name: true } } },
+      });
+      const recipients = new Map(
+        wallets.map((wallet) => [wallet.walletNumber, wallet]),
+      );
+
+      const invalid = dto.items.flatMap((item, index) => {
+        const recipient = recipients.get(item.wallet_number);
+        if (!recipient) {
+          return [`items.${index}: recipient wallet not found`];
+        }
+        if (recipient.userId === userId) {
+          return [`items.${index}: cannot transfer to your own wallet`];
+        }
+        return [];
+      });
+
+      if (invalid.length > 0) {
+        throw new BadRequestException(invalid);
+      }
+
+      const currency = dto.currency ?? DEFAULT_CURRENCY;
+      const total = dto.items.reduce(
+        (sum, item) => sum + toMinorUnits(item.amount),
+        0n,
+      );
+
+      // Early exit only; each transfer is still checked by the ledger.
+      if (
+        dto.mode === 'atomic' &&
+        (await this.walletService.getAvailableBalance(
+          senderWallet.id,
+          currency,
+        )) < total
+      ) {
+        throw new BadRequestException('Insufficient balance for the batch');
+      }
+
+      const batch = await this.prisma.transferBatch.create({
+        data: {
+          senderId: userId,
+          mode: dto.mode,
+          currency,
+          totalAmount: fromMinorUnits(total),
+          itemCount: dto.items.length,
+        },
+      });
+
+      await this.prisma.transferBatchItem.createMany({
+        data: dto.items.map((item, index) => ({
+          batchId: batch.id,
+          index,
+          walletNumber: item.wallet_number,
+          amount: item.amount,
+          description: item.description,
+          transferReference: `batch_${batch.id}_${index}`,
+        })),
+      });
+
+      const items = await this.prisma.transferBatchItem.findMany({
+        where: { batchId: batch.id },
+        orderBy: { index: 'asc' },
+      });
+
+      const context = { batch, items, senderWallet, recipients, apiKeyId };
+      if (dto.mode === 'atomic') {
+        await this.runAtomic(context);
+      } else {
+        await this.runBestEffort(context);
+      }
+
+      const finished = await this.prisma.transferBatch.findUniqueOrThrow({
+        where: { id: batch.id },
+        include: { items: { orderBy: { index: 'asc' } } },
+      });
+
+      this.logger.log(
+        `Transfer batch ${batch.id} by ${userId} ${finished.status}: ${finished.succeededCount}/${finished.itemCount} items, ${finished.succeededAmount} ${currency}`,
+      );
+
+      return this.toResponse(finished, finished.items);
+    } catch (error) {
+      this.logger.error('Error running transfer batch', error);
+      throw error;
+    }
+  }
+
+  private postItem(
+    tx: Prisma.TransactionClient,
+    context: BatchContext,
+    item: TransferBatchItem,
+  ) {
+    return this.walletService.postTransfer(tx, {
+      senderWallet: context.senderWallet,
+      recipientWallet: context.recipients.get(item.walletNumber)!,
+      transferDto: {
+        wallet_number: item.walletNumber,
+        amount: item.amount,
+        description: item.description ?? undefined,
+        currency: context.batch.currency,
+      },
+      reference: item.transferReference!,
+      apiKeyId: context.apiKeyId,
+    });
+  }
+
+  /**
+   * Posts every item in one database transaction. If any fails, nothing is
+   * transferred: the failing item is marked `failed` and the rest `skipped`.
+   */
+  private async runAtomic(context: BatchContext) {
+    const { batch, items } = context;
+    let current: TransferBatchItem | undefined;
+
+    try {
+      await this.prisma.$transaction(
+        async (tx) => {
+          for (const item of items) {
+            current = item;
+            await this.postItem(tx, context, item);
+          }
+
+          await tx.transferBatchItem.updateMany({
+            where: { batchId: batch.id },
+            data: { status: 'success' },
+          });
+          await tx.transferBatch.update({
+            where: { id: batch.id },
+            data: {
+              status: 'completed',
+              succeededCount: items.length,
+              succeededAmount: batch.totalAmount,
+              completedAt: new Date(),
+            },
+          });
+        },
+        {
+          timeout: Math.max(
+            5000,
+            items.length * this.ATOMIC_TIMEOUT_MS_PER_ITEM,
+          ),
+        },
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      await this.prisma.$transaction([
+        this.prisma.transferBatchItem.updateMany({
+          where: { batchId: batch.id, index: { not: current?.index ?? -1 } },
+          data: { status: 'skipped', error: 'Batch rolled back' },
+        }),
+        this.prisma.transferBatchItem.updateMany({
+          where: { batchId: batch.id, index: current?.index ?? -1 },
+          data: { status: 'failed', error: message },
+        }),
+        this.prisma.transferBatch.update({
+          where: { id: batch.id },
+          data: {
+            status: 'failed',
+            failedCount: items.length,
+            completedAt: new Date(),
+          },
+        }),
+      ]);
+    }
+  }
+
+  /**
+   * Posts each item in its own transaction and records its outcome; one
+   * failure does not stop the rest.
+   */
+  private async runBestEffort(context: BatchContext) {
+    const { batch, items } = context;
+    let succeeded = 0;
+    let succeededAmount = 0n;
+
+    for (const item of items) {
+      try {
+        await this.prisma.$transaction((tx) =>
+          this.postItem(tx, context, item),
+        );
+        await this.prisma.transferBatchItem.update({
+          where: { id: item.id },
+          data: { status: 'success' },
+        });
+        succeeded++;
+        succeededAmount += toMinorUnits(item.amount);
+      } catch (error) {
+        await this.prisma.transferBatchItem.update({
+          where: { id: item.id },
+          data: {
+            status: 'failed',
+            error: error instanceof Error ? error.message : String(error),
+          },
+        });
+      }
+    }
+
+    await this.prisma.transferBatch.update({
+      where: { id: batch.id },
+      data: {
+        status:
+          succeeded === items.length
+            ? 'completed'
+            : succeeded === 0
+              ? 'failed'
+              : 'partially_completed',
+        succeededCount: succeeded,
+        failedCount: items.length - succeeded,
+        succeededAmount: fromMinorUnits(succeededAmount),
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  async listBatches(userId: string, query: ListTransferBatchesQueryDto) {
+    const batches = await this.prisma.transferBatch.findMany({
+      where: { senderId: userId },
+      orderBy: { createdAt: 'desc' },
+      take: query.limit ?? 20,
+    });
+
+    return batches.map((batch) => this.toResponse(batch));
+  }
+
+  async getBatch(userId: string, id: string) {
+    const batch = await this.prisma.transferBatch.findFirst({
+      where: { id, senderId: userId },
+      include: { items: { orderBy: { index: 'asc' } } },
+    });
+
+    if (!batch) {
+      throw new NotFoundException('Transfer batch not found');
+    }
+
+    return this.toResponse(batch, batch.items);
+  }
+}
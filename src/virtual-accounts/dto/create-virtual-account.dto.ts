@@ -0,0 +1,7 @@
+import { IsOptional, Matches } from 'class-validator';
+
+export class CreateVirtualAccountDto {
+  @IsOptional()
+  @Matches(/^\+?\d{10,15}$/, { message: 'phone must be a valid phone number' })
+  phone?: string;
+}
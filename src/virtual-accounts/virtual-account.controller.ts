@@ -0,0 +1,69 @@
+import { Controller, Post, Get, Body } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBody } from '@nestjs/swagger';
+import { VirtualAccountService } from './virtual-account.service';
+import {
+  type AuthenticatedUser,
+  CurrentUser,
+} from '../common/decorators/current-user.decorator';
+import { RequirePermissions } from '../common/decorators/require-permissions.decorator';
+import { RateLimit } from '../rate-limits/rate-limit.decorator';
+import { CreateVirtualAccountDto } from './dto/create-virtual-account.dto';
+
+const VIRTUAL_ACCOUNT_EXAMPLE = {
+  account_number: '9930000001',
+  account_name: 'WALLET/JOHN DOE',
+  bank_name: 'Wema Bank',
+  currency: 'NGN',
+  status: 'active',
+  created_at: '2025-01-15T10:00:00.000Z',
+};
+
+@ApiTags('Virtual Account')
+@Controller('wallet/virtual-account')
+export class VirtualAccountController {
+  constructor(private virtualAccountService: VirtualAccountService) {}
+
+  @Post()
+  @RequirePermissions('deposit')
+  @RateLimit('deposits')
+  @ApiOperation({
+    summary: 'Create a virtual bank account',
+    description:
+      'Assigns the wallet a dedicated NUBAN account through Paystack. Bank transfers into it are credited to the wallet automatically. Returns the existing account if the wallet already has one; `status` is `pending` until the bank confirms the assignment.',
+  })
+  @ApiBody({
+    type: CreateVirtualAccountDto,
+    examples: {
+      example1: { summary: 'Without a phone number', value: {} },
+      example2: {
+        summary: 'With a phone number',
+        value: { phone: '+2348012345678' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Virtual account created',
+    schema: { example: VIRTUAL_ACCOUNT_EXAMPLE },
+  })
+  @ApiResponse({ status: 400, description: 'Paystack is not enabled' })
+  async createVirtualAccount(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() dto: CreateVirtualAccountDto,
+  ) {
+    return this.virtualAccountService.createVirtualAccount(user.id, dto);
+  }
+
+  @Get()
+  @RequirePermissions('read')
+  @ApiOperation({ summary: 'Get the virtual bank account' })
+  @ApiResponse({
+    status: 200,
+    description: 'Virtual account retrieved',
+    schema: { example: VIRTUAL_ACCOUNT_EXAMPLE },
+  })
+  @ApiResponse({ status: 404, description: 'Virtual account not found' })
+  async getVirtualAccount(@CurrentUser() user: AuthenticatedUser) {
+    return this.virtualAccountService.getVirtualAccount(user.id);
+  }
+}
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { VirtualAccountService } from './virtual-account.service';
+import { VirtualAccountController } from './virtual-account.controller';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/logger/logger.service';
+import { PaystackService } from '../paystack/paystack.service';
+import { AuthModule } from '../auth/auth.module';
+import { PaymentsModule } from '../payments/payments.module';
+
+@Module({
+  imports: [AuthModule, PaymentsModule],
+  controllers: [VirtualAccountController],
+  providers: [
+    VirtualAccountService,
+    PrismaService,
+    LoggerService,
+    PaystackService,
+  ],
+})
+export class VirtualAccountModule {}
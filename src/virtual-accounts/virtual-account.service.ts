@@ -0,0 +1,122 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { VirtualAccount } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/logger/logger.service';
+import { PaystackService } from '../paystack/paystack.service';
+import { PaymentProviderRegistry } from '../payments/payment-provider.registry';
+import { CreateVirtualAccountDto } from './dto/create-virtual-account.dto';
+
+/**
+ * A Paystack dedicated (NUBAN) bank account per wallet. Transfers into it
+ * are credited by the `charge.success` webhook, see WalletService.
+ */
+@Injectable()
+export class VirtualAccountService {
+  private readonly PREFERRED_BANK =
+    process.env.PAYSTACK_DEDICATED_ACCOUNT_BANK || 'wema-bank';
+
+  constructor(
+    private prisma: PrismaService,
+    private logger: LoggerService,
+    private paystackService: PaystackService,
+    private paymentProviders: PaymentProviderRegistry,
+  ) {}
+
+  private toResponse(account: VirtualAccount) {
+    return {
+      account_number: account.accountNumber,
+      account_name: account.accountName,
+      bank_name: account.bankName,
+      currency: account.currency,
+      status: account.status,
+      created_at: account.createdAt.toISOString(),
+    };
+  }
+
+  async getVirtualAccount(userId: string) {
+    const account = await this.prisma.virtualAccount.findFirst({
+      where: { wallet: { userId } },
+    });
+
+    if (!account) {
+      throw new NotFoundException('Virtual account not found');
+    }
+
+    return this.toResponse(account);
+  }
+
+  /**
+   * Returns the wallet's account if it already has one; a failed assignment
+   * is requested again.
+   */
+  async createVirtualAccount(userId: string, dto: CreateVirtualAccountDto) {
+    try {
+      const wallet = await this.prisma.wallet.findUnique({
+        where: { userId },
+        include: { user: true, virtualAccount: true },
+      });
+
+      if (!wallet) {
+        throw new NotFoundException('Wallet not found');
+      }
+
+      if (wallet.virtualAccount && wallet.virtualAccount.status !== 'failed') {
+        return this.toResponse(wallet.virtualAccount);
+      }
+
+      if (!this.paymentProviders.has('paystack')) {
+        throw new BadRequestException(
+          'Payment provider paystack is not enabled',
+        );
+      }
+
+      const [firstName, ...rest] = (wallet.user.name ?? '').split(' ');
+      const customer = await this.paystackService.createCustomer({
+        email: wallet.user.email,
+        firstName: firstName || undefined,
+        lastName: rest.join(' ') || undefined,
+        phone: dto.phone,
+      });
+
+      const dedicated = await this.paystackService.createDedicatedAccount({
+        customer: customer.customer_code,
+        preferredBank: this.PREFERRED_BANK,
+        phone: dto.phone,
+      });
+
+      // Paystack may finish the assignment later, reported by the
+      // `dedicatedaccount.assign.*` webhooks.
+      const details = {
+        customerCode: customer.customer_code,
+        providerAccountId:
+          dedicated.id !== undefined ? String(dedicated.id) : null,
+        accountNumber: dedicated.account_number ?? null,
+        accountName: dedicated.account_name ?? null,
+        bankName: dedicated.bank?.name ?? null,
+        bankSlug: dedicated.bank?.slug ?? null,
+        currency: dedicated.currency ?? 'NGN',
+        status:
+          dedicated.assigned && dedicated.account_number ? 'active' : 'pending',
+      };
+
+      const account = await this.prisma.virtualAccount.upsert({
+        where: { walletId: wallet.id },
+        create: { walletId: wallet.id, ...details },
+        update: details,
+      });
+
+      this.logger.log(
+        `Virtual account ${account.status} for user ${userId}: ${account.accountNumber ?? 'awaiting assignment'}`,
+      );
+
+      return this.toResponse(account);
+    } catch (error) {
+      this.logger.error('Error creating virtual account', error);
+      throw error;
+    }
+  }
+}
@@ -1,8 +1,18 @@
-import { IsNumber, IsPositive, Min } from 'class-validator';
+import { IsNumber, IsPositive, Min, IsOptional, IsIn } from 'class-validator';
+import { SUPPORTED_CURRENCIES } from '../../common/utils/money';
+import { PAYMENT_PROVIDER_NAMES } from '../../payments/payment-provider.interface';
 
 export class CreateDepositDto {
   @IsNumber()
   @IsPositive()
   @Min(1)
   amount: number;
+
+  @IsOptional()
+  @IsIn(SUPPORTED_CURRENCIES)
+  currency?: string;
+
+  @IsOptional()
+  @IsIn(PAYMENT_PROVIDER_NAMES)
+  provider?: string;
 }
@@ -0,0 +1,10 @@
+import { IsString, Matches } from 'class-validator';
+
+export class ResolveAccountDto {
+  @IsString()
+  bank_code: string;
+
+  @IsString()
+  @Matches(/^\d{10}$/, { message: 'account_number must be 10 digits' })
+  account_number: string;
+}
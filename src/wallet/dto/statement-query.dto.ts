@@ -0,0 +1,18 @@
+import { IsDateString, IsIn, IsOptional } from 'class-validator';
+import { SUPPORTED_CURRENCIES } from '../../common/utils/money';
+
+export class StatementQueryDto {
+  @IsDateString()
+  from: string;
+
+  @IsDateString()
+  to: string;
+
+  @IsOptional()
+  @IsIn(['csv', 'pdf', 'ofx'])
+  format?: 'csv' | 'pdf' | 'ofx';
+
+  @IsOptional()
+  @IsIn(SUPPORTED_CURRENCIES)
+  currency?: string;
+}
@@ -4,7 +4,9 @@ import {
   IsString,
   Min,
   IsOptional,
+  IsIn,
 } from 'class-validator';
+import { SUPPORTED_CURRENCIES } from '../../common/utils/money';
 
 export class TransferDto {
   @IsString()
@@ -18,4 +20,12 @@ export class TransferDto {
   @IsOptional()
   @IsString()
   description?: string;
+
+  @IsOptional()
+  @IsIn(SUPPORTED_CURRENCIES)
+  currency?: string;
+
+  @IsOptional()
+  @IsIn(SUPPORTED_CURRENCIES)
+  target_currency?: string;
 }
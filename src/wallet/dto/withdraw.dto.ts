@@ -0,0 +1,26 @@
+import {
+  IsNumber,
+  IsPositive,
+  IsString,
+  Matches,
+  Min,
+  IsOptional,
+} from 'class-validator';
+
+export class WithdrawDto {
+  @IsNumber()
+  @IsPositive()
+  @Min(100)
+  amount: number;
+
+  @IsString()
+  bank_code: string;
+
+  @IsString()
+  @Matches(/^\d{10}$/, { message: 'account_number must be 10 digits' })
+  account_number: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+}
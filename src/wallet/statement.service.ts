@@ -0,0 +1,358 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { Readable } from 'stream';
+import PDFDocument from 'pdfkit';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/logger/logger.service';
+import {
+  DEFAULT_CURRENCY,
+  fromMinorUnits,
+  toMinorUnits,
+} from '../common/utils/money';
+import { StatementQueryDto } from './dto/statement-query.dto';
+
+interface StatementHeader {
+  walletNumber: string;
+  accountName: string;
+  currency: string;
+  from: Date;
+  to: Date;
+  openingBalance: bigint;
+}
+
+interface StatementLine {
+  id: string;
+  date: Date;
+  type: string;
+  description: string;
+  reference: string;
+  amount: bigint; // signed: credits positive, debits negative
+  balance: bigint;
+}
+
+const CONTENT_TYPES = {
+  csv: 'text/csv',
+  pdf: 'application/pdf',
+  ofx: 'application/x-ofx',
+};
+
+@Injectable()
+export class StatementService {
+  private readonly BATCH_SIZE = 500;
+
+  constructor(
+    private prisma: PrismaService,
+    private logger: LoggerService,
+  ) {}
+
+  /**
+   * Transactions that have moved money on the wallet: settled rows plus
+   * withdrawals, refunds and chargebacks whose amount is held while they are
+   * in flight.
+   */
+  private postedFilter(
+    walletId: string,
+    currency: string,
+  ): Prisma.TransactionWhereInput {
+    return {
+      walletId,
+      currency,
+      OR: [
+        { status: 'success' },
+        {
+          type: { in: ['withdrawal', 'refund', 'chargeback'] },
+          status: 'pending',
+        },
+      ],
+    };
+  }
+
+  private parseRange(query: StatementQueryDto) {
+    const from = new Date(query.from);
+    const to = new Date(query.to);
+
+    // A bare date for `to` covers the whole day.
+    if (/^\d{4}-\d{2}-\d{2}$/.test(query.to)) {
+      to.setUTCHours(23, 59, 59, 999);
+    }
+
+    if (from > to) {
+      throw new BadRequestException('`from` must be before `to`');
+    }
+
+    return { from, to };
+  }
+
+  async createStatement(userId: string, query: StatementQueryDto) {
+    try {
+      const wallet = await this.prisma.wallet.findUnique({
+        where: { userId },
+        include: { user: { select: { name: true, email: true } } },
+      });
+
+      if (!wallet) {
+        throw new NotFoundException('Wallet not found');
+      }
+
+      const format = query.format ?? 'csv';
+      const currency = query.currency ?? DEFAULT_CURRENCY;
+      const { from, to } = this.parseRange(query);
+
+      const totals = await this.prisma.transaction.groupBy({
+        by: ['direction'],
+        where: {
+          AND: [
+            this.postedFilter(wallet.id, currency),
+            { createdAt: { lt: from } },
+          ],
+        },
+        _sum: { amount: true },
+      });
+      const openingBalance = totals.reduce((sum, total) => {
+        const amount = toMinorUnits(total._sum.amount ?? 0);
+        return total.direction === 'in' ? sum + amount : sum - amount;
+      }, 0n);
+
+      const header: StatementHeader = {
+        walletNumber: wallet.walletNumber,
+        accountName: wallet.user.name ?? wallet.user.email,
+        currency,
+        from,
+        to,
+        openingBalance,
+      };
+      const lines = this.readLines(wallet.id, header);
+
+      const stream =
+        format === 'pdf'
+          ? this.toPdf(header, lines)
+          : Readable.from(
+              format === 'ofx'
+                ? this.toOfx(header, lines)
+                : this.toCsv(header, lines),
+            );
+
+      this.logger.log(
+        `Statement generated for user ${userId}: ${format}, ${query.from} to ${query.to}`,
+      );
+
+      return {
+        stream,
+        contentType: CONTENT_TYPES[format],
+        filename: `statement_${wallet.walletNumber}_${query.from.slice(0, 10)}_${query.to.slice(0, 10)}.${format}`,
+      };
+    } catch (error) {
+      this.logger.error('Error generating statement', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reads the statement period in batches so large ranges are never held in
+   * memory at once.
+   */
+  private async *readLines(
+    walletId: string,
+    header: StatementHeader,
+  ): AsyncGenerator<StatementLine> {
+    let balance = header.openingBalance;
+    let cursor: string | undefined;
+
+    while (true) {
+      const batch = await this.prisma.transaction.findMany({
+        where: {
+          AND: [
+            this.postedFilter(walletId, header.currency),
+            { createdAt: { gte: header.from, lte: header.to } },
+          ],
+        },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        take: this.BATCH_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+
+      for (const t of batch) {
+        const magnitude = toMinorUnits(t.amount);
+        const amount = t.direction === 'in' ? magnitude : -magnitude;
+        balance += amount;
+
+        yield {
+          id: t.id,
+          date: t.createdAt,
+          type: t.type,
+          description: t.description ?? '',
+          reference: t.reference ?? '',
+          amount,
+          balance,
+        };
+      }
+
+      if (batch.length < this.BATCH_SIZE) {
+        return;
+      }
+      cursor = batch[batch.length - 1].id;
+    }
+  }
+
+  private csvField(value: string | number): string {
+    const text = String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  private async *toCsv(
+    header: StatementHeader,
+    lines: AsyncGenerator<StatementLine>,
+  ): AsyncGenerator<string> {
+    const row = (values: (string | number)[]) =>
+      `${values.map((value) => this.csvField(value)).join(',')}\n`;
+
+    yield row([
+      'date',
+      'type',
+      'description',
+      'reference',
+      'amount',
+      'balance',
+      'currency',
+    ]);
+    yield row([
+      header.from.toISOString(),
+      'opening_balance',
+      'Opening balance',
+      '',
+      '',
+      fromMinorUnits(header.openingBalance),
+      header.currency,
+    ]);
+
+    let closing = header.openingBalance;
+    for await (const line of lines) {
+      closing = line.balance;
+      yield row([
+        line.date.toISOString(),
+        line.type,
+        line.description,
+        line.reference,
+        fromMinorUnits(line.amount),
+        fromMinorUnits(line.balance),
+        header.currency,
+      ]);
+    }
+
+    yield row([
+      header.to.toISOString(),
+      'closing_balance',
+      'Closing balance',
+      '',
+      '',
+      fromMinorUnits(closing),
+      header.currency,
+    ]);
+  }
+
+  private ofxDate(date: Date): string {
+    return date
+      .toISOString()
+      .replace(/[-:T]/g, '')
+      .replace(/\.\d{3}Z$/, '');
+  }
+
+  private xml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+
+  private async *toOfx(
+    header: StatementHeader,
+    lines: AsyncGenerator<StatementLine>,
+  ): AsyncGenerator<string> {
+    yield '<?xml version="1.0" encoding="UTF-8" standalone="no"?>\n';
+    yield '<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>\n';
+    yield `<OFX><SIGNONMSGSRSV1><SONRS><STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS><DTSERVER>${this.ofxDate(new Date())}</DTSERVER><LANGUAGE>ENG</LANGUAGE></SONRS></SIGNONMSGSRSV1>\n`;
+    yield '<BANKMSGSRSV1><STMTTRNRS><TRNUID>0</TRNUID><STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS><STMTRS>\n';
+    yield `<CURDEF>${header.currency}</CURDEF><BANKACCTFROM><BANKID>WALLET</BANKID><ACCTID>${this.xml(header.walletNumber)}</ACCTID><ACCTTYPE>CHECKING</ACCTTYPE></BANKACCTFROM>\n`;
+    yield `<BANKTRANLIST><DTSTART>${this.ofxDate(header.from)}</DTSTART><DTEND>${this.ofxDate(header.to)}</DTEND>\n`;
+
+    let closing = header.openingBalance;
+    for await (const line of lines) {
+      closing = line.balance;
+      yield `<STMTTRN><TRNTYPE>${line.amount >= 0n ? 'CREDIT' : 'DEBIT'}</TRNTYPE><DTPOSTED>${this.ofxDate(line.date)}</DTPOSTED><TRNAMT>${fromMinorUnits(line.amount).toFixed(2)}</TRNAMT><FITID>${line.id}</FITID><NAME>${this.xml(line.type)}</NAME><MEMO>${this.xml(line.description || line.reference)}</MEMO></STMTTRN>\n`;
+    }
+
+    yield '</BANKTRANLIST>\n';
+    yield `<LEDGERBAL><BALAMT>${fromMinorUnits(closing).toFixed(2)}</BALAMT><DTASOF>${this.ofxDate(header.to)}</DTASOF></LEDGERBAL>\n`;
+    yield '</STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>\n';
+  }
+
+  private toPdf(
+    header: StatementHeader,
+    lines: AsyncGenerator<StatementLine>,
+  ): Readable {
+    const doc = new PDFDocument({ size: 'A4', margin: 40 });
+    const columns = [40, 120, 190, 380, 465];
+    const bottom = doc.page.height - 60;
+    const money = (amount: bigint) => fromMinorUnits(amount).toFixed(2);
+
+    const writeRow = (values: string[], bold = false) => {
+      if (doc.y > bottom) {
+        doc.addPage();
+      }
+      const y = doc.y;
+      doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(8);
+      values.forEach((value, i) => {
+        doc.text(value, columns[i], y, {
+          width: (columns[i + 1] ?? doc.page.width - 40) - columns[i] - 5,
+          lineBreak: false,
+          ellipsis: true,
+        });
+      });
+      doc.moveDown(0.6);
+    };
+
+    const fill = async () => {
+      doc.font('Helvetica-Bold').fontSize(14).text('Account Statement');
+      doc.font('Helvetica').fontSize(9);
+      doc.text(`Account: ${header.accountName}`);
+      doc.text(`Wallet number: ${header.walletNumber}`);
+      doc.text(
+        `Period: ${header.from.toISOString().slice(0, 10)} to ${header.to.toISOString().slice(0, 10)} (${header.currency})`,
+      );
+      doc.text(`Opening balance: ${money(header.openingBalance)}`);
+      doc.moveDown();
+
+      writeRow(['Date', 'Type', 'Description', 'Amount', 'Balance'], true);
+
+      let closing = header.openingBalance;
+      for await (const line of lines) {
+        closing = line.balance;
+        writeRow([
+          line.date.toISOString().slice(0, 16).replace('T', ' '),
+          line.type,
+          line.description || line.reference,
+          money(line.amount),
+          money(line.balance),
+        ]);
+      }
+
+      doc.moveDown();
+      doc
+        .font('Helvetica-Bold')
+        .fontSize(9)
+        .text(`Closing balance: ${money(closing)}`, columns[0]);
+      doc.end();
+    };
+
+    fill().catch((error: Error) => {
+      this.logger.error('Error writing PDF statement', error);
+      doc.destroy(error);
+    });
+
+    return doc;
+  }
+}
@@ -3,78 +3,111 @@ import {
   Post,
   Get,
   Body,
-  UseGuards,
   Param,
-  Headers,
-  Req,
-  UnauthorizedException,
+  Query,
+  UseInterceptors,
+  StreamableFile,
 } from '@nestjs/common';
-import type { Request } from 'express';
 import { WalletService } from './wallet.service';
-import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
-import { ApiKeyGuard } from '../common/guards/api-key.guard';
-import { CurrentUser } from '../common/decorators/current-user.decorator';
-import { ApiKeyPermissions } from '../common/decorators/api-key-permissions.decorator';
+import { StatementService } from './statement.service';
+import { IdempotencyInterceptor } from '../common/interceptors/idempotency.interceptor';
+import {
+  type AuthenticatedUser,
+  CurrentUser,
+} from '../common/decorators/current-user.decorator';
+import {
+  missingPermissionsDescription,
+  RequirePermissions,
+} from '../common/decorators/require-permissions.decorator';
+import { RateLimit } from '../rate-limits/rate-limit.decorator';
+import { ApiKeyId } from '../common/decorators/api-key-id.decorator';
 import { CreateDepositDto } from './dto/create-deposit.dto';
 import { TransferDto } from './dto/transfer.dto';
+import { WithdrawDto } from './dto/withdraw.dto';
+import { ResolveAccountDto } from './dto/resolve-account.dto';
+import { TransactionHistoryQueryDto } from './dto/transaction-history-query.dto';
+import { StatementQueryDto } from './dto/statement-query.dto';
 import {
   ApiTags,
-  ApiBearerAuth,
   ApiOperation,
   ApiResponse,
   ApiBody,
-  ApiSecurity,
+  ApiHeader,
+  ApiQuery,
 } from '@nestjs/swagger';
 
+const LIMIT_EXCEEDED_EXAMPLE = {
+  statusCode: 403,
+  error: 'Forbidden',
+  code: 'DAILY_LIMIT_EXCEEDED',
+  message:
+    'Account daily transfer limit of 1000000 NGN exceeded: 250000 NGN remaining',
+  scope: 'account',
+  operation: 'transfer',
+  currency: 'NGN',
+  limit: 1000000,
+  remaining: 250000,
+};
+
 @ApiTags('Wallet')
 @Controller('wallet')
 export class WalletController {
-  constructor(private walletService: WalletService) {}
-
-  validateApiKeyPermission(permissions: string[], requiredPermission: string) {
-    return permissions.includes(requiredPermission);
-  }
+  constructor(
+    private walletService: WalletService,
+    private statementService: StatementService,
+  ) {}
 
   @Get('balance')
-  @ApiBearerAuth('access-token')
-  @ApiSecurity('x-api-key')
-  @UseGuards(JwtAuthGuard, ApiKeyGuard)
-  @ApiOperation({ summary: 'Get wallet balance' })
+  @RequirePermissions('read')
+  @ApiOperation({
+    summary: 'Get wallet balance',
+    description:
+      '`available_balance` is the balance minus funds reserved by active holds. `virtual_account` is the bank account for funding the wallet by transfer, or null if none is assigned.',
+  })
   @ApiResponse({
     status: 200,
     description: 'Wallet balance retrieved successfully',
     schema: {
       example: {
         balance: 15000,
-        wallet_number: "nbidofpope..."
+        available_balance: 12000,
+        currency: 'NGN',
+        wallet_number: 'nbidofpope...',
+        balances: [
+          { currency: 'NGN', balance: 15000, available_balance: 12000 },
+          { currency: 'USD', balance: 20.5, available_balance: 20.5 },
+        ],
+        virtual_account: {
+          account_number: '9930000001',
+          account_name: 'WALLET/JOHN DOE',
+          bank_name: 'Wema Bank',
+        },
       },
     },
   })
-  @ApiResponse({
-    status: 401,
-    description:
-      'This api key does not have `read` permission necessary to perform this action',
-  })
-  async getBalance(
-    @CurrentUser() user: any,
-    @ApiKeyPermissions() permissions: string[],
-  ) {
-    const permitted = this.validateApiKeyPermission(permissions, 'read');
-    if (!permitted)
-      throw new UnauthorizedException(
-        'This api key does not have `read` permission necessary to perform this action',
-      );
+  async getBalance(@CurrentUser() user: AuthenticatedUser) {
     return this.walletService.getWalletBalance(user.id);
   }
 
   @Post('deposit')
-  @UseGuards(JwtAuthGuard, ApiKeyGuard)
-  @ApiBearerAuth('access-token')
-  @ApiSecurity('x-api-key')
+  @ApiResponse({
+    status: 403,
+    description: `Over a deposit limit. \`code\` is PER_TRANSACTION_LIMIT_EXCEEDED, DAILY_LIMIT_EXCEEDED or MONTHLY_LIMIT_EXCEEDED; or: ${missingPermissionsDescription(['deposit'])}`,
+    schema: { example: LIMIT_EXCEEDED_EXAMPLE },
+  })
+  @RequirePermissions('deposit')
+  @RateLimit('deposits')
+  @UseInterceptors(IdempotencyInterceptor)
+  @ApiHeader({
+    name: 'Idempotency-Key',
+    required: false,
+    description:
+      'Unique key for safely retrying this request. A repeat with the same key returns the saved response.',
+  })
   @ApiOperation({
-    summary: 'Initialize a deposit with Paystack',
+    summary: 'Initialize a deposit',
     description:
-      'Creates a Paystack transaction and returns a payment link. User must complete payment on Paystack.',
+      'Creates a checkout with the chosen payment provider (`paystack`, `paypal` or `fake`; the default is set by `DEFAULT_PAYMENT_PROVIDER`) and returns a payment link. User must complete payment with the provider.',
   })
   @ApiBody({
     type: CreateDepositDto,
@@ -91,6 +124,21 @@ export class WalletController {
           amount: 50000,
         },
       },
+      example3: {
+        summary: 'Deposit 100 US Dollars',
+        value: {
+          amount: 100,
+          currency: 'USD',
+        },
+      },
+      example4: {
+        summary: 'Deposit 100 US Dollars with PayPal',
+        value: {
+          amount: 100,
+          currency: 'USD',
+          provider: 'paypal',
+        },
+      },
     },
   })
   @ApiResponse({
@@ -100,35 +148,33 @@ export class WalletController {
       example: {
         reference: 'wallet_user123_1704099600000_a1b2c3d4',
         authorization_url: 'https://checkout.paystack.com/...',
+        provider: 'paystack',
       },
     },
   })
-  @ApiResponse({ status: 400, description: 'Invalid amount' })
   @ApiResponse({
-    status: 401,
+    status: 400,
+    description: 'Invalid amount or payment provider not enabled',
+  })
+  @ApiResponse({
+    status: 409,
     description:
-      'This api key does not have `deposit` permission necessary to perform this action',
+      'Idempotency-Key already used with a different request, or still being processed',
   })
   async initializeDeposit(
-    @CurrentUser() user: any,
-    @ApiKeyPermissions() permissions: string[],
+    @CurrentUser() user: AuthenticatedUser,
+    @ApiKeyId() apiKeyId: string | undefined,
     @Body() depositDto: CreateDepositDto,
   ) {
-    const permitted = this.validateApiKeyPermission(permissions, 'deposit');
-    if (!permitted)
-      throw new UnauthorizedException(
-        'This api key does not have `deposit` permission necessary to perform this action',
-      );
-    return this.walletService.initializeDeposit(user.id, depositDto);
+    return this.walletService.initializeDeposit(user.id, depositDto, apiKeyId);
   }
 
   @Get('deposit/:reference/status')
-  @ApiBearerAuth('access-token')
-  @ApiSecurity('x-api-key')
-  @UseGuards(JwtAuthGuard, ApiKeyGuard)
+  @RequirePermissions('read')
   @ApiOperation({
-    summary: 'Verify deposit status (manual check only)',
-    description: 'Checks the status of a deposit.',
+    summary: 'Verify deposit status',
+    description:
+      'Checks the status of one of your deposits. A pending deposit is verified with Paystack and credited or failed on the spot if Paystack has a final result.',
   })
   @ApiResponse({
     status: 200,
@@ -138,81 +184,36 @@ export class WalletController {
         reference: 'wallet_user123_1704099600000_a1b2c3d4',
         status: 'success',
         amount: 5000,
+        currency: 'NGN',
       },
     },
   })
   @ApiResponse({
     status: 404,
-    description: 'Transaction not found',
-  })
-  @ApiResponse({
-    status: 401,
-    description:
-      'This api key does not have `read` permission necessary to  perform this action',
+    description: 'No deposit with this reference on your wallet',
   })
   async verifyDepositStatus(
-    @ApiKeyPermissions() permissions: string[],
+    @CurrentUser() user: AuthenticatedUser,
     @Param('reference') reference: string,
   ) {
-    const permitted = this.validateApiKeyPermission(permissions, 'read');
-    if (!permitted)
-      throw new UnauthorizedException(
-        'This api key does not have `read` permission necessary to perform this action',
-      );
-    return this.walletService.verifyDepositStatus(reference);
+    return this.walletService.verifyDepositStatus(user.id, reference);
   }
 
-  @Post('paystack/webhook')
-  @ApiOperation({
-    summary: 'Paystack webhook endpoint',
-    description:
-      'Receives transaction updates from Paystack. Only this endpoint can credit wallets. Must validate Paystack signature.',
-  })
-  @ApiBody({
-    schema: {
-      example: {
-        event: 'charge.success',
-        data: {
-          id: 123456,
-          reference: 'wallet_user123_1704099600000_a1b2c3d4',
-          amount: 500000,
-          paid_at: '2025-01-01T12:00:00.000Z',
-          customer: {
-            id: 1,
-            email: 'user@example.com',
-          },
-        },
-      },
-    },
-  })
+  @Post('transfer')
   @ApiResponse({
-    status: 200,
-    description: 'Webhook processed successfully',
-    schema: {
-      example: {
-        status: true,
-      },
-    },
+    status: 403,
+    description: `Over a transfer limit. \`code\` is PER_TRANSACTION_LIMIT_EXCEEDED, DAILY_LIMIT_EXCEEDED, MONTHLY_LIMIT_EXCEEDED or HOURLY_TRANSFER_COUNT_EXCEEDED; or: ${missingPermissionsDescription(['transfer'])}`,
+    schema: { example: LIMIT_EXCEEDED_EXAMPLE },
   })
-  @ApiResponse({
-    status: 400,
-    description: 'Invalid webhook signature',
+  @RequirePermissions('transfer')
+  @RateLimit('transfers')
+  @UseInterceptors(IdempotencyInterceptor)
+  @ApiHeader({
+    name: 'Idempotency-Key',
+    required: false,
+    description:
+      'Unique key for safely retrying this request. A repeat with the same key returns the saved response.',
   })
-  async handlePaystackWebhook(
-    @Req() request: Request,
-    @Headers('x-paystack-signature') signature: string,
-  ) {
-    const body =
-      typeof request.body === 'string'
-        ? JSON.parse(request.body)
-        : request.body;
-    return this.walletService.handlePaystackWebhook(body, signature);
-  }
-
-  @Post('transfer')
-  @ApiBearerAuth('access-token')
-  @ApiSecurity('x-api-key')
-  @UseGuards(JwtAuthGuard, ApiKeyGuard)
   @ApiOperation({
     summary: 'Transfer funds to another wallet',
     description:
@@ -236,6 +237,15 @@ export class WalletController {
           description: 'Payment for services',
         },
       },
+      example3: {
+        summary: 'Send 10 USD, recipient receives Naira',
+        value: {
+          wallet_number: '4566678954356',
+          amount: 10,
+          currency: 'USD',
+          target_currency: 'NGN',
+        },
+      },
     },
   })
   @ApiResponse({
@@ -245,94 +255,321 @@ export class WalletController {
       example: {
         status: 'success',
         message: 'Transfer completed',
+        reference: 'transfer_user123_user456_1704185600000_e5f6g7h8',
+        amount: 10,
+        currency: 'USD',
+        fx_rate: 1500,
+        converted_amount: 15000,
+        converted_currency: 'NGN',
       },
     },
   })
   @ApiResponse({
     status: 400,
     description:
-      'Invalid request - insufficient balance, invalid wallet, or same wallet',
+      'Invalid request - insufficient balance, invalid wallet, same wallet, or no exchange rate',
   })
   @ApiResponse({
     status: 404,
     description: 'Recipient wallet not found',
   })
   @ApiResponse({
-    status: 401,
+    status: 409,
     description:
-      'This api key does not have `transfer` permission necessary to perform this action',
+      'Idempotency-Key already used with a different request, or still being processed',
   })
   async transfer(
-    @CurrentUser() user: any,
-    @ApiKeyPermissions() permissions: string[],
+    @CurrentUser() user: AuthenticatedUser,
+    @ApiKeyId() apiKeyId: string | undefined,
     @Body() transferDto: TransferDto,
   ) {
-    const permitted = this.validateApiKeyPermission(permissions, 'transfer');
-    if (!permitted)
-      throw new UnauthorizedException(
-        'This api key does not have `transfer` permission necessary to perform this action',
-      );
-    return this.walletService.transferFunds(user.id, transferDto);
+    return this.walletService.transferFunds(user.id, transferDto, {
+      apiKeyId,
+    });
   }
 
-  @Get('transactions')
-  @ApiBearerAuth('access-token')
-  @ApiSecurity('x-api-key')
-  @UseGuards(JwtAuthGuard, ApiKeyGuard)
+  @Get('fx/rates')
+  @RequirePermissions('read')
   @ApiOperation({
-    summary: 'Get transaction history',
+    summary: 'Get exchange rates used for cross-currency transfers',
     description:
-      "Retrieve all transactions for the authenticated user's wallet (deposits, transfers sent/received)",
+      'Rates are units of the base currency per one unit of each currency.',
   })
   @ApiResponse({
     status: 200,
-    description: 'Transaction history retrieved successfully',
+    description: 'Exchange rates retrieved successfully',
+    schema: {
+      example: {
+        base: 'NGN',
+        rates: { NGN: 1, USD: 1500, GHS: 100 },
+      },
+    },
+  })
+  getExchangeRates() {
+    return this.walletService.getExchangeRates();
+  }
+
+  @Get('banks')
+  @RequirePermissions('read')
+  @ApiOperation({ summary: 'List banks available for withdrawals' })
+  @ApiResponse({
+    status: 200,
+    description: 'Bank list retrieved successfully',
     schema: {
       example: [
-        {
-          id: 'txn_123abc',
-          type: 'deposit',
+        { name: 'Access Bank', code: '044' },
+        { name: 'Guaranty Trust Bank', code: '058' },
+      ],
+    },
+  })
+  async listBanks() {
+    return this.walletService.listBanks();
+  }
+
+  @Get('banks/resolve')
+  @RequirePermissions('read')
+  @ApiOperation({
+    summary: 'Resolve a bank account name',
+    description:
+      'Looks up the account name for an account number so it can be confirmed before withdrawing.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Account resolved',
+    schema: {
+      example: {
+        account_number: '0123456789',
+        account_name: 'DANIEL DOE',
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Account could not be resolved' })
+  async resolveBankAccount(@Query() resolveDto: ResolveAccountDto) {
+    return this.walletService.resolveBankAccount(resolveDto);
+  }
+
+  @Post('withdraw')
+  @ApiResponse({
+    status: 403,
+    description: `Over a withdraw limit. \`code\` is PER_TRANSACTION_LIMIT_EXCEEDED, DAILY_LIMIT_EXCEEDED or MONTHLY_LIMIT_EXCEEDED; or: ${missingPermissionsDescription(['withdraw'])}`,
+    schema: { example: LIMIT_EXCEEDED_EXAMPLE },
+  })
+  @RequirePermissions('withdraw')
+  @RateLimit('withdrawals')
+  @UseInterceptors(IdempotencyInterceptor)
+  @ApiHeader({
+    name: 'Idempotency-Key',
+    required: false,
+    description:
+      'Unique key for safely retrying this request. A repeat with the same key returns the saved response.',
+  })
+  @ApiOperation({
+    summary: 'Withdraw funds to a bank account',
+    description:
+      'Pays out from the wallet via a Paystack transfer. The amount is held until Paystack confirms or fails the transfer by webhook.',
+  })
+  @ApiBody({
+    type: WithdrawDto,
+    examples: {
+      example1: {
+        summary: 'Withdraw 5000 to a bank account',
+        value: {
           amount: 5000,
-          status: 'success',
-          description: 'Paystack deposit',
-          reference: 'wallet_user123_1704099600000_a1b2c3d4',
-          createdAt: '2025-01-01T12:00:00Z',
-        },
-        {
-          id: 'txn_456def',
-          type: 'transfer',
-          amount: 2000,
-          status: 'success',
-          description: 'Sent to wallet 4566678954356',
-          reference: 'transfer_user123_1704185600000_e5f6g7h8',
-          createdAt: '2025-01-02T14:30:00Z',
+          bank_code: '058',
+          account_number: '0123456789',
         },
-        {
-          id: 'txn_789ghi',
-          type: 'transfer',
-          amount: 1500,
-          status: 'success',
-          description: 'Received from wallet 1234567890123',
-          reference: 'transfer_otheruser_1704272000000_i9j0k1l2',
-          createdAt: '2025-01-03T10:15:00Z',
-        },
-      ],
+      },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Withdrawal initiated',
+    schema: {
+      example: {
+        reference: 'withdrawal_user123_1704099600000_a1b2c3d4',
+        status: 'pending',
+        amount: 5000,
+        account_name: 'DANIEL DOE',
+      },
     },
   })
   @ApiResponse({
-    status: 401,
+    status: 400,
+    description: 'Insufficient balance or account could not be resolved',
+  })
+  @ApiResponse({
+    status: 409,
+    description:
+      'Idempotency-Key already used with a different request, or still being processed',
+  })
+  async withdraw(
+    @CurrentUser() user: AuthenticatedUser,
+    @ApiKeyId() apiKeyId: string | undefined,
+    @Body() withdrawDto: WithdrawDto,
+  ) {
+    return this.walletService.withdrawFunds(user.id, withdrawDto, apiKeyId);
+  }
+
+  @Get('transactions')
+  @RequirePermissions('read')
+  @ApiOperation({
+    summary: 'Get transaction history',
     description:
-      'This api key does not have `read` permission necessary to perform this action',
+      "Retrieve transactions for the authenticated user's wallet (deposits, transfers sent/received, withdrawals), newest first. Pass `next_cursor` back as `cursor` to fetch the next page.",
   })
+  @ApiQuery({
+    name: 'type',
+    required: false,
+    enum: [
+      'deposit',
+      'transfer',
+      'withdrawal',
+      'reversal',
+      'refund',
+      'chargeback',
+    ],
+  })
+  @ApiQuery({
+    name: 'status',
+    required: false,
+    enum: ['pending', 'success', 'failed', 'reversed', 'abandoned'],
+  })
+  @ApiQuery({ name: 'direction', required: false, enum: ['in', 'out'] })
+  @ApiQuery({ name: 'currency', required: false, enum: ['NGN', 'USD', 'GHS'] })
+  @ApiQuery({
+    name: 'from',
+    required: false,
+    description: 'ISO date, inclusive',
+  })
+  @ApiQuery({ name: 'to', required: false, description: 'ISO date, inclusive' })
+  @ApiQuery({ name: 'min_amount', required: false, type: Number })
+  @ApiQuery({ name: 'max_amount', required: false, type: Number })
+  @ApiQuery({
+    name: 'search',
+    required: false,
+    description: 'Matches description or reference',
+  })
+  @ApiQuery({ name: 'cursor', required: false })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: '1-100, default 50',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Transaction history retrieved successfully',
+    schema: {
+      example: {
+        transactions: [
+          {
+            id: 'txn_123abc',
+            type: 'deposit',
+            direction: 'in',
+            amount: 5000,
+            currency: 'NGN',
+            status: 'success',
+            description: 'Paystack deposit',
+            reference: 'wallet_user123_1704099600000_a1b2c3d4',
+            createdAt: '2025-01-01T12:00:00Z',
+          },
+          {
+            id: 'txn_456def',
+            type: 'transfer',
+            direction: 'out',
+            amount: 2000,
+            currency: 'NGN',
+            status: 'success',
+            description: 'Transfer to Daniel',
+            reference: 'transfer_user123_1704185600000_e5f6g7h8',
+            createdAt: '2025-01-02T14:30:00Z',
+          },
+        ],
+        next_cursor: 'MjAyNS0wMS0wMlQxNDozMDowMC4wMDBafHR4bl80NTZkZWY',
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Invalid filter or cursor' })
   async getTransactions(
-    @CurrentUser() user: any,
-    @ApiKeyPermissions() permissions: string[],
+    @CurrentUser() user: AuthenticatedUser,
+    @Query() query: TransactionHistoryQueryDto,
+  ) {
+    return this.walletService.getTransactionHistory(user.id, query);
+  }
+
+  @Get('statement')
+  @RequirePermissions('read')
+  @ApiOperation({
+    summary: 'Export an account statement',
+    description:
+      'Streams a statement with opening balance, closing balance and a running balance per line. Formats: csv (default), pdf, ofx.',
+  })
+  @ApiQuery({ name: 'from', required: true, description: 'ISO date' })
+  @ApiQuery({
+    name: 'to',
+    required: true,
+    description: 'ISO date; a bare date covers the whole day',
+  })
+  @ApiQuery({ name: 'format', required: false, enum: ['csv', 'pdf', 'ofx'] })
+  @ApiQuery({ name: 'currency', required: false, enum: ['NGN', 'USD', 'GHS'] })
+  @ApiResponse({
+    status: 200,
+    description: 'Statement file',
+    content: {
+      'text/csv': {},
+      'application/pdf': {},
+      'application/x-ofx': {},
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Invalid date range or format' })
+  async getStatement(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query() query: StatementQueryDto,
   ) {
-    const permitted = this.validateApiKeyPermission(permissions, 'read');
-    if (!permitted)
-      throw new UnauthorizedException(
-        'This api key does not have `read` permission necessary to perform this action',
-      );
-    return this.walletService.getTransactionHistory(user.id);
+    const statement = await this.statementService.createStatement(
+      user.id,
+      query,
+    );
+    return new StreamableFile(statement.stream, {
+      type: statement.contentType,
+      disposition: `attachment; filename="${statement.filename}"`,
+    });
+  }
+
+  @Get('ledger/reconcile')
+  @RequirePermissions('read')
+  @ApiOperation({
+    summary: 'Check wallet balance against the ledger',
+    description:
+      "Sums the wallet's journal lines and compares the total with the stored wallet balance.",
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Ledger check completed',
+    schema: {
+      example: {
+        wallet_number: 'nbidofpope...',
+        consistent: true,
+        balances: [
+          {
+            currency: 'NGN',
+            balance: 15000,
+            ledger_balance: 15000,
+            difference: 0,
+            consistent: true,
+          },
+          {
+            currency: 'USD',
+            balance: 20,
+            ledger_balance: 20,
+            difference: 0,
+            consistent: true,
+          },
+        ],
+      },
+    },
+  })
+  async reconcileLedger(@CurrentUser() user: AuthenticatedUser) {
+    return this.walletService.reconcileLedger(user.id);
   }
 }
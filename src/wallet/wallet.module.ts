@@ -1,15 +1,36 @@
 import { Module } from '@nestjs/common';
 import { WalletService } from './wallet.service';
+import { StatementService } from './statement.service';
 import { WalletController } from './wallet.controller';
 import { PrismaService } from '../prisma/prisma.service';
 import { LoggerService } from '../common/logger/logger.service';
 import { PaystackService } from '../paystack/paystack.service';
+import { CommonModule } from '../common/common.module';
 import { AuthModule } from 'src/auth/auth.module';
+import { LedgerModule } from '../ledger/ledger.module';
+import { FxModule } from '../fx/fx.module';
+import { PaymentsModule } from '../payments/payments.module';
+import { OutboundWebhookModule } from '../outbound-webhooks/outbound-webhook.module';
+import { LimitModule } from '../limits/limit.module';
 
 @Module({
-  imports: [AuthModule],
+  imports: [
+    AuthModule,
+    CommonModule,
+    LedgerModule,
+    FxModule,
+    PaymentsModule,
+    OutboundWebhookModule,
+    LimitModule,
+  ],
   controllers: [WalletController],
-  providers: [WalletService, PrismaService, LoggerService, PaystackService],
+  providers: [
+    WalletService,
+    StatementService,
+    PrismaService,
+    LoggerService,
+    PaystackService,
+  ],
   exports: [WalletService],
 })
 export class WalletModule {}
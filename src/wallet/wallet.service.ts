@@ -1,44 +1,134 @@
 import {
   Injectable,
   BadRequestException,
+  ConflictException,
   NotFoundException,
 } from '@nestjs/common';
+import { Prisma, Transaction, Wallet } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 import { LoggerService } from '../common/logger/logger.service';
-import { PaystackService } from '../paystack/paystack.service';
+import {
+  PaystackAuthorization,
+  PaystackCharge,
+  PaystackDedicatedAccountAssignment,
+  PaystackDispute,
+  PaystackRefund,
+  PaystackService,
+  PaystackTransfer,
+} from '../paystack/paystack.service';
+import { PaymentProviderRegistry } from '../payments/payment-provider.registry';
+import {
+  ChargeEventData,
+  InitializedPayment,
+  PaymentEvent,
+} from '../payments/payment-provider.interface';
+import { OutboundWebhookService } from '../outbound-webhooks/outbound-webhook.service';
+import {
+  LedgerLineInput,
+  LedgerService,
+  SYSTEM_ACCOUNTS,
+  SystemAccount,
+} from '../ledger/ledger.service';
+import { FxService } from '../fx/fx.service';
+import { LimitService } from '../limits/limit.service';
 import { CreateDepositDto } from './dto/create-deposit.dto';
 import { TransferDto } from './dto/transfer.dto';
+import { WithdrawDto } from './dto/withdraw.dto';
+import { ResolveAccountDto } from './dto/resolve-account.dto';
+import { TransactionHistoryQueryDto } from './dto/transaction-history-query.dto';
+import {
+  DEFAULT_CURRENCY,
+  fromMinorUnits,
+  toMinorUnits,
+} from '../common/utils/money';
 import * as crypto from 'crypto';
 
+export type WalletWithName = Wallet & { user: { name: string | null } };
+
 @Injectable()
 export class WalletService {
   constructor(
     private prisma: PrismaService,
     private logger: LoggerService,
     private paystackService: PaystackService,
+    private ledgerService: LedgerService,
+    private fxService: FxService,
+    private paymentProviders: PaymentProviderRegistry,
+    private outboundWebhookService: OutboundWebhookService,
+    private limitService: LimitService,
   ) {}
 
+  /**
+   * Balance minus funds reserved by active holds.
+   */
+  async getAvailableBalance(
+    walletId: string,
+    currency: string,
+  ): Promise<bigint> {
+    const walletBalance = await this.prisma.walletBalance.findUnique({
+      where: { walletId_currency: { walletId, currency } },
+    });
+    return walletBalance
+      ? walletBalance.balance - walletBalance.heldBalance
+      : 0n;
+  }
+
   async getWalletBalance(userId: string) {
     try {
       const wallet = await this.prisma.wallet.findUnique({
         where: { userId },
+        include: {
+          balances: { orderBy: { currency: 'asc' } },
+          virtualAccount: true,
+        },
       });
 
       if (!wallet) {
         throw new NotFoundException('Wallet not found');
       }
 
+      const balances = wallet.balances.map((b) => ({
+        currency: b.currency,
+        balance: fromMinorUnits(b.balance),
+        available_balance: fromMinorUnits(b.balance - b.heldBalance),
+      }));
+      const defaultBalance = wallet.balances.find(
+        (b) => b.currency === DEFAULT_CURRENCY,
+      );
+
       this.logger.log(
-        `Retrieved wallet balance for user ${userId}: ${wallet.balance}`,
+        `Retrieved wallet balances for user ${userId}: ${balances.length} currencies`,
       );
-      return { balance: wallet.balance, wallet_number: wallet.walletNumber };
+      return {
+        balance: fromMinorUnits(defaultBalance?.balance ?? 0n),
+        available_balance: fromMinorUnits(
+          defaultBalance
+            ? defaultBalance.balance - defaultBalance.heldBalance
+            : 0n,
+        ),
+        currency: DEFAULT_CURRENCY,
+        wallet_number: wallet.walletNumber,
+        balances,
+        virtual_account:
+          wallet.virtualAccount?.status === 'active'
+            ? {
+                account_number: wallet.virtualAccount.accountNumber,
+                account_name: wallet.virtualAccount.accountName,
+                bank_name: wallet.virtualAccount.bankName,
+              }
+            : null,
+      };
     } catch (error) {
       this.logger.error('Error getting wallet balance', error);
       throw error;
     }
   }
 
-  async initializeDeposit(userId: string, depositDto: CreateDepositDto) {
+  async initializeDeposit(
+    userId: string,
+    depositDto: CreateDepositDto,
+    apiKeyId?: string,
+  ) {
     try {
       const wallet = await this.prisma.wallet.findUnique({
         where: { userId },
@@ -49,40 +139,75 @@ export class WalletService {
         throw new NotFoundException('Wallet not found');
       }
 
+      const currency = depositDto.currency ?? DEFAULT_CURRENCY;
+      const provider = this.paymentProviders.get(depositDto.provider);
       const reference = `wallet_${userId}_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`;
-      const paystackResponse = await this.paystackService.initializeTransaction(
-        {
+
+      // Record the deposit with the limit check, so concurrent deposits
+      // cannot both fit into the same remaining allowance.
+      const transaction = await this.prisma.$transaction(async (tx) => {
+        await this.limitService.assertWithinLimits(tx, {
+          userId,
+          walletId: wallet.id,
+          apiKeyId,
+          operation: 'deposit',
+          currency,
+          amount: depositDto.amount,
+        });
+
+        return tx.transaction.create({
+          data: {
+            walletId: wallet.id,
+            type: 'deposit',
+            direction: 'in',
+            amount: depositDto.amount,
+            currency,
+            reference,
+            provider: provider.name,
+            status: 'pending',
+            apiKeyId,
+          },
+        });
+      });
+
+      let payment: InitializedPayment;
+      try {
+        payment = await provider.initializePayment({
           email: wallet.user.email,
-          amount: Math.round(depositDto.amount * 100),
+          amount: Number(toMinorUnits(depositDto.amount)),
+          currency,
           reference,
           metadata: {
             userId,
             walletId: wallet.id,
           },
-        },
-      );
+        });
+      } catch (error) {
+        await this.prisma.transaction.updateMany({
+          where: { id: transaction.id, status: 'pending' },
+          data: { status: 'failed' },
+        });
+        throw error;
+      }
 
-      await this.prisma.transaction.create({
+      await this.prisma.transaction.update({
+        where: { id: transaction.id },
         data: {
-          walletId: wallet.id,
-          type: 'deposit',
-          amount: depositDto.amount,
-          reference,
-          paystackRef: paystackResponse.reference,
-          status: 'pending',
+          providerRef: payment.reference,
           metadata: {
-            paystackAuthorizationUrl: paystackResponse.authorization_url,
+            authorizationUrl: payment.authorization_url,
           },
         },
       });
 
       this.logger.log(
-        `Deposit initiated for user ${userId}: ${depositDto.amount}, reference: ${reference}`,
+        `Deposit initiated for user ${userId}: ${depositDto.amount} ${currency}, reference: ${reference}`,
       );
 
       return {
         reference,
-        authorization_url: paystackResponse.authorization_url,
+        authorization_url: payment.authorization_url,
+        provider: provider.name,
       };
     } catch (error) {
       this.logger.error('Error initializing deposit', error);
@@ -90,28 +215,33 @@ export class WalletService {
     }
   }
 
-  async verifyDepositStatus(reference: string) {
+  async verifyDepositStatus(userId: string, reference: string) {
     try {
-      const transaction = await this.prisma.transaction.findUnique({
-        where: { reference },
+      const transaction = await this.prisma.transaction.findFirst({
+        where: { reference, type: 'deposit', wallet: { userId } },
       });
 
       if (!transaction) {
         throw new NotFoundException('Transaction not found');
       }
 
-      if (transaction.paystackRef && transaction.status === 'pending') {
-        await this.paystackService.verifyTransaction(transaction.paystackRef);
+      let status = transaction.status;
+      if (transaction.providerRef && transaction.status === 'pending') {
+        await this.reconcileDeposit(transaction);
+        ({ status } = await this.prisma.transaction.findUniqueOrThrow({
+          where: { id: transaction.id },
+        }));
       }
 
       this.logger.log(
-        `Verified deposit status for reference ${reference}: ${transaction.status}`,
+        `Verified deposit status for reference ${reference}: ${status}`,
       );
 
       return {
         reference: transaction.reference,
-        status: transaction.status,
+        status,
         amount: transaction.amount,
+        currency: transaction.currency,
       };
     } catch (error) {
       this.logger.error('Error verifying deposit status', error);
@@ -119,62 +249,1122 @@ export class WalletService {
     }
   }
 
-  async handlePaystackWebhook(event: any, signature: string) {
+  /**
+   * Verifies a pending deposit with its payment provider and applies the
+   * result through the same idempotent handlers as the webhook. Unpaid
+   * checkouts are reported as abandoned, but the customer may still pay, so
+   * they are only closed when created before `abandonBefore`. Approved
+   * payments are captured only with `capture`, so a status check never
+   * moves money.
+   */
+  async reconcileDeposit(
+    transaction: Transaction,
+    options: { abandonBefore?: Date; capture?: boolean } = {},
+  ): Promise<'credited' | 'failed' | 'abandoned' | 'unchanged'> {
+    const { abandonBefore, capture } = options;
+    const reference = transaction.providerRef!;
+    const provider = this.paymentProviders.get(
+      transaction.provider ?? 'paystack',
+    );
+    let verification = await provider.verifyPayment(reference);
+
+    if (
+      verification.status === 'approved' &&
+      capture &&
+      provider.capturePayment
+    ) {
+      verification = await provider.capturePayment(reference);
+    }
+
+    switch (verification.status) {
+      case 'success':
+        await this.handleChargeSuccess(provider.name, {
+          reference,
+          amount: verification.amount,
+          currency: verification.currency,
+        });
+        return 'credited';
+      case 'failed':
+        await this.handleChargeFailed(provider.name, { reference });
+        return 'failed';
+      case 'abandoned': {
+        if (!abandonBefore || transaction.createdAt >= abandonBefore) {
+          return 'unchanged';
+        }
+
+        const abandoned = await this.prisma.transaction.updateMany({
+          where: { id: transaction.id, status: 'pending' },
+          data: { status: 'abandoned' },
+        });
+
+        if (abandoned.count === 0) return 'unchanged';
+
+        this.logger.log(`Deposit abandoned for transaction ${reference}`);
+        return 'abandoned';
+      }
+      default:
+        return 'unchanged';
+    }
+  }
+
+  /**
+   * Checks a pending withdrawal with Paystack, for when the transfer webhook
+   * never arrived or the transfer was initiated with an unknown outcome. A
+   * transfer Paystack has no record of was never created, so it is refunded.
+   */
+  async reconcileWithdrawal(
+    transaction: Transaction,
+  ): Promise<'paid' | 'refunded' | 'unchanged'> {
+    const reference = transaction.reference!;
+    const transfer = await this.paystackService.verifyTransfer(reference);
+
+    if (!transfer) {
+      await this.handleTransferEvent('transfer.failed', { reference });
+      return 'refunded';
+    }
+
+    switch (transfer.status) {
+      case 'success':
+        await this.handleTransferEvent('transfer.success', { reference });
+        return 'paid';
+      case 'failed':
+        await this.handleTransferEvent('transfer.failed', { reference });
+        return 'refunded';
+      case 'reversed':
+        await this.handleTransferEvent('transfer.reversed', { reference });
+        return 'refunded';
+    }
+
+    if (!transaction.providerRef && transfer.transfer_code) {
+      await this.prisma.transaction.update({
+        where: { id: transaction.id },
+        data: { providerRef: transfer.transfer_code },
+      });
+    }
+
+    return 'unchanged';
+  }
+
+  /**
+   * Applies a verified payment provider event. Returns false for event types
+   * the wallet does not act on. Handlers are idempotent, so an event can be
+   * replayed safely.
+   */
+  async handlePaymentEvent(event: PaymentEvent): Promise<boolean> {
+    switch (event.type) {
+      case 'charge.success':
+        await this.handleChargeSuccess(
+          event.provider,
+          event.data as ChargeEventData,
+        );
+        return true;
+      case 'charge.failed':
+        await this.handleChargeFailed(
+          event.provider,
+          event.data as Pick<ChargeEventData, 'reference'>,
+        );
+        return true;
+      case 'charge.approved':
+        await this.handleChargeApproved(
+          event.provider,
+          event.data as Pick<ChargeEventData, 'reference'>,
+        );
+        return true;
+    }
+
+    // Refunds, chargebacks and payouts are only handled for Paystack.
+    if (event.provider === 'paystack') {
+      switch (event.type) {
+        case 'refund.pending':
+        case 'refund.processed':
+        case 'refund.failed':
+          await this.handleRefundEvent(
+            event.type,
+            event.data as PaystackRefund,
+          );
+          return true;
+        case 'charge.dispute.create':
+        case 'charge.dispute.resolve':
+          await this.handleChargebackEvent(
+            event.type,
+            event.data as PaystackDispute,
+          );
+          return true;
+        case 'transfer.success':
+        case 'transfer.failed':
+        case 'transfer.reversed':
+          await this.handleTransferEvent(
+            event.type,
+            event.data as PaystackTransfer,
+          );
+          return true;
+        case 'dedicatedaccount.assign.success':
+        case 'dedicatedaccount.assign.failed':
+          await this.handleVirtualAccountAssignment(
+            event.type,
+            event.data as PaystackDedicatedAccountAssignment,
+          );
+          return true;
+      }
+    }
+
+    this.logger.log(`Ignoring ${event.provider} event: ${event.type}`);
+    return false;
+  }
+
+  private async findDeposit(provider: string, providerRef: string) {
+    const transaction = await this.prisma.transaction.findUnique({
+      where: { providerRef },
+      include: { wallet: true },
+    });
+
+    if (
+      !transaction ||
+      transaction.type !== 'deposit' ||
+      (transaction.provider ?? 'paystack') !== provider
+    ) {
+      this.logger.warn(
+        `Transaction not found for ${provider} reference: ${providerRef}`,
+      );
+      return null;
+    }
+
+    return transaction;
+  }
+
+  private async handleChargeSuccess(provider: string, data: ChargeEventData) {
+    const charge = provider === 'paystack' ? (data as PaystackCharge) : null;
+
+    if (charge?.channel === 'dedicated_nuban') {
+      return this.handleBankTransferDeposit(charge);
+    }
+
+    const reference = data.reference;
+    const transaction = await this.findDeposit(provider, reference);
+
+    if (!transaction) return;
+
+    if (transaction.status === 'success') {
+      this.logger.log(`Transaction already processed: ${reference}`);
+      return;
+    }
+
+    // Never credit more (or another currency) than the deposit was opened
+    // for. The event is left failed in the inbox for manual review.
+    if (
+      BigInt(data.amount) !== toMinorUnits(transaction.amount) ||
+      data.currency !== transaction.currency
+    ) {
+      throw new BadRequestException(
+        `Charge ${reference} of ${data.amount} ${data.currency} does not match deposit of ${toMinorUnits(transaction.amount)} ${transaction.currency}`,
+      );
+    }
+
+    const invoiceId = (transaction.metadata as { invoiceId?: string } | null)
+      ?.invoiceId;
+
+    await this.prisma.$transaction(async (tx) => {
+      // Claim the deposit with a conditional update so concurrent deliveries
+      // of the same event credit it only once. A charge can still succeed
+      // after an earlier attempt failed or the checkout was abandoned.
+      const claimed = await tx.transaction.updateMany({
+        where: {
+          id: transaction.id,
+          status: { in: ['pending', 'failed', 'abandoned'] },
+        },
+        data: { status: 'success' },
+      });
+
+      if (claimed.count === 0) {
+        this.logger.log(`Transaction already processed: ${reference}`);
+        return;
+      }
+
+      const clearingAccount = await this.ledgerService.getSystemAccount(
+        tx,
+        SYSTEM_ACCOUNTS.PAYSTACK_CLEARING,
+        transaction.currency,
+      );
+      const walletAccount = await this.ledgerService.getWalletAccount(
+        tx,
+        transaction.wallet.id,
+        transaction.currency,
+      );
+      const amount = toMinorUnits(transaction.amount);
+
+      await this.ledgerService.postEntry(tx, {
+        type: 'deposit',
+        reference: transaction.reference ?? transaction.id,
+        description: `${provider} deposit ${reference}`,
+        lines: [
+          { accountId: clearingAccount.id, direction: 'debit', amount },
+          { accountId: walletAccount.id, direction: 'credit', amount },
+        ],
+      });
+
+      await this.outboundWebhookService.enqueue(tx, {
+        userId: transaction.wallet.userId,
+        type: 'deposit.succeeded',
+        id: `deposit.succeeded:${transaction.id}`,
+        data: {
+          reference: transaction.reference,
+          amount: transaction.amount,
+          currency: transaction.currency,
+          provider,
+        },
+      });
+
+      if (invoiceId) {
+        await this.settleInvoiceByCard(tx, invoiceId, transaction);
+      }
+    });
+
+    this.logger.log(
+      `Deposit successful for transaction ${reference}, amount: ${transaction.amount} ${transaction.currency}`,
+    );
+
+    // An invoice is paid by someone else's card; never save it for the payee.
+    if (charge?.authorization?.reusable && !invoiceId) {
+      await this.saveCardAuthorization(
+        transaction.wallet.userId,
+        charge.authorization,
+      );
+    }
+  }
+
+  /**
+   * Keeps a reusable Paystack card authorization so the user can top up
+   * again without a checkout. The same card paid with twice is saved once,
+   * with its latest authorization. Failing to save never fails the deposit.
+   */
+  private async saveCardAuthorization(
+    userId: string,
+    authorization: PaystackAuthorization,
+  ) {
+    if (authorization.channel && authorization.channel !== 'card') return;
+
+    try {
+      const card = {
+        authorizationCode: authorization.authorization_code,
+        brand: authorization.brand || authorization.card_type?.trim() || null,
+        bin: authorization.bin || null,
+        last4: authorization.last4,
+        expMonth: authorization.exp_month,
+        expYear: authorization.exp_year,
+        bank: authorization.bank || null,
+        reusable: true,
+      };
+
+      if (authorization.signature) {
+        await this.prisma.paymentMethod.upsert({
+          where: {
+            userId_signature: { userId, signature: authorization.signature },
+          },
+          create: { userId, signature: authorization.signature, ...card },
+          update: card,
+        });
+      } else {
+        await this.prisma.paymentMethod.upsert({
+          where: { authorizationCode: card.authorizationCode },
+          create: { userId, ...card },
+          update: {},
+        });
+      }
+    } catch (error) {
+      this.logger.error(`Error saving card for user ${userId}`, error);
+    }
+  }
+
+  /**
+   * Marks an invoice paid by the card deposit that settled it. The payer has
+   * already been charged, so the payee is credited even if the invoice was
+   * paid some other way or cancelled while the checkout was open.
+   */
+  private async settleInvoiceByCard(
+    tx: Prisma.TransactionClient,
+    invoiceId: string,
+    transaction: Transaction,
+  ) {
+    const paid = await tx.invoice.updateMany({
+      where: { id: invoiceId, status: { in: ['open', 'expired'] } },
+      data: {
+        status: 'paid',
+        paidVia: 'card',
+        paymentReference: transaction.reference,
+        paidAt: new Date(),
+      },
+    });
+
+    if (paid.count === 0) {
+      this.logger.warn(
+        `Invoice ${invoiceId} was not open when card payment ${transaction.reference} succeeded`,
+      );
+      return;
+    }
+
+    await this.enqueueInvoicePaid(tx, invoiceId);
+  }
+
+  private async enqueueInvoicePaid(
+    tx: Prisma.TransactionClient,
+    invoiceId: string,
+  ) {
+    const invoice = await tx.invoice.findUniqueOrThrow({
+      where: { id: invoiceId },
+    });
+
+    await this.outboundWebhookService.enqueue(tx, {
+      userId: invoice.payeeId,
+      type: 'invoice.paid',
+      id: `invoice.paid:${invoice.id}`,
+      data: {
+        invoice_id: invoice.id,
+        number: invoice.number,
+        amount: invoice.amount,
+        currency: invoice.currency,
+        paid_via: invoice.paidVia,
+        payment_reference: invoice.paymentReference,
+      },
+    });
+  }
+
+  /**
+   * A bank transfer into a wallet's dedicated virtual account. Nothing is
+   * recorded in advance, so the deposit is created here; the unique Paystack
+   * reference makes a repeated delivery a no-op.
+   */
+  private async handleBankTransferDeposit(data: PaystackCharge) {
+    const accountNumber =
+      data.authorization?.receiver_bank_account_number ??
+      data.metadata?.receiver_account_number;
+
+    const virtualAccount = await this.prisma.virtualAccount.findFirst({
+      where: accountNumber
+        ? { accountNumber: String(accountNumber) }
+        : { customerCode: data.customer?.customer_code ?? '' },
+      include: { wallet: true },
+    });
+
+    // Left failed in the inbox: the money arrived, so it needs review.
+    if (!virtualAccount) {
+      throw new BadRequestException(
+        `No wallet found for bank transfer ${data.reference} to account ${accountNumber}`,
+      );
+    }
+
+    if (data.currency !== virtualAccount.currency) {
+      throw new BadRequestException(
+        `Bank transfer ${data.reference} is in ${data.currency}, expected ${virtualAccount.currency}`,
+      );
+    }
+
+    const { wallet } = virtualAccount;
+    const amount = BigInt(data.amount);
+    const reference = `bank_transfer_${data.id ?? data.reference}`;
+    const sender = data.authorization?.sender_name;
+
     try {
-      const verified = this.paystackService.verifyWebhookSignature(
-        event,
-        signature,
+      await this.prisma.$transaction(async (tx) => {
+        await tx.transaction.create({
+          data: {
+            walletId: wallet.id,
+            type: 'deposit',
+            direction: 'in',
+            amount: fromMinorUnits(amount),
+            currency: virtualAccount.currency,
+            status: 'success',
+            reference,
+            provider: 'paystack',
+            providerRef: data.reference,
+            description: sender
+              ? `Bank transfer from ${sender}`
+              : 'Bank transfer',
+            metadata: {
+              channel: 'dedicated_nuban',
+              accountNumber: virtualAccount.accountNumber,
+              senderBank: data.authorization?.sender_bank ?? null,
+            },
+          },
+        });
+
+        const clearingAccount = await this.ledgerService.getSystemAccount(
+          tx,
+          SYSTEM_ACCOUNTS.PAYSTACK_CLEARING,
+          virtualAccount.currency,
+        );
+        const walletAccount = await this.ledgerService.getWalletAccount(
+          tx,
+          wallet.id,
+          virtualAccount.currency,
+        );
+
+        await this.ledgerService.postEntry(tx, {
+          type: 'deposit',
+          reference,
+          description: `paystack bank transfer ${data.reference}`,
+          lines: [
+            { accountId: clearingAccount.id, direction: 'debit', amount },
+            { accountId: walletAccount.id, direction: 'credit', amount },
+          ],
+        });
+
+        await this.outboundWebhookService.enqueue(tx, {
+          userId: wallet.userId,
+          type: 'deposit.succeeded',
+          id: `deposit.succeeded:${reference}`,
+          data: {
+            reference,
+            amount: fromMinorUnits(amount),
+            currency: virtualAccount.currency,
+            provider: 'paystack',
+            channel: 'bank_transfer',
+          },
+        });
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        this.logger.log(`Bank transfer already processed: ${data.reference}`);
+        return;
+      }
+      throw error;
+    }
+
+    this.logger.log(
+      `Bank transfer deposit credited to wallet ${wallet.id}: ${fromMinorUnits(amount)} ${virtualAccount.currency}, reference: ${data.reference}`,
+    );
+  }
+
+  /**
+   * Paystack may assign a dedicated account after the request that created
+   * it returned; the outcome arrives as a webhook.
+   */
+  private async handleVirtualAccountAssignment(
+    eventType: string,
+    data: PaystackDedicatedAccountAssignment,
+  ) {
+    const customerCode = data.customer?.customer_code;
+    const account = data.dedicated_account;
+
+    if (!customerCode) {
+      this.logger.warn(`Ignoring ${eventType} without a customer`);
+      return;
+    }
+
+    if (eventType === 'dedicatedaccount.assign.failed' || !account) {
+      await this.prisma.virtualAccount.updateMany({
+        where: { customerCode, status: 'pending' },
+        data: { status: 'failed' },
+      });
+      this.logger.warn(`Virtual account assignment failed for ${customerCode}`);
+      return;
+    }
+
+    const updated = await this.prisma.virtualAccount.updateMany({
+      where: { customerCode },
+      data: {
+        status: 'active',
+        providerAccountId: String(account.id),
+        accountNumber: account.account_number,
+        accountName: account.account_name,
+        bankName: account.bank?.name,
+        bankSlug: account.bank?.slug,
+      },
+    });
+
+    if (updated.count === 0) {
+      this.logger.warn(`No virtual account found for customer ${customerCode}`);
+      return;
+    }
+
+    this.logger.log(`Virtual account assigned for customer ${customerCode}`);
+  }
+
+  /**
+   * The customer approved the payment but it still has to be captured;
+   * it is captured here and the result applied.
+   */
+  private async handleChargeApproved(
+    provider: string,
+    data: Pick<ChargeEventData, 'reference'>,
+  ) {
+    const transaction = await this.findDeposit(provider, data.reference);
+
+    if (!transaction || transaction.status !== 'pending') return;
+
+    await this.reconcileDeposit(transaction, { capture: true });
+  }
+
+  private async handleChargeFailed(
+    provider: string,
+    data: Pick<ChargeEventData, 'reference'>,
+  ) {
+    const reference = data.reference;
+    const transaction = await this.findDeposit(provider, reference);
+
+    if (!transaction) return;
+
+    const failed = await this.prisma.transaction.updateMany({
+      where: { id: transaction.id, status: 'pending' },
+      data: { status: 'failed' },
+    });
+
+    if (failed.count === 0) {
+      this.logger.log(
+        `Ignoring charge.failed for ${transaction.status} deposit: ${reference}`,
+      );
+      return;
+    }
+
+    this.logger.log(`Deposit failed for transaction ${reference}`);
+  }
+
+  /**
+   * Refunds of a deposit, issued from the Paystack dashboard. The amount
+   * leaves the wallet when the refund is initiated and is held in transit
+   * until Paystack reports the outcome.
+   */
+  private async handleRefundEvent(eventType: string, data: PaystackRefund) {
+    const deposit = await this.findDeposit(
+      'paystack',
+      data.transaction_reference,
+    );
+
+    if (!deposit) return;
+
+    await this.applyDepositReversal(
+      {
+        type: 'refund',
+        reference: `refund_${data.id}`,
+        description: `Refund of deposit ${deposit.reference}`,
+        amount: BigInt(data.amount),
+        currency: data.currency,
+        pendingAccount: SYSTEM_ACCOUNTS.REFUNDS_IN_TRANSIT,
+        outcome:
+          eventType === 'refund.pending'
+            ? 'pending'
+            : eventType === 'refund.processed'
+              ? 'success'
+              : 'failed',
+      },
+      deposit,
+    );
+  }
+
+  /**
+   * Chargebacks raised by the card holder. The disputed amount is taken from
+   * the wallet when the dispute opens; it is returned if the dispute is
+   * declined and written off if the merchant accepts it.
+   */
+  private async handleChargebackEvent(
+    eventType: string,
+    data: PaystackDispute,
+  ) {
+    const deposit = await this.findDeposit(
+      'paystack',
+      data.transaction.reference,
+    );
+
+    if (!deposit) return;
+
+    let outcome: 'pending' | 'success' | 'failed' = 'pending';
+    if (eventType === 'charge.dispute.resolve') {
+      if (data.resolution === 'merchant-accepted') {
+        outcome = 'success';
+      } else if (data.resolution === 'declined') {
+        outcome = 'failed';
+      } else {
+        this.logger.warn(
+          `Unknown chargeback resolution for ${deposit.providerRef}: ${data.resolution}`,
+        );
+        return;
+      }
+    }
+
+    await this.applyDepositReversal(
+      {
+        type: 'chargeback',
+        reference: `chargeback_${data.id}`,
+        description: `Chargeback on deposit ${deposit.reference}`,
+        amount: data.refund_amount
+          ? BigInt(data.refund_amount)
+          : toMinorUnits(deposit.amount),
+        currency: data.currency ?? deposit.currency,
+        pendingAccount: SYSTEM_ACCOUNTS.CHARGEBACKS_PENDING,
+        outcome,
+      },
+      deposit,
+    );
+  }
+
+  /**
+   * Moves a refund or chargeback through pending -> success/failed. Each
+   * stage claims the outgoing transaction with a conditional update and
+   * posts under its own ledger reference, so replays never move money twice.
+   * An outcome may arrive without the pending event; the amount then goes
+   * straight from the wallet. The deposit's `reversedAmount` tracks what has
+   * been taken back, so all its refunds and chargebacks together never exceed
+   * the deposit.
+   */
+  private async applyDepositReversal(
+    reversal: {
+      type: 'refund' | 'chargeback';
+      reference: string;
+      description: string;
+      amount: bigint;
+      currency: string;
+      pendingAccount: SystemAccount;
+      outcome: 'pending' | 'success' | 'failed';
+    },
+    deposit: Transaction,
+  ) {
+    const { type, reference, amount, currency, outcome } = reversal;
+
+    if (deposit.status !== 'success') {
+      throw new BadRequestException(
+        `Cannot apply ${type} ${reference} to ${deposit.status} deposit ${deposit.providerRef}`,
+      );
+    }
+
+    if (
+      amount <= 0n ||
+      amount > toMinorUnits(deposit.amount) ||
+      currency !== deposit.currency
+    ) {
+      throw new BadRequestException(
+        `${type} ${reference} of ${amount} ${currency} does not match deposit of ${toMinorUnits(deposit.amount)} ${deposit.currency}`,
+      );
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      const existing = await tx.transaction.findUnique({
+        where: { reference },
+      });
+
+      if (existing && existing.status !== 'pending') {
+        this.logger.log(`${type} already ${existing.status}: ${reference}`);
+        return;
+      }
+
+      if (!existing && outcome === 'failed') {
+        this.logger.log(`${type} failed before any funds moved: ${reference}`);
+        return;
+      }
+
+      if (existing && outcome === 'pending') {
+        this.logger.log(`${type} already recorded: ${reference}`);
+        return;
+      }
+
+      const walletAccount = await this.ledgerService.getWalletAccount(
+        tx,
+        deposit.walletId,
+        currency,
+      );
+      const pendingAccount = await this.ledgerService.getSystemAccount(
+        tx,
+        reversal.pendingAccount,
+        currency,
+      );
+      const clearingAccount = await this.ledgerService.getSystemAccount(
+        tx,
+        SYSTEM_ACCOUNTS.PAYSTACK_CLEARING,
+        currency,
       );
-      if (!verified) {
-        throw new BadRequestException('Invalid webhook signature');
+
+      // Funds leave the wallet at the first stage recorded and come back if
+      // a pending reversal fails.
+      if (!existing || outcome === 'failed') {
+        await this.adjustReversedAmount(
+          tx,
+          deposit.id,
+          existing ? -amount : amount,
+          reference,
+        );
       }
 
-      if (event.event === 'charge.success') {
-        const reference = event.data.reference;
-        const transaction = await this.prisma.transaction.findUnique({
-          where: { paystackRef: reference },
-          include: { wallet: true },
+      if (existing) {
+        const claimed = await tx.transaction.updateMany({
+          where: { id: existing.id, status: 'pending' },
+          data: { status: outcome },
         });
 
-        if (!transaction) {
-          this.logger.warn(
-            `Transaction not found for paystack reference: ${reference}`,
+        if (claimed.count === 0) {
+          throw new ConflictException(
+            `${type} ${reference} changed while processing`,
           );
-          return { status: true };
         }
+      } else {
+        await tx.transaction.create({
+          data: {
+            walletId: deposit.walletId,
+            reversalOfId: deposit.id,
+            type,
+            direction: 'out',
+            amount: fromMinorUnits(amount),
+            currency,
+            status: outcome,
+            reference,
+            description: reversal.description,
+          },
+        });
+      }
+
+      const lines: LedgerLineInput[] =
+        outcome === 'pending'
+          ? [
+              { accountId: walletAccount.id, direction: 'debit', amount },
+              { accountId: pendingAccount.id, direction: 'credit', amount },
+            ]
+          : outcome === 'failed'
+            ? [
+                { accountId: pendingAccount.id, direction: 'debit', amount },
+                { accountId: walletAccount.id, direction: 'credit', amount },
+              ]
+            : [
+                {
+                  accountId: existing ? pendingAccount.id : walletAccount.id,
+                  direction: 'debit',
+                  amount,
+                },
+                { accountId: clearingAccount.id, direction: 'credit', amount },
+              ];
+
+      await this.ledgerService.postEntry(tx, {
+        type,
+        reference: `${reference}:${outcome}`,
+        description: reversal.description,
+        lines,
+      });
+    });
+
+    this.logger.log(
+      `${type} ${reference} on deposit ${deposit.providerRef}: ${outcome}`,
+    );
+  }
+
+  private async adjustReversedAmount(
+    tx: Prisma.TransactionClient,
+    depositId: string,
+    delta: bigint,
+    reference: string,
+  ) {
+    const deposit = await tx.transaction.findUniqueOrThrow({
+      where: { id: depositId },
+    });
+    const reversedAfter = toMinorUnits(deposit.reversedAmount) + delta;
+
+    if (reversedAfter > toMinorUnits(deposit.amount)) {
+      throw new BadRequestException(
+        `${reference} would take back more than deposit ${deposit.providerRef}: ${fromMinorUnits(reversedAfter)} of ${deposit.amount} ${deposit.currency}`,
+      );
+    }
+
+    // Guard against a concurrent refund or chargeback of the same deposit.
+    const updated = await tx.transaction.updateMany({
+      where: { id: depositId, reversedAmount: deposit.reversedAmount },
+      data: { reversedAmount: fromMinorUnits(reversedAfter) },
+    });
+
+    if (updated.count === 0) {
+      throw new ConflictException(
+        `Deposit ${deposit.providerRef} was modified by another reversal`,
+      );
+    }
+  }
+
+  private async handleTransferEvent(
+    eventType: string,
+    data: Pick<PaystackTransfer, 'reference'>,
+  ) {
+    const reference = data.reference;
+    const transaction = await this.prisma.transaction.findUnique({
+      where: { reference },
+    });
+
+    if (!transaction || transaction.type !== 'withdrawal') {
+      this.logger.warn(`Withdrawal not found for reference: ${reference}`);
+      return;
+    }
+
+    const amount = toMinorUnits(transaction.amount);
+
+    await this.prisma.$transaction(async (tx) => {
+      const walletAccount = await this.ledgerService.getWalletAccount(
+        tx,
+        transaction.walletId,
+        transaction.currency,
+      );
+      const inTransitAccount = await this.ledgerService.getSystemAccount(
+        tx,
+        SYSTEM_ACCOUNTS.WITHDRAWALS_IN_TRANSIT,
+        transaction.currency,
+      );
+      const clearingAccount = await this.ledgerService.getSystemAccount(
+        tx,
+        SYSTEM_ACCOUNTS.PAYSTACK_CLEARING,
+        transaction.currency,
+      );
+
+      if (eventType === 'transfer.success') {
+        if (transaction.status !== 'pending') {
+          this.logger.log(`Withdrawal already settled: ${reference}`);
+          return;
+        }
+
+        const claimed = await tx.transaction.updateMany({
+          where: { id: transaction.id, status: 'pending' },
+          data: { status: 'success' },
+        });
 
-        if (transaction.status === 'success') {
-          this.logger.log(`Transaction already processed: ${reference}`);
-          return { status: true };
+        if (claimed.count === 0) {
+          this.logger.log(`Withdrawal already settled: ${reference}`);
+          return;
         }
 
-        await this.prisma.$transaction(async (tx) => {
-          await tx.transaction.update({
-            where: { id: transaction.id },
-            data: { status: 'success' },
-          });
+        await this.ledgerService.postEntry(tx, {
+          type: 'withdrawal',
+          reference: `${reference}:settle`,
+          description: `Withdrawal ${reference} paid out`,
+          lines: [
+            { accountId: inTransitAccount.id, direction: 'debit', amount },
+            { accountId: clearingAccount.id, direction: 'credit', amount },
+          ],
+        });
+        return;
+      }
 
-          await tx.wallet.update({
-            where: { id: transaction.wallet.id },
-            data: {
-              balance: transaction.wallet.balance + transaction.amount,
+      // transfer.failed / transfer.reversed: return the money to the wallet.
+      // A reversal can arrive after the payout had already settled.
+      if (
+        transaction.status !== 'pending' &&
+        transaction.status !== 'success'
+      ) {
+        this.logger.log(`Withdrawal already refunded: ${reference}`);
+        return;
+      }
+
+      const claimed = await tx.transaction.updateMany({
+        where: { id: transaction.id, status: transaction.status },
+        data: {
+          status: eventType === 'transfer.failed' ? 'failed' : 'reversed',
+        },
+      });
+
+      // The status changed under us (e.g. a concurrent settlement); fail so
+      // the event is marked failed in the inbox and can be replayed.
+      if (claimed.count === 0) {
+        throw new ConflictException(
+          `Withdrawal ${reference} changed while processing ${eventType}`,
+        );
+      }
+
+      await this.ledgerService.postEntry(tx, {
+        type: 'withdrawal',
+        reference: `${reference}:refund`,
+        description: `Withdrawal ${reference} refunded (${eventType})`,
+        lines: [
+          {
+            accountId:
+              transaction.status === 'pending'
+                ? inTransitAccount.id
+                : clearingAccount.id,
+            direction: 'debit',
+            amount,
+          },
+          { accountId: walletAccount.id, direction: 'credit', amount },
+        ],
+      });
+    });
+
+    this.logger.log(`Withdrawal ${reference} updated by ${eventType}`);
+  }
+
+  getExchangeRates() {
+    return this.fxService.getRateTable();
+  }
+
+  async listBanks() {
+    return this.paystackService.listBanks();
+  }
+
+  async resolveBankAccount(resolveDto: ResolveAccountDto) {
+    return this.paystackService.resolveAccount(
+      resolveDto.account_number,
+      resolveDto.bank_code,
+    );
+  }
+
+  async withdrawFunds(
+    userId: string,
+    withdrawDto: WithdrawDto,
+    apiKeyId?: string,
+  ) {
+    try {
+      const wallet = await this.prisma.wallet.findUnique({
+        where: { userId },
+      });
+
+      if (!wallet) {
+        throw new NotFoundException('Wallet not found');
+      }
+
+      // Paystack transfers pay out to Nigerian bank accounts only.
+      const currency = DEFAULT_CURRENCY;
+      const amount = toMinorUnits(withdrawDto.amount);
+
+      if ((await this.getAvailableBalance(wallet.id, currency)) < amount) {
+        throw new BadRequestException('Insufficient balance');
+      }
+
+      const account = await this.paystackService.resolveAccount(
+        withdrawDto.account_number,
+        withdrawDto.bank_code,
+      );
+      const recipient = await this.paystackService.createTransferRecipient({
+        name: account.account_name,
+        accountNumber: account.account_number,
+        bankCode: withdrawDto.bank_code,
+      });
+
+      const reference = `withdrawal_${userId}_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`;
+
+      // Move the amount out of the wallet before calling Paystack so it is
+      // held while the payout is in flight.
+      const transaction = await this.prisma.$transaction(async (tx) => {
+        await this.limitService.assertWithinLimits(tx, {
+          userId,
+          walletId: wallet.id,
+          apiKeyId,
+          operation: 'withdraw',
+          currency,
+          amount: withdrawDto.amount,
+        });
+
+        const walletAccount = await this.ledgerService.getWalletAccount(
+          tx,
+          wallet.id,
+          currency,
+        );
+        const inTransitAccount = await this.ledgerService.getSystemAccount(
+          tx,
+          SYSTEM_ACCOUNTS.WITHDRAWALS_IN_TRANSIT,
+          currency,
+        );
+
+        await this.ledgerService.postEntry(tx, {
+          type: 'withdrawal',
+          reference,
+          description: withdrawDto.description,
+          lines: [
+            { accountId: walletAccount.id, direction: 'debit', amount },
+            { accountId: inTransitAccount.id, direction: 'credit', amount },
+          ],
+        });
+
+        return tx.transaction.create({
+          data: {
+            walletId: wallet.id,
+            type: 'withdrawal',
+            direction: 'out',
+            amount: withdrawDto.amount,
+            currency,
+            status: 'pending',
+            reference,
+            provider: 'paystack',
+            apiKeyId,
+            description:
+              withdrawDto.description ??
+              `Withdrawal to ${account.account_name}`,
+            metadata: {
+              bankCode: withdrawDto.bank_code,
+              accountNumber: account.account_number,
+              accountName: account.account_name,
+              recipientCode: recipient.recipient_code,
             },
-          });
+          },
         });
+      });
+
+      let payout: { transfer_code: string };
 
-        this.logger.log(
-          `Deposit successful for transaction ${reference}, amount: ${transaction.amount}`,
+      try {
+        payout = await this.paystackService.initiateTransfer({
+          amount: Number(amount),
+          recipient: recipient.recipient_code,
+          reference,
+          reason: withdrawDto.description,
+        });
+      } catch (error) {
+        // Only a refusal means no payout; anything else may still be paid
+        // out, so the amount stays in transit until the transfer webhook or
+        // reconcileWithdrawal settles it.
+        if (error instanceof BadRequestException) {
+          await this.handleTransferEvent('transfer.failed', { reference });
+          throw error;
+        }
+
+        this.logger.warn(
+          `Withdrawal ${reference} outcome unknown, left pending: ${error instanceof Error ? error.message : String(error)}`,
+        );
+        return {
+          reference,
+          status: 'pending',
+          amount: withdrawDto.amount,
+          account_name: account.account_name,
+        };
+      }
+
+      // Paystack has the transfer now; if saving its code fails the webhook
+      // still settles the withdrawal by reference.
+      try {
+        await this.prisma.transaction.update({
+          where: { id: transaction.id },
+          data: { providerRef: payout.transfer_code },
+        });
+      } catch (error) {
+        this.logger.error(
+          `Could not save transfer code for withdrawal ${reference}`,
+          error,
         );
       }
 
-      return { status: true };
+      this.logger.log(
+        `Withdrawal initiated for user ${userId}: ${withdrawDto.amount}, reference: ${reference}`,
+      );
+
+      return {
+        reference,
+        status: 'pending',
+        amount: withdrawDto.amount,
+        account_name: account.account_name,
+      };
     } catch (error) {
-      this.logger.error('Error handling Paystack webhook', error);
+      this.logger.error('Error withdrawing funds', error);
       throw error;
     }
   }
 
-  async transferFunds(senderId: string, transferDto: TransferDto) {
+  /**
+   * `options.reference` lets callers such as the scheduler pin the transfer
+   * reference; a second attempt with the same reference fails on the unique
+   * constraint instead of moving money twice. `options.holdId` captures a hold:
+   * its reserved funds are spent by this transfer and the hold is closed in the
+   * same database transaction. `options.apiKeyId` is the key that initiated
+   * the transfer, checked against that key's limits.
+   */
+  async transferFunds(
+    senderId: string,
+    transferDto: TransferDto,
+    options: {
+      reference?: string;
+      holdId?: string;
+      invoiceId?: string;
+      apiKeyId?: string;
+    } = {},
+  ) {
     try {
       const senderWallet = await this.prisma.wallet.findUnique({
         where: { userId: senderId },
@@ -198,78 +1388,319 @@ export class WalletService {
         throw new BadRequestException('Cannot transfer to your own wallet');
       }
 
-      if (senderWallet.balance < transferDto.amount) {
+      const currency = transferDto.currency ?? DEFAULT_CURRENCY;
+      const targetCurrency = transferDto.target_currency ?? currency;
+      const amount = toMinorUnits(transferDto.amount);
+
+      // Early exit only: the ledger re-checks the balance atomically when the
+      // transfer is posted. Captures spend funds their hold already reserved.
+      if (
+        !options.holdId &&
+        (await this.getAvailableBalance(senderWallet.id, currency)) < amount
+      ) {
         throw new BadRequestException('Insufficient balance');
       }
 
-      const transferReference = `transfer_${senderWallet.userId}_${recipientWallet.userId}_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`;
-      const recipientReference = `transfer_${senderWallet.userId}_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`;
-      const senderReference = `transfer_${recipientWallet.userId}_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`;
+      const transferReference =
+        options.reference ??
+        `transfer_${senderWallet.userId}_${recipientWallet.userId}_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`;
 
-      await this.prisma.$transaction(async (tx) => {
-        await tx.wallet.update({
-          where: { id: senderWallet.id },
-          data: {
-            balance: senderWallet.balance - transferDto.amount,
-          },
-        });
+      const result = await this.prisma.$transaction(async (tx) => {
+        if (options.holdId) {
+          const captured = await tx.hold.updateMany({
+            where: {
+              id: options.holdId,
+              walletId: senderWallet.id,
+              currency,
+              status: 'active',
+              expiresAt: { gt: new Date() },
+            },
+            data: {
+              status: 'captured',
+              capturedAmount: amount,
+              transferReference,
+            },
+          });
 
-        await tx.wallet.update({
-          where: { id: recipientWallet.id },
-          data: {
-            balance: recipientWallet.balance + transferDto.amount,
-          },
-        });
+          if (captured.count === 0) {
+            throw new ConflictException('Hold is no longer active');
+          }
 
-        await tx.transfer.create({
-          data: {
-            senderId,
-            recipientId: recipientWallet.userId,
-            amount: transferDto.amount,
-            reference: transferReference,
-            status: 'success',
-            description: transferDto.description,
-          },
-        });
+          // Release the whole hold; the captured part is debited below.
+          const hold = await tx.hold.findUniqueOrThrow({
+            where: { id: options.holdId },
+          });
+          await this.ledgerService.releaseFunds(
+            tx,
+            senderWallet.id,
+            currency,
+            hold.amount,
+          );
+        }
 
-        await tx.transaction.create({
-          data: {
-            walletId: senderWallet.id,
-            type: 'transfer',
-            amount: transferDto.amount,
-            status: 'success',
-            reference: senderReference,
-            description: `Transfer to ${recipientWallet.user.name}`,
-          },
-        });
+        if (options.invoiceId) {
+          const paid = await tx.invoice.updateMany({
+            where: {
+              id: options.invoiceId,
+              payeeId: recipientWallet.userId,
+              status: 'open',
+              dueDate: { gt: new Date() },
+              amount: transferDto.amount,
+              currency: targetCurrency,
+            },
+            data: {
+              status: 'paid',
+              payerId: senderId,
+              paidVia: 'wallet',
+              paymentReference: transferReference,
+              paidAt: new Date(),
+            },
+          });
 
-        await tx.transaction.create({
-          data: {
-            walletId: recipientWallet.id,
-            type: 'transfer',
-            amount: transferDto.amount,
-            status: 'success',
-            reference: recipientReference,
-            description: `Received from ${senderWallet.user.name}`,
-          },
+          if (paid.count === 0) {
+            throw new ConflictException('Invoice is no longer open');
+          }
+
+          await this.enqueueInvoicePaid(tx, options.invoiceId);
+        }
+
+        return this.postTransfer(tx, {
+          senderWallet,
+          recipientWallet,
+          transferDto,
+          reference: transferReference,
+          apiKeyId: options.apiKeyId,
         });
       });
 
       this.logger.log(
-        `Transfer successful: ${senderId} -> ${recipientWallet.userId}, amount: ${transferDto.amount}`,
+        `Transfer successful: ${senderId} -> ${recipientWallet.userId}, amount: ${transferDto.amount} ${currency} -> ${result.converted_amount ?? transferDto.amount} ${targetCurrency}`,
       );
 
-      return {
-        status: 'success',
-        message: 'Transfer completed',
-      };
+      return result;
     } catch (error) {
       this.logger.error('Error transferring funds', error);
       throw error;
     }
   }
 
-  async getTransactionHistory(userId: string, limit: number = 50) {
+  /**
+   * Moves funds between two wallets inside the caller's database transaction:
+   * posts the ledger entry, records the transfer and both sides' transactions,
+   * and queues the outbound webhooks. Throws if the transfer would exceed the
+   * sender's limits; the ledger rejects the entry if the sender's available
+   * balance is too low.
+   */
+  async postTransfer(
+    tx: Prisma.TransactionClient,
+    input: {
+      senderWallet: WalletWithName;
+      recipientWallet: WalletWithName;
+      transferDto: TransferDto;
+      reference: string;
+      apiKeyId?: string;
+    },
+  ) {
+    const { senderWallet, recipientWallet, transferDto } = input;
+    const currency = transferDto.currency ?? DEFAULT_CURRENCY;
+    const targetCurrency = transferDto.target_currency ?? currency;
+    const amount = toMinorUnits(transferDto.amount);
+
+    const isCrossCurrency = currency !== targetCurrency;
+    const { rate, convertedAmount } = this.fxService.quote(
+      currency,
+      targetCurrency,
+      amount,
+    );
+
+    if (convertedAmount <= 0n) {
+      throw new BadRequestException(
+        'Amount is too small to convert to the target currency',
+      );
+    }
+
+    await this.limitService.assertWithinLimits(tx, {
+      userId: senderWallet.userId,
+      walletId: senderWallet.id,
+      apiKeyId: input.apiKeyId,
+      operation: 'transfer',
+      currency,
+      amount: transferDto.amount,
+      recipientWalletNumber: recipientWallet.walletNumber,
+    });
+
+    const recipientAmount = fromMinorUnits(convertedAmount);
+    const recipientReference = `transfer_${senderWallet.userId}_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`;
+    const senderReference = `transfer_${recipientWallet.userId}_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`;
+
+    const senderAccount = await this.ledgerService.getWalletAccount(
+      tx,
+      senderWallet.id,
+      currency,
+    );
+    const recipientAccount = await this.ledgerService.getWalletAccount(
+      tx,
+      recipientWallet.id,
+      targetCurrency,
+    );
+
+    const lines: LedgerLineInput[] = [
+      { accountId: senderAccount.id, direction: 'debit', amount },
+    ];
+
+    if (isCrossCurrency) {
+      const sourceFxAccount = await this.ledgerService.getSystemAccount(
+        tx,
+        SYSTEM_ACCOUNTS.FX_POSITION,
+        currency,
+      );
+      const targetFxAccount = await this.ledgerService.getSystemAccount(
+        tx,
+        SYSTEM_ACCOUNTS.FX_POSITION,
+        targetCurrency,
+      );
+      lines.push(
+        { accountId: sourceFxAccount.id, direction: 'credit', amount },
+        {
+          accountId: targetFxAccount.id,
+          direction: 'debit',
+          amount: convertedAmount,
+        },
+      );
+    }
+
+    lines.push({
+      accountId: recipientAccount.id,
+      direction: 'credit',
+      amount: convertedAmount,
+    });
+
+    await this.ledgerService.postEntry(tx, {
+      type: 'transfer',
+      reference: input.reference,
+      description: transferDto.description,
+      lines,
+    });
+
+    const transfer = await tx.transfer.create({
+      data: {
+        senderId: senderWallet.userId,
+        recipientId: recipientWallet.userId,
+        amount: transferDto.amount,
+        currency,
+        recipientAmount,
+        recipientCurrency: targetCurrency,
+        ...(isCrossCurrency && { fxRate: rate }),
+        reference: input.reference,
+        status: 'success',
+        description: transferDto.description,
+      },
+    });
+
+    await tx.transaction.create({
+      data: {
+        walletId: senderWallet.id,
+        transferId: transfer.id,
+        type: 'transfer',
+        direction: 'out',
+        amount: transferDto.amount,
+        currency,
+        ...(isCrossCurrency && {
+          fxRate: rate,
+          convertedAmount: recipientAmount,
+          convertedCurrency: targetCurrency,
+        }),
+        status: 'success',
+        reference: senderReference,
+        apiKeyId: input.apiKeyId,
+        description: `Transfer to ${recipientWallet.user.name}`,
+      },
+    });
+
+    await tx.transaction.create({
+      data: {
+        walletId: recipientWallet.id,
+        transferId: transfer.id,
+        type: 'transfer',
+        direction: 'in',
+        amount: recipientAmount,
+        currency: targetCurrency,
+        ...(isCrossCurrency && {
+          fxRate: rate,
+          convertedAmount: transferDto.amount,
+          convertedCurrency: currency,
+        }),
+        status: 'success',
+        reference: recipientReference,
+        description: `Received from ${senderWallet.user.name}`,
+      },
+    });
+
+    await this.outboundWebhookService.enqueue(tx, {
+      userId: senderWallet.userId,
+      type: 'transfer.sent',
+      id: `transfer.sent:${transfer.id}`,
+      data: {
+        reference: input.reference,
+        amount: transferDto.amount,
+        currency,
+        recipient_name: recipientWallet.user.name,
+        recipient_wallet_number: recipientWallet.walletNumber,
+        description: transferDto.description ?? null,
+      },
+    });
+
+    await this.outboundWebhookService.enqueue(tx, {
+      userId: recipientWallet.userId,
+      type: 'transfer.received',
+      id: `transfer.received:${transfer.id}`,
+      data: {
+        reference: input.reference,
+        amount: recipientAmount,
+        currency: targetCurrency,
+        sender_name: senderWallet.user.name,
+        sender_wallet_number: senderWallet.walletNumber,
+        description: transferDto.description ?? null,
+      },
+    });
+
+    return {
+      status: 'success',
+      message: 'Transfer completed',
+      reference: input.reference,
+      amount: transferDto.amount,
+      currency,
+      ...(isCrossCurrency && {
+        fx_rate: rate,
+        converted_amount: recipientAmount,
+        converted_currency: targetCurrency,
+      }),
+    };
+  }
+
+  private encodeCursor(transaction: { id: string; createdAt: Date }) {
+    return Buffer.from(
+      `${transaction.createdAt.toISOString()}|${transaction.id}`,
+    ).toString('base64url');
+  }
+
+  private decodeCursor(cursor: string) {
+    const [createdAt, id] = Buffer.from(cursor, 'base64url')
+      .toString('utf8')
+      .split('|');
+    const date = new Date(createdAt);
+
+    if (!id || Number.isNaN(date.getTime())) {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    return { createdAt: date, id };
+  }
+
+  async getTransactionHistory(
+    userId: string,
+    query: TransactionHistoryQueryDto = {},
+  ) {
     try {
       const wallet = await this.prisma.wallet.findUnique({
         where: { userId },
@@ -279,28 +1710,97 @@ export class WalletService {
         throw new NotFoundException('Wallet not found');
       }
 
+      const limit = query.limit ?? 50;
+      const filters: Prisma.TransactionWhereInput[] = [{ walletId: wallet.id }];
+
+      if (query.currency) filters.push({ currency: query.currency });
+      if (query.type) filters.push({ type: query.type });
+      if (query.status) filters.push({ status: query.status });
+      if (query.direction) filters.push({ direction: query.direction });
+      if (query.from || query.to) {
+        filters.push({
+          createdAt: {
+            ...(query.from && { gte: new Date(query.from) }),
+            ...(query.to && { lte: new Date(query.to) }),
+          },
+        });
+      }
+      if (query.min_amount !== undefined || query.max_amount !== undefined) {
+        filters.push({
+          amount: {
+            ...(query.min_amount !== undefined && { gte: query.min_amount }),
+            ...(query.max_amount !== undefined && { lte: query.max_amount }),
+          },
+        });
+      }
+      if (query.search) {
+        filters.push({
+          OR: [
+            { description: { contains: query.search, mode: 'insensitive' } },
+            { reference: { contains: query.search, mode: 'insensitive' } },
+          ],
+        });
+      }
+      if (query.cursor) {
+        const cursor = this.decodeCursor(query.cursor);
+        filters.push({
+          OR: [
+            { createdAt: { lt: cursor.createdAt } },
+            { createdAt: cursor.createdAt, id: { lt: cursor.id } },
+          ],
+        });
+      }
+
       const transactions = await this.prisma.transaction.findMany({
-        where: { walletId: wallet.id },
-        orderBy: { createdAt: 'desc' },
-        take: limit,
+        where: { AND: filters },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: limit + 1,
       });
 
+      const hasMore = transactions.length > limit;
+      const page = hasMore ? transactions.slice(0, limit) : transactions;
+
       this.logger.log(
-        `Retrieved ${transactions.length} transactions for user ${userId}`,
+        `Retrieved ${page.length} transactions for user ${userId}`,
       );
 
-      return transactions.map((t) => ({
-        id: t.id,
-        type: t.type,
-        amount: t.amount,
-        status: t.status,
-        description: t.description,
-        reference: t.reference,
-        createdAt: t.createdAt,
-      }));
+      return {
+        transactions: page.map((t) => ({
+          id: t.id,
+          type: t.type,
+          direction: t.direction,
+          amount: t.amount,
+          currency: t.currency,
+          fx_rate: t.fxRate,
+          converted_amount: t.convertedAmount,
+          converted_currency: t.convertedCurrency,
+          status: t.status,
+          description: t.description,
+          reference: t.reference,
+          createdAt: t.createdAt,
+        })),
+        next_cursor: hasMore ? this.encodeCursor(page[page.length - 1]) : null,
+      };
     } catch (error) {
       this.logger.error('Error getting transaction history', error);
       throw error;
     }
   }
+
+  async reconcileLedger(userId: string) {
+    try {
+      const wallet = await this.prisma.wallet.findUnique({
+        where: { userId },
+      });
+
+      if (!wallet) {
+        throw new NotFoundException('Wallet not found');
+      }
+
+      return this.ledgerService.reconcileWallet(wallet.id);
+    } catch (error) {
+      this.logger.error('Error reconciling wallet ledger', error);
+      throw error;
+    }
+  }
 }
@@ -0,0 +1,7 @@
+import { IsIn, IsOptional } from 'class-validator';
+
+export class CompleteFakeCheckoutDto {
+  @IsOptional()
+  @IsIn(['success', 'failed'])
+  outcome?: 'success' | 'failed';
+}
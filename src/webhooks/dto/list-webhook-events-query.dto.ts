@@ -0,0 +1,23 @@
+import { Type } from 'class-transformer';
+import { IsIn, IsInt, IsOptional, Max, Min } from 'class-validator';
+
+export const WEBHOOK_EVENT_STATUSES = [
+  'received',
+  'processed',
+  'ignored',
+  'failed',
+  'rejected',
+];
+
+export class ListWebhookEventsQueryDto {
+  @IsOptional()
+  @IsIn(WEBHOOK_EVENT_STATUSES)
+  status?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
@@ -0,0 +1,66 @@
+import {
+  Controller,
+  Post,
+  Body,
+  Param,
+  HttpCode,
+  NotFoundException,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBody } from '@nestjs/swagger';
+import { WebhookInboxService } from './webhook-inbox.service';
+import { PaymentProviderRegistry } from '../payments/payment-provider.registry';
+import { FakePaymentProvider } from '../payments/providers/fake.provider';
+import { CompleteFakeCheckoutDto } from './dto/complete-fake-checkout.dto';
+
+@ApiTags('Wallet')
+@Controller('wallet/fake/checkout')
+export class FakeCheckoutController {
+  constructor(
+    private webhookInboxService: WebhookInboxService,
+    private paymentProviders: PaymentProviderRegistry,
+    private fakePaymentProvider: FakePaymentProvider,
+  ) {}
+
+  @Post(':reference')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Complete a fake checkout',
+    description:
+      'Only when the `fake` provider is enabled. Settles the checkout and delivers the signed `charge.success` or `charge.failed` webhook through the inbox, as a real provider would.',
+  })
+  @ApiBody({
+    type: CompleteFakeCheckoutDto,
+    examples: {
+      success: { summary: 'Pay', value: { outcome: 'success' } },
+      failed: { summary: 'Decline', value: { outcome: 'failed' } },
+    },
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Checkout completed and webhook delivered',
+    schema: { example: { status: true } },
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Fake provider not enabled or payment not found',
+  })
+  async completeCheckout(
+    @Param('reference') reference: string,
+    @Body() dto: CompleteFakeCheckoutDto,
+  ) {
+    if (!this.paymentProviders.has(this.fakePaymentProvider.name)) {
+      throw new NotFoundException('Payment provider fake is not enabled');
+    }
+
+    const { rawBody, headers } = this.fakePaymentProvider.completeCheckout(
+      reference,
+      dto.outcome ?? 'success',
+    );
+
+    return this.webhookInboxService.receiveWebhook(
+      this.fakePaymentProvider.name,
+      rawBody,
+      headers,
+    );
+  }
+}
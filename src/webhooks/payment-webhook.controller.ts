@@ -0,0 +1,78 @@
+import {
+  Controller,
+  Post,
+  Headers,
+  Param,
+  Req,
+  HttpCode,
+} from '@nestjs/common';
+import type { RawBodyRequest } from '@nestjs/common';
+import type { Request } from 'express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+  ApiParam,
+} from '@nestjs/swagger';
+import { WebhookInboxService } from './webhook-inbox.service';
+import { PAYMENT_PROVIDER_NAMES } from '../payments/payment-provider.interface';
+
+@ApiTags('Wallet')
+@Controller('wallet')
+export class PaymentWebhookController {
+  constructor(private webhookInboxService: WebhookInboxService) {}
+
+  @Post(':provider/webhook')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Payment provider webhook endpoint',
+    description:
+      'Receives transaction updates from Paystack (`/wallet/paystack/webhook`), PayPal (`/wallet/paypal/webhook`) or the fake provider. Only these endpoints can credit wallets. The signature is checked against the raw request body, every event is stored in the webhook inbox, and duplicate event IDs are acknowledged without being processed again.',
+  })
+  @ApiParam({ name: 'provider', enum: PAYMENT_PROVIDER_NAMES })
+  @ApiBody({
+    schema: {
+      example: {
+        event: 'charge.success',
+        data: {
+          id: 123456,
+          reference: 'wallet_user123_1704099600000_a1b2c3d4',
+          amount: 500000,
+          currency: 'NGN',
+          paid_at: '2025-01-01T12:00:00.000Z',
+          customer: {
+            id: 1,
+            email: 'user@example.com',
+          },
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Webhook received. `duplicate: true` when the event was already received.',
+    schema: {
+      example: {
+        status: true,
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid webhook signature or payload',
+  })
+  @ApiResponse({ status: 404, description: 'Payment provider not enabled' })
+  async handleWebhook(
+    @Param('provider') provider: string,
+    @Req() request: RawBodyRequest<Request>,
+    @Headers() headers: Record<string, string | string[] | undefined>,
+  ) {
+    return this.webhookInboxService.receiveWebhook(
+      provider,
+      request.rawBody,
+      headers,
+    );
+  }
+}
@@ -0,0 +1,112 @@
+import { Controller, Post, Get, Param, Query, UseGuards } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiSecurity,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { WebhookInboxService } from './webhook-inbox.service';
+import { AdminGuard } from '../common/guards/admin.guard';
+import {
+  ListWebhookEventsQueryDto,
+  WEBHOOK_EVENT_STATUSES,
+} from './dto/list-webhook-events-query.dto';
+
+const WEBHOOK_EVENT_EXAMPLE = {
+  id: 'whe_123abc',
+  provider: 'paystack',
+  event_id: 'charge.success:123456',
+  event_type: 'charge.success',
+  signature_valid: true,
+  status: 'failed',
+  error: "Can't reach database server",
+  attempts: 1,
+  processed_at: null,
+  created_at: '2025-01-15T10:00:00.000Z',
+};
+
+@ApiTags('Admin')
+@ApiSecurity('x-admin-key')
+@Controller('admin/webhooks')
+@UseGuards(AdminGuard)
+export class WebhookAdminController {
+  constructor(private webhookInboxService: WebhookInboxService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List webhook inbox events' })
+  @ApiQuery({ name: 'status', required: false, enum: WEBHOOK_EVENT_STATUSES })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Webhook events retrieved',
+    schema: { example: [WEBHOOK_EVENT_EXAMPLE] },
+  })
+  @ApiResponse({ status: 401, description: 'Invalid admin key' })
+  async listEvents(@Query() query: ListWebhookEventsQueryDto) {
+    return this.webhookInboxService.listEvents(query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a webhook event with its raw body' })
+  @ApiResponse({
+    status: 200,
+    description: 'Webhook event retrieved',
+    schema: {
+      example: {
+        ...WEBHOOK_EVENT_EXAMPLE,
+        raw_body:
+          '{"event":"charge.success","data":{"id":123456,"reference":"..."}}',
+      },
+    },
+  })
+  @ApiResponse({ status: 404, description: 'Webhook event not found' })
+  async getEvent(@Param('id') id: string) {
+    return this.webhookInboxService.getEvent(id);
+  }
+
+  @Post('replay-failed')
+  @ApiOperation({
+    summary: 'Replay all failed webhook events',
+    description: 'Re-runs up to 100 failed events, oldest first.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Failed events replayed',
+    schema: {
+      example: {
+        replayed: 1,
+        processed: 1,
+        events: [{ ...WEBHOOK_EVENT_EXAMPLE, status: 'processed' }],
+      },
+    },
+  })
+  async replayFailedEvents() {
+    return this.webhookInboxService.replayFailedEvents();
+  }
+
+  @Post(':id/replay')
+  @ApiOperation({
+    summary: 'Replay a failed webhook event',
+    description:
+      'Re-runs a failed event through the wallet handlers. Handlers are idempotent, so replaying never applies an event twice.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Event replayed; `status` shows the new outcome',
+    schema: {
+      example: {
+        ...WEBHOOK_EVENT_EXAMPLE,
+        status: 'processed',
+        error: null,
+        attempts: 2,
+        processed_at: '2025-01-15T10:05:00.000Z',
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Event is not in a failed state' })
+  @ApiResponse({ status: 404, description: 'Webhook event not found' })
+  async replayEvent(@Param('id') id: string) {
+    return this.webhookInboxService.replayEvent(id);
+  }
+}
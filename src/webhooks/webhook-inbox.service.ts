@@ -0,0 +1,241 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, WebhookEvent } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/logger/logger.service';
+import { PaymentProviderRegistry } from '../payments/payment-provider.registry';
+import { WalletService } from '../wallet/wallet.service';
+import { ListWebhookEventsQueryDto } from './dto/list-webhook-events-query.dto';
+
+/**
+ * Stores every incoming webhook before acting on it, so failed events can be
+ * inspected and replayed, and duplicate deliveries are rejected by event ID.
+ */
+@Injectable()
+export class WebhookInboxService {
+  // Events stuck in "received" this long (e.g. after a crash) can be replayed.
+  private readonly STALE_EVENT_MS = 5 * 60 * 1000;
+
+  constructor(
+    private prisma: PrismaService,
+    private logger: LoggerService,
+    private paymentProviders: PaymentProviderRegistry,
+    private walletService: WalletService,
+  ) {}
+
+  private toResponse(event: WebhookEvent, includeBody = false) {
+    return {
+      id: event.id,
+      provider: event.provider,
+      event_id: event.eventId,
+      event_type: event.eventType,
+      signature_valid: event.signatureValid,
+      status: event.status,
+      error: event.error,
+      attempts: event.attempts,
+      processed_at: event.processedAt?.toISOString() || null,
+      created_at: event.createdAt.toISOString(),
+      ...(includeBody && { raw_body: event.rawBody }),
+    };
+  }
+
+  async receiveWebhook(
+    providerName: string,
+    rawBody: Buffer | undefined,
+    headers: Record<string, string | string[] | undefined>,
+  ) {
+    if (!this.paymentProviders.has(providerName)) {
+      throw new NotFoundException(
+        `Payment provider ${providerName} is not enabled`,
+      );
+    }
+
+    if (!rawBody || rawBody.length === 0) {
+      throw new BadRequestException('Missing webhook body');
+    }
+
+    const provider = this.paymentProviders.get(providerName);
+    const header = headers[provider.signatureHeader];
+    const signature = typeof header === 'string' ? header : undefined;
+    const signatureValid = await provider.verifyWebhookSignature(
+      rawBody,
+      headers,
+    );
+    const event = provider.parseWebhookEvent(rawBody);
+
+    // Unverified events are kept for auditing but never claim an event ID,
+    // so a forged request cannot shadow the genuine delivery.
+    const rejection = !signatureValid
+      ? 'Invalid webhook signature'
+      : !event
+        ? 'Invalid webhook payload'
+        : null;
+
+    let inboxEvent: WebhookEvent;
+    try {
+      inboxEvent = await this.prisma.webhookEvent.create({
+        data: {
+          provider: provider.name,
+          eventId: rejection ? null : event!.id,
+          eventType: event?.type ?? 'unknown',
+          rawBody: rawBody.toString('utf8'),
+          signature,
+          signatureValid,
+          status: rejection ? 'rejected' : 'received',
+          error: rejection,
+        },
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        // Acknowledge so the provider stops retrying, but do not process
+        // again.
+        this.logger.warn(
+          `Duplicate ${provider.name} event rejected: ${event!.id}`,
+        );
+        return { status: true, duplicate: true };
+      }
+      throw error;
+    }
+
+    if (rejection) {
+      this.logger.warn(`${provider.name} webhook rejected: ${rejection}`);
+      throw new BadRequestException(rejection);
+    }
+
+    await this.process(inboxEvent);
+
+    return { status: true };
+  }
+
+  /**
+   * Runs an inbox event through the wallet handlers and records the outcome.
+   * Failures are stored rather than thrown; the delivery itself succeeded and
+   * the event can be replayed once the cause is fixed.
+   */
+  private async process(inboxEvent: WebhookEvent) {
+    try {
+      const event = this.paymentProviders
+        .get(inboxEvent.provider)
+        .parseWebhookEvent(Buffer.from(inboxEvent.rawBody, 'utf8'))!;
+      const handled = await this.walletService.handlePaymentEvent(event);
+
+      return await this.prisma.webhookEvent.update({
+        where: { id: inboxEvent.id },
+        data: {
+          status: handled ? 'processed' : 'ignored',
+          error: null,
+          attempts: { increment: 1 },
+          processedAt: new Date(),
+        },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Error processing ${inboxEvent.provider} event ${inboxEvent.eventId}`,
+        error,
+      );
+
+      return this.prisma.webhookEvent.update({
+        where: { id: inboxEvent.id },
+        data: {
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+          attempts: { increment: 1 },
+        },
+      });
+    }
+  }
+
+  async listEvents(query: ListWebhookEventsQueryDto) {
+    const events = await this.prisma.webhookEvent.findMany({
+      where: { ...(query.status && { status: query.status }) },
+      orderBy: { createdAt: 'desc' },
+      take: query.limit ?? 50,
+    });
+
+    return events.map((event) => this.toResponse(event));
+  }
+
+  async getEvent(id: string) {
+    const event = await this.prisma.webhookEvent.findUnique({ where: { id } });
+
+    if (!event) {
+      throw new NotFoundException('Webhook event not found');
+    }
+
+    return this.toResponse(event, true);
+  }
+
+  async replayEvent(id: string) {
+    try {
+      const event = await this.prisma.webhookEvent.findUnique({
+        where: { id },
+      });
+
+      if (!event) {
+        throw new NotFoundException('Webhook event not found');
+      }
+
+      // Claim the event so two replays cannot run it at the same time.
+      const claimed = await this.prisma.webhookEvent.updateMany({
+        where: {
+          id,
+          signatureValid: true,
+          OR: [
+            { status: 'failed' },
+            {
+              status: 'received',
+              updatedAt: { lt: new Date(Date.now() - this.STALE_EVENT_MS) },
+            },
+          ],
+        },
+        data: { status: 'received' },
+      });
+
+      if (claimed.count === 0) {
+        throw new BadRequestException(
+          `Only failed events can be replayed (current status: ${event.status})`,
+        );
+      }
+
+      const replayed = await this.process(event);
+
+      this.logger.log(
+        `${event.provider} event ${event.eventId} replayed: ${replayed.status}`,
+      );
+
+      return this.toResponse(replayed);
+    } catch (error) {
+      this.logger.error('Error replaying webhook event', error);
+      throw error;
+    }
+  }
+
+  async replayFailedEvents() {
+    const failed = await this.prisma.webhookEvent.findMany({
+      where: { status: 'failed', signatureValid: true },
+      orderBy: { createdAt: 'asc' },
+      take: 100,
+    });
+
+    const results: ReturnType<typeof this.toResponse>[] = [];
+    for (const event of failed) {
+      try {
+        results.push(await this.replayEvent(event.id));
+      } catch {
+        // Already replayed concurrently; skip it.
+      }
+    }
+
+    return {
+      replayed: results.length,
+      processed: results.filter((r) => r.status !== 'failed').length,
+      events: results,
+    };
+  }
+}
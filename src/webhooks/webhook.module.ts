@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { WebhookInboxService } from './webhook-inbox.service';
+import { PaymentWebhookController } from './payment-webhook.controller';
+import { FakeCheckoutController } from './fake-checkout.controller';
+import { WebhookAdminController } from './webhook-admin.controller';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/logger/logger.service';
+import { PaymentsModule } from '../payments/payments.module';
+import { WalletModule } from '../wallet/wallet.module';
+
+@Module({
+  imports: [PaymentsModule, WalletModule],
+  controllers: [
+    PaymentWebhookController,
+    FakeCheckoutController,
+    WebhookAdminController,
+  ],
+  providers: [WebhookInboxService, PrismaService, LoggerService],
+})
+export class WebhookModule {}
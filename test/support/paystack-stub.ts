@@ -0,0 +1,310 @@
+import express from 'express';
+import axios from 'axios';
+import * as crypto from 'crypto';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+
+/**
+ * A local stand-in for the parts of the Paystack API the wallet uses. Point
+ * PAYSTACK_API_URL at it to exercise deposits and withdrawals offline.
+ *
+ * Account numbers ending in "0" fail resolution; transfers to accounts ending
+ * in "9" fail. When a webhook URL is given, transfers are followed by a signed
+ * `transfer.success` or `transfer.failed` event.
+ *
+ * Saved-card charges succeed on the spot, except for authorization codes
+ * ending in "_declined", which fail.
+ *
+ * Dedicated accounts are assigned immediately; `sendBankTransfer` delivers
+ * the `charge.success` event Paystack sends when one of them is paid into.
+ */
+export interface PaystackStubOptions {
+  secretKey: string;
+  webhookUrl?: string;
+  port?: number;
+}
+
+export interface StubTransfer {
+  amount: number;
+  recipient: string;
+  transferCode: string;
+  status: string;
+}
+
+export interface PaystackStub {
+  url: string;
+  transactions: Map<string, { amount: number; status: string }>;
+  recipients: Map<string, { account_number: string; bank_code: string }>;
+  transfers: Map<string, StubTransfer>;
+  dedicatedAccounts: Map<string, { customer: string }>;
+  sendBankTransfer(accountNumber: string, amount: number): Promise<void>;
+  close(): Promise<void>;
+}
+
+const BANKS = [
+  { name: 'Access Bank', code: '044' },
+  { name: 'Guaranty Trust Bank', code: '058' },
+  { name: 'Zenith Bank', code: '057' },
+];
+
+export async function startPaystackStub(
+  options: PaystackStubOptions,
+): Promise<PaystackStub> {
+  const app = express();
+  app.use(express.json());
+
+  const transactions = new Map<string, { amount: number; status: string }>();
+  const recipients = new Map<
+    string,
+    { account_number: string; bank_code: string }
+  >();
+  const transfers = new Map<string, StubTransfer>();
+  const customers = new Map<string, string>();
+  const dedicatedAccounts = new Map<string, { customer: string }>();
+
+  const sendWebhook = async (event: string, data: Record<string, unknown>) => {
+    if (!options.webhookUrl) return;
+    const body = JSON.stringify({ event, data });
+    const signature = crypto
+      .createHmac('sha512', options.secretKey)
+      .update(body)
+      .digest('hex');
+    await axios
+      .post(options.webhookUrl, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          'x-paystack-signature': signature,
+        },
+      })
+      .catch(() => undefined);
+  };
+
+  app.use((req, res, next) => {
+    if (req.headers.authorization !== `Bearer ${options.secretKey}`) {
+      res.status(401).json({ status: false, message: 'Invalid key' });
+      return;
+    }
+    next();
+  });
+
+  app.post('/transaction/initialize', (req, res) => {
+    const { reference, amount } = req.body as {
+      reference: string;
+      amount: number;
+    };
+    transactions.set(reference, { amount, status: 'pending' });
+    res.json({
+      status: true,
+      data: {
+        reference,
+        access_code: `access_${reference}`,
+        authorization_url: `http://paystack.local/checkout/${reference}`,
+      },
+    });
+  });
+
+  app.get('/transaction/verify/:reference', (req, res) => {
+    const transaction = transactions.get(req.params.reference);
+    if (!transaction) {
+      res
+        .status(404)
+        .json({ status: false, message: 'Transaction reference not found' });
+      return;
+    }
+    res.json({
+      status: true,
+      data: {
+        status: transaction.status,
+        reference: req.params.reference,
+        amount: transaction.amount,
+        currency: 'NGN',
+        customer: {},
+      },
+    });
+  });
+
+  app.post('/transaction/charge_authorization', (req, res) => {
+    const { reference, amount, currency, authorization_code } = req.body as {
+      reference: string;
+      amount: number;
+      currency?: string;
+      authorization_code: string;
+    };
+    const status = authorization_code.endsWith('_declined')
+      ? 'failed'
+      : 'success';
+    transactions.set(reference, { amount, status });
+    res.json({
+      status: true,
+      data: {
+        status,
+        reference,
+        amount,
+        currency: currency ?? 'NGN',
+        gateway_response: status === 'success' ? 'Approved' : 'Declined',
+        authorization: { authorization_code, reusable: true },
+      },
+    });
+  });
+
+  app.post('/customer/deactivate_authorization', (req, res) => {
+    res.json({ status: true, message: 'Authorization has been deactivated' });
+  });
+
+  app.post('/customer', (req, res) => {
+    const { email } = req.body as { email: string };
+    const code =
+      customers.get(email) ?? `CUS_${crypto.randomBytes(6).toString('hex')}`;
+    customers.set(email, code);
+    res.json({
+      status: true,
+      data: { id: customers.size, customer_code: code, email },
+    });
+  });
+
+  app.post('/dedicated_account', (req, res) => {
+    const { customer } = req.body as { customer: string };
+    const accountNumber = String(9000000000 + dedicatedAccounts.size + 1);
+    dedicatedAccounts.set(accountNumber, { customer });
+    res.json({
+      status: true,
+      data: {
+        id: dedicatedAccounts.size,
+        account_number: accountNumber,
+        account_name: 'WALLET/TEST ACCOUNT',
+        bank: { name: 'Test Bank', slug: 'test-bank' },
+        currency: 'NGN',
+        assigned: true,
+        active: true,
+      },
+    });
+  });
+
+  app.get('/bank', (req, res) => {
+    res.json({ status: true, data: BANKS });
+  });
+
+  app.get('/bank/resolve', (req, res) => {
+    const accountNumber = req.query.account_number as string;
+    if (accountNumber.endsWith('0')) {
+      res
+        .status(422)
+        .json({ status: false, message: 'Could not resolve account name' });
+      return;
+    }
+    res.json({
+      status: true,
+      data: { account_number: accountNumber, account_name: 'TEST ACCOUNT' },
+    });
+  });
+
+  app.post('/transferrecipient', (req, res) => {
+    const { account_number, bank_code } = req.body as {
+      account_number: string;
+      bank_code: string;
+    };
+    const code = `RCP_${crypto.randomBytes(6).toString('hex')}`;
+    recipients.set(code, { account_number, bank_code });
+    res.json({ status: true, data: { recipient_code: code } });
+  });
+
+  app.post('/transfer', (req, res) => {
+    const { amount, recipient, reference } = req.body as {
+      amount: number;
+      recipient: string;
+      reference: string;
+    };
+    const target = recipients.get(recipient);
+    if (!target) {
+      res.status(400).json({ status: false, message: 'Invalid recipient' });
+      return;
+    }
+    const transferCode = `TRF_${crypto.randomBytes(6).toString('hex')}`;
+    const id = transfers.size + 1;
+    const failed = target.account_number.endsWith('9');
+    transfers.set(reference, {
+      amount,
+      recipient,
+      transferCode,
+      status: failed ? 'failed' : 'success',
+    });
+    res.json({
+      status: true,
+      data: { id, transfer_code: transferCode, reference, status: 'pending' },
+    });
+
+    setImmediate(
+      () =>
+        void sendWebhook(failed ? 'transfer.failed' : 'transfer.success', {
+          id,
+          reference,
+          transfer_code: transferCode,
+          amount,
+        }),
+    );
+  });
+
+  app.get('/transfer/verify/:reference', (req, res) => {
+    const transfer = transfers.get(req.params.reference);
+    if (!transfer) {
+      res.status(404).json({ status: false, message: 'Transfer not found' });
+      return;
+    }
+    res.json({
+      status: true,
+      data: {
+        reference: req.params.reference,
+        transfer_code: transfer.transferCode,
+        amount: transfer.amount,
+        status: transfer.status,
+      },
+    });
+  });
+
+  const server: Server = await new Promise((resolve) => {
+    const listener = app.listen(options.port ?? 0, () => resolve(listener));
+  });
+  const { port } = server.address() as AddressInfo;
+
+  const sendBankTransfer = async (accountNumber: string, amount: number) => {
+    const account = dedicatedAccounts.get(accountNumber);
+    const id = Date.now();
+    await sendWebhook('charge.success', {
+      id,
+      reference: `T${id}_${crypto.randomBytes(3).toString('hex')}`,
+      amount,
+      currency: 'NGN',
+      channel: 'dedicated_nuban',
+      status: 'success',
+      customer: { customer_code: account?.customer },
+      authorization: {
+        channel: 'dedicated_nuban',
+        receiver_bank_account_number: accountNumber,
+        sender_name: 'TEST SENDER',
+        sender_bank: 'Access Bank',
+        reusable: false,
+      },
+    });
+  };
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    transactions,
+    recipients,
+    transfers,
+    dedicatedAccounts,
+    sendBankTransfer,
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve())),
+      ),
+  };
+}
+
+if (require.main === module) {
+  void startPaystackStub({
+    secretKey: process.env.PAYSTACK_SECRET_KEY || 'sk_test_stub',
+    webhookUrl: process.env.PAYSTACK_STUB_WEBHOOK_URL,
+    port: Number(process.env.PAYSTACK_STUB_PORT || 4010),
+  }).then((stub) => console.log(`Paystack stub listening on ${stub.url}`));
+}
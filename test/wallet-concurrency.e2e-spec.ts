@@ -0,0 +1,321 @@
+import * as crypto from 'crypto';
+import { BadRequestException } from '@nestjs/common';
+import { PrismaService } from '../src/prisma/prisma.service';
+import { LoggerService } from '../src/common/logger/logger.service';
+import { LedgerService } from '../src/ledger/ledger.service';
+import { FxService } from '../src/fx/fx.service';
+import { PaystackService } from '../src/paystack/paystack.service';
+import { PaymentProviderRegistry } from '../src/payments/payment-provider.registry';
+import { PaystackPaymentProvider } from '../src/payments/providers/paystack.provider';
+import { PaypalPaymentProvider } from '../src/payments/providers/paypal.provider';
+import { FakePaymentProvider } from '../src/payments/providers/fake.provider';
+import { WalletService } from '../src/wallet/wallet.service';
+import { HoldService } from '../src/holds/hold.service';
+import { OutboundWebhookService } from '../src/outbound-webhooks/outbound-webhook.service';
+import { LimitService } from '../src/limits/limit.service';
+
+/**
+ * Fires parallel transfers, deposits and holds at the same wallets and checks
+ * that balances end up exact and never negative.
+ *
+ * Needs DATABASE_URL pointing at a disposable Postgres database with the
+ * schema applied (`npx prisma db push`).
+ */
+describe('Wallet balances under concurrency (e2e)', () => {
+  const runId = `${Date.now()}_${crypto.randomBytes(3).toString('hex')}`;
+
+  let prisma: PrismaService;
+  let ledgerService: LedgerService;
+  let walletService: WalletService;
+  let holdService: HoldService;
+  let userCount = 0;
+
+  beforeAll(async () => {
+    process.env.PAYMENT_PROVIDERS = 'fake';
+    process.env.FAKE_PROVIDER_SECRET = 'concurrency_test';
+
+    const url = new URL(process.env.DATABASE_URL!);
+    url.searchParams.set('connection_limit', '20');
+    prisma = new PrismaService({
+      datasourceUrl: url.toString(),
+      transactionOptions: { maxWait: 20000, timeout: 20000 },
+    });
+    await prisma.$connect();
+
+    const logger = {
+      log: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    } as unknown as LoggerService;
+    ledgerService = new LedgerService(prisma, logger);
+    const paystackService = new PaystackService(logger);
+    const fxService = new FxService(logger);
+    walletService = new WalletService(
+      prisma,
+      logger,
+      paystackService,
+      ledgerService,
+      fxService,
+      new PaymentProviderRegistry(
+        new PaystackPaymentProvider(paystackService),
+        new PaypalPaymentProvider(logger),
+        new FakePaymentProvider(logger),
+      ),
+      new OutboundWebhookService(prisma, logger),
+      new LimitService(prisma, logger, fxService),
+    );
+    holdService = new HoldService(prisma, logger, walletService, ledgerService);
+  });
+
+  afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  async function createUser() {
+    userCount++;
+    return prisma.user.create({
+      data: {
+        email: `concurrency_${runId}_${userCount}@example.com`,
+        name: `Concurrency User ${userCount}`,
+        wallet: { create: {} },
+      },
+      include: { wallet: true },
+    });
+  }
+
+  async function createPendingDeposit(walletId: string, amount: number) {
+    const reference = `deposit_${runId}_${crypto.randomBytes(6).toString('hex')}`;
+    await prisma.transaction.create({
+      data: {
+        walletId,
+        type: 'deposit',
+        direction: 'in',
+        amount,
+        status: 'pending',
+        reference,
+        provider: 'fake',
+        providerRef: reference,
+      },
+    });
+    return reference;
+  }
+
+  // Calls the event handler directly: the webhook inbox would reject the
+  // duplicate deliveries before they reach it.
+  function deliverChargeSuccess(reference: string, amount: number) {
+    return walletService.handlePaymentEvent({
+      provider: 'fake',
+      id: `evt_${reference}`,
+      type: 'charge.success',
+      data: { reference, amount: amount * 100, currency: 'NGN' },
+    });
+  }
+
+  async function fund(walletId: string, amount: number) {
+    await deliverChargeSuccess(
+      await createPendingDeposit(walletId, amount),
+      amount,
+    );
+  }
+
+  async function balanceOf(walletId: string) {
+    const row = await prisma.walletBalance.findUniqueOrThrow({
+      where: { walletId_currency: { walletId, currency: 'NGN' } },
+    });
+    return {
+      balance: Number(row.balance) / 100,
+      held: Number(row.heldBalance) / 100,
+    };
+  }
+
+  async function expectLedgerConsistent(walletId: string) {
+    const result = await ledgerService.reconcileWallet(walletId);
+    expect(result.consistent).toBe(true);
+  }
+
+  function transfer(senderId: string, walletNumber: string, amount: number) {
+    return walletService.transferFunds(senderId, {
+      wallet_number: walletNumber,
+      amount,
+    });
+  }
+
+  function expectInsufficientBalance(results: PromiseSettledResult<unknown>[]) {
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        expect(result.reason).toBeInstanceOf(BadRequestException);
+        expect((result.reason as Error).message).toBe('Insufficient balance');
+      }
+    }
+  }
+
+  it('credits each deposit exactly once when webhooks arrive concurrently', async () => {
+    const user = await createUser();
+    const references = await Promise.all(
+      Array.from({ length: 10 }, () =>
+        createPendingDeposit(user.wallet!.id, 1000),
+      ),
+    );
+
+    // Every event is delivered three times at once.
+    await Promise.allSettled(
+      references.flatMap((reference) => [
+        deliverChargeSuccess(reference, 1000),
+        deliverChargeSuccess(reference, 1000),
+        deliverChargeSuccess(reference, 1000),
+      ]),
+    );
+
+    expect(await balanceOf(user.wallet!.id)).toEqual({
+      balance: 10000,
+      held: 0,
+    });
+    await expectLedgerConsistent(user.wallet!.id);
+  });
+
+  it('never overdraws a wallet under parallel transfers', async () => {
+    const sender = await createUser();
+    const recipient = await createUser();
+    await fund(sender.wallet!.id, 10000);
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 25 }, () =>
+        transfer(sender.id, recipient.wallet!.walletNumber, 1000),
+      ),
+    );
+
+    const succeeded = results.filter((r) => r.status === 'fulfilled').length;
+    expect(succeeded).toBe(10);
+    expectInsufficientBalance(results);
+
+    expect((await balanceOf(sender.wallet!.id)).balance).toBe(0);
+    expect((await balanceOf(recipient.wallet!.id)).balance).toBe(10000);
+    await expectLedgerConsistent(sender.wallet!.id);
+    await expectLedgerConsistent(recipient.wallet!.id);
+  });
+
+  it('keeps the balance exact with transfers and deposits interleaved', async () => {
+    const sender = await createUser();
+    const recipient = await createUser();
+    await fund(sender.wallet!.id, 5000);
+
+    const references = await Promise.all(
+      Array.from({ length: 5 }, () =>
+        createPendingDeposit(sender.wallet!.id, 1000),
+      ),
+    );
+
+    const transfers = Array.from({ length: 15 }, () =>
+      transfer(sender.id, recipient.wallet!.walletNumber, 1000),
+    );
+    const deposits = references.map((reference) =>
+      deliverChargeSuccess(reference, 1000),
+    );
+
+    const transferResults = await Promise.allSettled(transfers);
+    await Promise.all(deposits);
+
+    const succeeded = transferResults.filter(
+      (r) => r.status === 'fulfilled',
+    ).length;
+    expectInsufficientBalance(transferResults);
+    expect(succeeded).toBeGreaterThanOrEqual(5);
+    expect(succeeded).toBeLessThanOrEqual(10);
+
+    const senderBalance = await balanceOf(sender.wallet!.id);
+    expect(senderBalance.balance).toBe(10000 - succeeded * 1000);
+    expect(senderBalance.balance).toBeGreaterThanOrEqual(0);
+    expect((await balanceOf(recipient.wallet!.id)).balance).toBe(
+      succeeded * 1000,
+    );
+    await expectLedgerConsistent(sender.wallet!.id);
+    await expectLedgerConsistent(recipient.wallet!.id);
+  });
+
+  it('completes transfers in opposite directions without deadlocking', async () => {
+    const alice = await createUser();
+    const bob = await createUser();
+    await Promise.all([
+      fund(alice.wallet!.id, 5000),
+      fund(bob.wallet!.id, 5000),
+    ]);
+
+    const results = await Promise.allSettled([
+      ...Array.from({ length: 10 }, () =>
+        transfer(alice.id, bob.wallet!.walletNumber, 500),
+      ),
+      ...Array.from({ length: 10 }, () =>
+        transfer(bob.id, alice.wallet!.walletNumber, 500),
+      ),
+    ]);
+
+    expect(results.filter((r) => r.status === 'rejected')).toEqual([]);
+    expect((await balanceOf(alice.wallet!.id)).balance).toBe(5000);
+    expect((await balanceOf(bob.wallet!.id)).balance).toBe(5000);
+    await expectLedgerConsistent(alice.wallet!.id);
+    await expectLedgerConsistent(bob.wallet!.id);
+  });
+
+  it('completes opposite transfers without deadlocking under a daily limit', async () => {
+    const alice = await createUser();
+    const bob = await createUser();
+    await Promise.all([
+      fund(alice.wallet!.id, 5000),
+      fund(bob.wallet!.id, 5000),
+    ]);
+    await prisma.transactionLimit.createMany({
+      data: [alice, bob].map((user) => ({
+        scope: 'user',
+        subjectId: user.id,
+        operation: 'transfer',
+        daily: 100000,
+      })),
+    });
+
+    const results = await Promise.allSettled([
+      ...Array.from({ length: 10 }, () =>
+        transfer(alice.id, bob.wallet!.walletNumber, 500),
+      ),
+      ...Array.from({ length: 10 }, () =>
+        transfer(bob.id, alice.wallet!.walletNumber, 500),
+      ),
+    ]);
+
+    expect(results.filter((r) => r.status === 'rejected')).toEqual([]);
+    expect((await balanceOf(alice.wallet!.id)).balance).toBe(5000);
+    expect((await balanceOf(bob.wallet!.id)).balance).toBe(5000);
+    await expectLedgerConsistent(alice.wallet!.id);
+    await expectLedgerConsistent(bob.wallet!.id);
+  });
+
+  it('does not let holds and transfers together exceed the balance', async () => {
+    const owner = await createUser();
+    const recipient = await createUser();
+    await fund(owner.wallet!.id, 5000);
+
+    const holds = Array.from({ length: 10 }, () =>
+      holdService.authorizeHold(owner.id, { amount: 1000 }),
+    );
+    const transfers = Array.from({ length: 10 }, () =>
+      transfer(owner.id, recipient.wallet!.walletNumber, 1000),
+    );
+
+    const holdResults = await Promise.allSettled(holds);
+    const transferResults = await Promise.allSettled(transfers);
+    expectInsufficientBalance([...holdResults, ...transferResults]);
+
+    const heldCount = holdResults.filter(
+      (r) => r.status === 'fulfilled',
+    ).length;
+    const transferredCount = transferResults.filter(
+      (r) => r.status === 'fulfilled',
+    ).length;
+    expect(heldCount + transferredCount).toBe(5);
+
+    expect(await balanceOf(owner.wallet!.id)).toEqual({
+      balance: 5000 - transferredCount * 1000,
+      held: heldCount * 1000,
+    });
+    await expectLedgerConsistent(owner.wallet!.id);
+  });
+});